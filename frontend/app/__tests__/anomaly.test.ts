@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import { blockedFolds, flagAnomalies, outOfFoldPredictions, robustZ } from "../lib/anomaly";
+import { DEFAULT_CLASSICAL } from "../lib/classical";
+import { DEFAULT_FEATURES } from "../lib/features";
+import { createJobState, runJob } from "../lib/jobs";
+import { DEFAULT_LASSO, DEFAULT_RIDGE } from "../lib/linear";
+import { DEFAULT_BOOST, DEFAULT_CART, DEFAULT_FOREST, TrainParams } from "../lib/trees";
+import { DEFAULT_XGBOOST } from "../lib/xgboost";
+
+test("blocked folds tile the rows and every row is predicted out of fold", () => {
+  expect(blockedFolds(10, 3)).toEqual([
+    { start: 0, end: 3 },
+    { start: 3, end: 6 },
+    { start: 6, end: 10 },
+  ]);
+  // a "model" that predicts the mean of what it was fit on can't see its own rows
+  const y = [1, 1, 1, 1, 9, 9];
+  const X = y.map(() => [0]);
+  const mean = (v: number[]) => v.reduce((a, b) => a + b, 0) / v.length;
+  const pred = outOfFoldPredictions(X, y, (_, yy) => ({ predictBatch: (XX) => XX.map(() => mean(yy)) }), 3);
+  expect(pred).toEqual([5, 5, 5, 5, 1, 1]);
+});
+
+test("robust z-scores ignore the outliers they flag", () => {
+  const z = robustZ([0, 1, -1, 2, -2, 0, 1, -1, 40]);
+  expect(z[8]).toBeGreaterThan(20);
+  expect(Math.abs(z[1])).toBeLessThan(1.5);
+  // MAD of 0: falls back to the mean absolute deviation
+  expect(robustZ([0, 0, 0, 0, 0, 5])[5]).toBeGreaterThan(3.5);
+  expect(robustZ([2, 2, 2])).toEqual([0, 0, 0]);
+
+  const flagged = flagAnomalies("y", [10, 11, 12, 13, 14, 15], [0, 1, 0, 1, 0, 30], [0, 0.5, 0.5, 0.5, 0, 0.5], 3.5);
+  expect(flagged.map((a) => [a.row, a.actual])).toEqual([[15, 30]]);
+});
+
+test("the anomalies job flags a spike in the target and in another series", () => {
+  const csv =
+    "date,load,temp\n" +
+    Array.from({ length: 150 }, (_, i) => {
+      const d = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+      const load = 50 + 5 * Math.sin((2 * Math.PI * i) / 7) + (i === 100 ? 60 : 0);
+      const temp = 10 + (i % 3) + (i === 40 ? -30 : 0);
+      return `${d},${load.toFixed(2)},${temp}`;
+    }).join("\n");
+  const state = createJobState();
+  const bytes = new TextEncoder().encode(csv).buffer as ArrayBuffer;
+  runJob(state, { type: "parse", name: "plant.csv", bytes }, null, () => {});
+  const params: TrainParams = {
+    cart: DEFAULT_CART,
+    forest: DEFAULT_FOREST,
+    boost: DEFAULT_BOOST,
+    xgboost: DEFAULT_XGBOOST,
+    ridge: DEFAULT_RIDGE,
+    lasso: DEFAULT_LASSO,
+    classical: DEFAULT_CLASSICAL,
+  };
+  const res = runJob(
+    state,
+    {
+      type: "anomalies",
+      target: "load",
+      features: DEFAULT_FEATURES,
+      family: "cart",
+      params,
+      options: { folds: 5, threshold: 5, scope: "all" },
+    },
+    null,
+    () => {}
+  );
+  expect(Object.keys(res.scored)).toEqual(["load", "temp"]);
+  const top = (s: string) =>
+    res.anomalies.filter((a) => a.series === s).sort((a, b) => Math.abs(b.score) - Math.abs(a.score))[0];
+  expect(top("load").row).toBe(100);
+  expect(top("temp")).toMatchObject({ row: 40, actual: -19 });
+  expect(top("temp").score).toBeLessThan(0);
+});
@@ -0,0 +1,61 @@
+import {
+  backtest,
+  computeMetrics,
+  naiveForecast,
+  seasonalNaiveForecast,
+  walkForwardFolds,
+} from "../lib/backtest";
+
+test("computeMetrics on a known example", () => {
+  const m = computeMetrics([1, 2, 3, 4], [1, 2, 4, 2]);
+  expect(m.n).toBe(4);
+  expect(m.mae).toBeCloseTo(0.75);
+  expect(m.rmse).toBeCloseTo(Math.sqrt(5 / 4));
+  expect(m.mape).toBeCloseTo((100 * (1 / 3 + 2 / 4)) / 4);
+  expect(m.r2).toBeCloseTo(1 - 5 / 5);
+});
+
+test("MAPE skips zero actuals", () => {
+  expect(computeMetrics([0, 2], [1, 1]).mape).toBeCloseTo(50);
+});
+
+test("walk-forward folds never train on their test window", () => {
+  const folds = walkForwardFolds(100, { folds: 4, testFraction: 0.2, minTrain: 10 });
+  expect(folds).toHaveLength(4);
+  expect(folds[folds.length - 1].testEnd).toBe(100);
+  for (const f of folds) {
+    expect(f.trainEnd).toBeLessThanOrEqual(f.testStart);
+    expect(f.testEnd - f.testStart).toBe(5);
+  }
+  // test windows are contiguous
+  for (let i = 1; i < folds.length; i++) expect(folds[i].testStart).toBe(folds[i - 1].testEnd);
+});
+
+test("naive baselines look back from the feature row", () => {
+  const series = [10, 11, 12, 13, 14, 15, 16, 17, 18];
+  const t = [3, 4, 5];
+  expect(naiveForecast(series, t)).toEqual([13, 14, 15]);
+  expect(seasonalNaiveForecast(series, t, 3)).toEqual([11, 12, 13]);
+  expect(naiveForecast(series, [0], 1)).toEqual([10]);
+  expect(seasonalNaiveForecast(series, [0], 4)).toEqual([NaN]);
+});
+
+test("backtest pools out-of-sample predictions across folds", () => {
+  const X = Array.from({ length: 60 }, (_, i) => [i]);
+  const y = X.map(([i]) => 2 * i);
+  const fit = (XX: number[][], yy: number[]) => {
+    const last = yy[yy.length - 1];
+    return { predictBatch: (Z: number[][]) => Z.map(() => last) };
+  };
+  const naive = y.map((v) => v - 2);
+  const res = backtest(X, y, fit, { naive, seasonal: null }, {
+    folds: 3,
+    testFraction: 0.25,
+    minTrain: 10,
+  });
+  expect(res.folds).toHaveLength(3);
+  expect(res.oos).toHaveLength(15);
+  expect(res.naive.mae).toBeCloseTo(2);
+  expect(res.seasonalNaive).toBeNull();
+  expect(res.model.mae).toBeGreaterThan(res.naive.mae);
+});
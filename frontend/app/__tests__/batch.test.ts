@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ */
+import { forecastAll } from "../lib/batch";
+import { DEFAULT_CLASSICAL } from "../lib/classical";
+import { parseCSV } from "../lib/data";
+import { DEFAULT_FEATURES } from "../lib/features";
+import { DEFAULT_LASSO, DEFAULT_RIDGE } from "../lib/linear";
+import { DEFAULT_BOOST, DEFAULT_CART, DEFAULT_FOREST, TrainParams } from "../lib/trees";
+import { DEFAULT_XGBOOST } from "../lib/xgboost";
+
+// two weekly patterns at very different levels, and a series too short to fit
+const df = parseCSV(
+  "date,item_a,item_b,item_c\n" +
+    Array.from({ length: 100 }, (_, i) => {
+      const d = new Date(Date.UTC(2025, 0, 1 + i)).toISOString().slice(0, 10);
+      return `${d},${10 + (i % 7)},${1000 + 50 * (i % 7)},${i < 10 ? i : ""}`;
+    }).join("\n")
+);
+const params: TrainParams = {
+  cart: DEFAULT_CART,
+  forest: DEFAULT_FOREST,
+  boost: DEFAULT_BOOST,
+  xgboost: DEFAULT_XGBOOST,
+  ridge: DEFAULT_RIDGE,
+  lasso: DEFAULT_LASSO,
+  classical: DEFAULT_CLASSICAL,
+};
+// as an exogenous input the mostly empty item_c would leave no complete rows
+const features = { ...DEFAULT_FEATURES, lags: [1, 7], excludeExo: ["item_c"] };
+
+test.each(["local", "global"] as const)("%s models forecast every series with held-out metrics", (mode) => {
+  const progress: number[] = [];
+  const res = forecastAll(df, features, "cart", params, { mode, horizon: 3, testFraction: 0.2 }, null, (d, t) =>
+    progress.push(d / t)
+  );
+  expect(res.mode).toBe(mode);
+  expect(res.series.map((s) => s.series)).toEqual(["item_a", "item_b"]);
+  expect(res.skipped).toEqual(["item_c"]);
+  expect(res.labels).toHaveLength(3);
+  expect(progress[progress.length - 1]).toBe(1);
+
+  const [a, b] = res.series;
+  expect(a.forecast).toHaveLength(3);
+  // each series' forecast stays on its own level
+  for (const v of a.forecast) expect(v).toBeLessThan(20);
+  for (const v of b.forecast) expect(v).toBeGreaterThan(900);
+  expect(a.metrics.n).toBeGreaterThan(10);
+  expect(b.metrics.mae).toBeLessThan(25);
+});
@@ -0,0 +1,12 @@
+import { scaleTransform } from "../lib/chartScale";
+
+test("z-score and index scales are fitted on the observed values", () => {
+  const values = [null, 2, 4, 6, null];
+  const z = scaleTransform(values, "zscore");
+  expect([2, 4, 6].map(z)).toEqual([-Math.sqrt(1.5), 0, Math.sqrt(1.5)]);
+  const index = scaleTransform([0, 50, 75], "index");
+  expect([50, 75, 100].map(index)).toEqual([100, 150, 200]);
+  expect(scaleTransform(values, "axes")(4)).toBe(4);
+  // a constant series is centred rather than divided by zero
+  expect(scaleTransform([3, 3], "zscore")(5)).toBe(2);
+});
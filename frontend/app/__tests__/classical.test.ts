@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import {
+  classicalFeatures,
+  classicalWindow,
+  featuresForFamily,
+  fitHoltWinters,
+  seasonalNaiveModel,
+} from "../lib/classical";
+import { DEFAULT_BACKTEST } from "../lib/backtest";
+import { parseCSV } from "../lib/data";
+import { buildFeatures, DEFAULT_FEATURES } from "../lib/features";
+import { createJobState, runJob } from "../lib/jobs";
+import { DEFAULT_LASSO, DEFAULT_RIDGE } from "../lib/linear";
+import { DEFAULT_BOOST, DEFAULT_CART, DEFAULT_FOREST, fitCART, TrainParams } from "../lib/trees";
+import { DEFAULT_XGBOOST } from "../lib/xgboost";
+
+// upward trend with a weekly pattern
+const value = (i: number) => 100 + 2 * i + [0, 5, 9, 4, -3, -8, -7][i % 7];
+const csv =
+  "date,sales,price\n" +
+  Array.from({ length: 140 }, (_, i) => {
+    const d = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+    return `${d},${value(i)},${i % 3}`;
+  }).join("\n");
+const df = parseCSV(csv);
+const params: TrainParams = {
+  cart: DEFAULT_CART,
+  forest: { ...DEFAULT_FOREST, nTrees: 10 },
+  boost: DEFAULT_BOOST,
+  xgboost: DEFAULT_XGBOOST,
+  ridge: DEFAULT_RIDGE,
+  lasso: DEFAULT_LASSO,
+  classical: { season: 7 },
+};
+
+test("classical features are a window of the target's own values", () => {
+  const cfg = classicalFeatures(DEFAULT_FEATURES, [...df.numericCols, ...df.categoricalCols], 7);
+  const fs = buildFeatures(df, "sales", cfg);
+  expect(fs.featNames).toHaveLength(classicalWindow(7));
+  expect(fs.featNames.slice(0, 2)).toEqual(["sales(t-1)", "sales(t-2)"]);
+
+  // seasonal naive predicts y(t+1) with y(t+1-7)
+  const { X, y, t } = fs.buildDataset(1);
+  const snaive = seasonalNaiveModel(7, X[0].length);
+  expect(snaive.predictBatch([X[0]])[0]).toBe(value(t[0] + 1 - 7));
+  expect(snaive.predictBatch([X[0]])[0]).toBe(y[0] - 14);
+  // with no season, the latest observation
+  expect(seasonalNaiveModel(1, X[0].length).predictBatch([X[0]])[0]).toBe(value(t[0] - 1));
+});
+
+test("Holt-Winters follows the trend past the training range where a tree can't", () => {
+  const cfg = classicalFeatures(DEFAULT_FEATURES, df.numericCols, 7);
+  const fs = buildFeatures(df, "sales", cfg);
+  const { X, y } = fs.buildDataset(1);
+  const hw = fitHoltWinters(X, y, { season: 7 });
+  expect(hw.season).toBe(7);
+
+  const horizon = 14;
+  const actual = Array.from({ length: horizon }, (_, k) => value(140 + k));
+  const hwPath = fs.forecastRecursive((x) => hw.predictBatch([x])[0], horizon);
+  const tree = fitCART(X, y);
+  const treePath = fs.forecastRecursive((x) => tree.predictBatch([x])[0], horizon);
+  const mae = (p: number[]) => p.reduce((s, v, i) => s + Math.abs(v - actual[i]), 0) / p.length;
+  expect(hwPath).toHaveLength(horizon);
+  expect(mae(hwPath)).toBeLessThan(3);
+  expect(mae(hwPath)).toBeLessThan(mae(treePath));
+  expect(Math.max(...hwPath)).toBeGreaterThan(Math.max(...y));
+});
+
+test("the leaderboard backtests every family on the same rows, best first", () => {
+  const state = createJobState();
+  runJob(state, { type: "parse", name: "sales.csv", bytes: new TextEncoder().encode(csv).buffer as ArrayBuffer }, null, () => {});
+  const res = runJob(
+    state,
+    {
+      type: "leaderboard",
+      target: "sales",
+      features: DEFAULT_FEATURES,
+      families: ["cart", "ridge", "lasso", "holtwinters", "snaive"],
+      params,
+      options: DEFAULT_BACKTEST,
+    },
+    null,
+    () => {}
+  );
+  expect(res.entries.map((e) => e.family).sort()).toEqual(["cart", "holtwinters", "lasso", "ridge", "snaive"]);
+  const rmse = res.entries.map((e) => e.metrics.rmse);
+  expect(rmse).toEqual([...rmse].sort((a, b) => a - b));
+  expect(new Set(res.entries.map((e) => e.metrics.n)).size).toBe(1);
+  // on a trending series the extrapolating models beat the tree
+  const rank = (f: string) => res.entries.findIndex((e) => e.family === f);
+  expect(rank("holtwinters")).toBeLessThan(rank("cart"));
+  expect(rank("ridge")).toBeLessThan(rank("cart"));
+});
+
+test("every leaderboard entrant's latest target input is y(t-1)", () => {
+  const columns = [...df.numericCols, ...df.categoricalCols];
+  const features = { ...DEFAULT_FEATURES, rollingWindows: [3], diffs: [1], pctChanges: [1] };
+  const last = df.rows.length - 1;
+  const bump = (row: number) => ({
+    ...df,
+    rows: df.rows.map((r, i) => (i === row ? { ...r, sales: (r.sales as number) + 50 } : r)),
+  });
+  for (const family of ["cart", "ridge", "holtwinters", "snaive"]) {
+    const cfg = featuresForFamily(family, features, columns, 7);
+    const next = (d: typeof df) => buildFeatures(d, "sales", cfg).makeNextX();
+    // the feature row for y(t+1) ignores y(t) and moves with y(t-1)
+    expect(next(bump(last))).toEqual(next(df));
+    expect(next(bump(last - 1))).not.toEqual(next(df));
+  }
+});
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { DEFAULT_BACKTEST } from "../lib/backtest";
+import {
+  classDataset,
+  classMetrics,
+  DEFAULT_CLASSIFIER,
+  fitClassifier,
+  predictClassTree,
+  rocCurve,
+} from "../lib/classify";
+import { parseCSV } from "../lib/data";
+import { DEFAULT_FEATURES } from "../lib/features";
+import { createJobState, runJob } from "../lib/jobs";
+
+test("Gini and entropy trees split the classes and keep class frequencies at the leaves", () => {
+  const X = Array.from({ length: 60 }, (_, i) => [i % 3 === 0 ? NaN : i, (i * 7) % 5]);
+  const y = X.map(([v]) => (Number.isFinite(v) && v < 30 ? 0 : 1));
+  for (const criterion of ["gini", "entropy"] as const) {
+    const params = { ...DEFAULT_CLASSIFIER, criterion, maxDepth: 1, minLeaf: 2, nThresholds: 0 };
+    const m = fitClassifier("tree", X, y, 2, params);
+    const root = m.trees[0];
+    expect(root.kind).toBe("split");
+    if (root.kind !== "split") return;
+    expect(root.feature).toBe(0);
+    expect(root.threshold).toBe(29);
+    expect(predictClassTree(root, [NaN, 0])).toEqual([0, 1]);
+    expect(m.predictBatch([[5, 0], [50, 0]])).toEqual([0, 1]);
+  }
+  // a forest averages the leaf frequencies into probabilities
+  const forest = fitClassifier("forest", X, y, 2, { ...DEFAULT_CLASSIFIER, nTrees: 20 });
+  const [p] = forest.predictProba([[5, 0]]);
+  expect(p[0] + p[1]).toBeCloseTo(1, 10);
+  expect(p[0]).toBeGreaterThan(0.8);
+});
+
+test("metrics: confusion matrix, precision/recall, log loss and ROC AUC", () => {
+  const actual = [0, 0, 1, 1, 1];
+  const proba = [
+    [0.9, 0.1],
+    [0.4, 0.6],
+    [0.3, 0.7],
+    [0.2, 0.8],
+    [0.6, 0.4],
+  ];
+  const m = classMetrics(actual, proba, ["no", "yes"]);
+  expect(m.confusion).toEqual([
+    [1, 1],
+    [1, 2],
+  ]);
+  expect(m.accuracy).toBeCloseTo(0.6, 10);
+  expect(m.perClass[1].precision).toBeCloseTo(2 / 3, 10);
+  expect(m.perClass[1].recall).toBeCloseTo(2 / 3, 10);
+  expect(m.perClass[0].f1).toBeCloseTo(0.5, 10);
+  expect(m.logLoss).toBeCloseTo(-(Math.log(0.9) + Math.log(0.4) + Math.log(0.7) + Math.log(0.8) + Math.log(0.4)) / 5, 10);
+  // positives outrank negatives in 5 of 6 pairs
+  expect(m.auc).toBeCloseTo(5 / 6, 10);
+  expect(m.roc?.[m.roc.length - 1]).toEqual({ fpr: 1, tpr: 1 });
+
+  // tied scores are one step: a constant score is the diagonal
+  expect(rocCurve([0.5, 0.5, 0.5, 0.5], [true, false, true, false]).auc).toBeCloseTo(0.5, 10);
+  expect(rocCurve([0.1, 0.2], [true, true]).auc).toBeNaN();
+});
+
+// a weather-like state that follows the temperature, and temperature spikes
+const csv =
+  "date,temp,sky\n" +
+  Array.from({ length: 200 }, (_, i) => {
+    const d = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+    const temp = 70 + 15 * Math.sin((2 * Math.PI * i) / 20);
+    return `${d},${temp.toFixed(2)},${temp > 78 ? "sunny" : temp > 62 ? "cloudy" : "rain"}`;
+  }).join("\n");
+
+test("a categorical target is labelled with the class of the next row", () => {
+  const df = parseCSV(csv);
+  const d = classDataset(df, { kind: "category", column: "sky" }, DEFAULT_FEATURES);
+  expect(d.classes).toEqual(["cloudy", "rain", "sunny"]);
+  expect(d.fs.featNames).toContain("sky#class(t-1)");
+  expect(d.fs.featNames).toContain("sky=sunny(t)");
+  const i = 10;
+  expect(d.y[i]).toBe(d.classes.indexOf(String(df.rows[d.t[i] + 1].sky)));
+  expect(d.current[i]).toBe(d.classes.indexOf(String(df.rows[d.t[i]].sky)));
+});
+
+test("the classify job backtests a threshold rule and predicts the next step", () => {
+  const state = createJobState();
+  runJob(state, { type: "parse", name: "w.csv", bytes: new TextEncoder().encode(csv).buffer as ArrayBuffer }, null, () => {});
+  const res = runJob(
+    state,
+    {
+      type: "classify",
+      target: { kind: "threshold", column: "temp", op: ">", value: 80 },
+      features: DEFAULT_FEATURES,
+      family: "forest",
+      params: { ...DEFAULT_CLASSIFIER, nTrees: 20 },
+      options: DEFAULT_BACKTEST,
+    },
+    null,
+    () => {}
+  );
+  expect(res.classes).toEqual(["no", "yes"]);
+  expect(res.backtest.folds).toHaveLength(DEFAULT_BACKTEST.folds);
+  expect(res.backtest.model.n).toBe(res.backtest.oos.length);
+  expect(res.backtest.model.accuracy).toBeGreaterThan(res.backtest.persistence.accuracy);
+  expect(res.backtest.model.auc).toBeGreaterThan(0.9);
+  expect(res.next).toHaveLength(2);
+  // day 200 continues the cycle at sin(0) = 0: 70 degrees, not above 80
+  expect(res.next![1]).toBeLessThan(0.5);
+});
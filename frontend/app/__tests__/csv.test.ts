@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { CsvReader, detectEncoding, parseNumber, readCsvText, sniffCsv } from "../lib/csv";
+import { parseCSV, readCSVBytes, toDataFrame } from "../lib/data";
+
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+
+test("quoted fields keep delimiters, newlines and doubled quotes", () => {
+  const text = 'id,note\r\n1,"a, ""b""\r\nc"\r\n\r\n2,plain\n';
+  expect(readCsvText(text, ",")).toEqual([
+    ["id", "note"],
+    ["1", 'a, "b"\r\nc'],
+    ["2", "plain"],
+  ]);
+});
+
+test("records split across chunks read the same as one string", () => {
+  const text = 'a;b\r\n"x\r\n;y";2\r\n3;"4"""\r\n';
+  const whole = readCsvText(text, ";");
+  for (let cut = 1; cut < text.length; cut++) {
+    const out: string[][] = [];
+    const reader = new CsvReader(";", (r) => out.push(r));
+    reader.push(text.slice(0, cut));
+    reader.push(text.slice(cut));
+    reader.end();
+    expect(out).toEqual(whole);
+  }
+});
+
+test("sniffs semicolons with decimal commas and reads a UTF-16 file", () => {
+  const text = "\ufeffdate;sales;temp\n2024-01-01;1.234,5;-3,5\n2024-01-02;980,25;1,75\n";
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    bytes[2 * i] = text.charCodeAt(i) & 0xff;
+    bytes[2 * i + 1] = text.charCodeAt(i) >> 8;
+  }
+  const options = sniffCsv(bytes);
+  expect(options).toEqual({ encoding: "utf-16le", delimiter: ";", decimal: "," });
+
+  const df = toDataFrame(readCSVBytes(bytes.buffer, options));
+  expect(df.columns).toEqual(["date", "sales", "temp"]);
+  expect(df.numericCols).toEqual(["sales", "temp"]);
+  expect(df.rows.map((r) => r.sales)).toEqual([1234.5, 980.25]);
+  expect(df.rows[0].temp).toBe(-3.5);
+});
+
+test("detects tabs, Shift-JIS and non-UTF-8 bytes", () => {
+  const tsv = "a\tb\tc\n1\t2\t3\n4\t5\t6\n";
+  expect(sniffCsv(new Uint8Array(ascii(tsv))).delimiter).toBe("\t");
+
+  // "日付,値" in Shift-JIS
+  const sjis = new Uint8Array([0x93, 0xfa, 0x95, 0x74, 0x2c, 0x92, 0x6c, 0x0a, ...ascii("2024-01-01,1\n")]);
+  expect(detectEncoding(sjis)).toBe("shift_jis");
+  expect(readCSVBytes(sjis.buffer, sniffCsv(sjis)).columns).toEqual(["日付", "値"]);
+
+  // "café" in windows-1252 is neither valid UTF-8 nor Shift-JIS
+  expect(detectEncoding(new Uint8Array([...ascii("caf"), 0xe9, 0x0a]))).toBe("windows-1252");
+});
+
+test("numbers parse by locale, and headers are made unique", () => {
+  expect(parseNumber("1,234.5", ".")).toBe(1234.5);
+  expect(parseNumber("1.234,5", ",")).toBe(1234.5);
+  expect(parseNumber("1 234,5", ",")).toBe(1234.5);
+  expect(parseNumber("1,5", ".")).toBeNaN();
+  expect(parseNumber("-.5e3", ".")).toBe(-500);
+  for (const s of ["0x1A", "0b101", "0o17", "Infinity", "-Infinity", "1_000", "."]) {
+    expect(parseNumber(s, ".")).toBeNaN();
+  }
+
+  const df = parseCSV("x, x ,,y\n1,2,3,a\n4\n");
+  expect(df.columns).toEqual(["x", "x_2", "column_3", "y"]);
+  expect(df.rows[1]).toEqual({ x: 4, x_2: null, column_3: null, y: null });
+});
@@ -0,0 +1,35 @@
+import { downsampleRows, lttb, minMaxBuckets } from "../lib/downsample";
+
+test("LTTB keeps the ends and the extremes that shape the line", () => {
+  const values = Array.from({ length: 1000 }, (_, i) => Math.sin(i / 50));
+  values[537] = 40;
+  const idx = lttb(values, 50);
+  expect(idx).toHaveLength(50);
+  expect(idx[0]).toBe(0);
+  expect(idx[idx.length - 1]).toBe(999);
+  expect(idx).toContain(537);
+  expect([...idx].sort((a, b) => a - b)).toEqual(idx);
+
+  // missing values are skipped; short inputs come back whole
+  expect(lttb([1, null, 3, undefined, 5], 10)).toEqual([0, 2, 4]);
+  expect(lttb(values, 10, 100, 200).every((i) => i >= 100 && i < 200)).toBe(true);
+});
+
+test("downsampled rows cover every series and keep marker rows", () => {
+  const a = Array.from({ length: 5000 }, (_, i) => (i === 1234 ? 100 : 0));
+  const b = Array.from({ length: 5000 }, (_, i) => (i < 4000 ? null : i === 4321 ? -100 : 0));
+  const rows = downsampleRows([a, b], 200, 0, 5000, [42]);
+  expect(rows.length).toBeLessThanOrEqual(203);
+  expect(rows).toEqual(expect.arrayContaining([0, 42, 1234, 4321, 4999]));
+  expect(downsampleRows([a], 200, 10, 20)).toEqual([10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+});
+
+test("min/max buckets give the envelope of each slice", () => {
+  const buckets = minMaxBuckets([1, 5, null, 2, 8, 3, null, null], 4);
+  expect(buckets.slice(0, 3)).toEqual([
+    { min: 1, max: 5 },
+    { min: 2, max: 2 },
+    { min: 3, max: 8 },
+  ]);
+  expect(buckets[3].min).toBeNaN();
+});
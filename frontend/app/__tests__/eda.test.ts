@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { parseCSV } from "../lib/data";
+import {
+  acf,
+  correlation,
+  decompose,
+  detectPeriod,
+  exploreData,
+  pacf,
+  suggestLags,
+  summarizeColumns,
+} from "../lib/eda";
+import { createJobState, runJob } from "../lib/jobs";
+import { mulberry32 } from "../lib/trees";
+
+test("ACF and PACF of an AR(1) series point at lag 1", () => {
+  const rand = mulberry32(7);
+  const x = [0];
+  for (let t = 1; t < 2000; t++) x.push(0.8 * x[t - 1] + (rand() - 0.5));
+  const r = acf(x, 10);
+  const p = pacf(r);
+  expect(r[0]).toBe(1);
+  expect(p[1]).toBeCloseTo(r[1], 10);
+  expect(p[1]).toBeGreaterThan(0.75);
+  const bound = 1.96 / Math.sqrt(x.length);
+  expect(Math.abs(p[2])).toBeLessThan(2 * bound);
+  expect(suggestLags(p, bound)).toContain(1);
+});
+
+test("a weekly cycle is detected and separated from the trend", () => {
+  const weekly = [3, 1, 0, -1, -2, -1, 0];
+  const x = Array.from({ length: 140 }, (_, t) => 0.1 * t + weekly[t % 7]);
+  const bound = 1.96 / Math.sqrt(x.length);
+  expect(detectPeriod(acf(x.map((v, t) => v - 0.1 * t), 30), bound)).toBe(7);
+
+  const d = decompose(x, 7);
+  // the seasonal part repeats the (zero-mean) cycle; trend + seasonal + residual = value
+  for (let t = 14; t < 21; t++) expect(d.seasonal[t]).toBeCloseTo(weekly[t % 7], 1);
+  expect(d.seasonal.slice(0, 7).reduce((a, b) => a + b, 0)).toBeCloseTo(0, 10);
+  expect(d.trend[70] + d.seasonal[70] + d.residual[70]).toBeCloseTo(x[70], 10);
+  expect(d.seasonalStrength).toBeGreaterThan(0.9);
+  expect(d.trendStrength).toBeGreaterThan(0.9);
+});
+
+test("lagged correlation finds a leading series", () => {
+  const rand = mulberry32(3);
+  const x = Array.from({ length: 300 }, () => rand());
+  const y = x.map((_, t) => (t >= 2 ? x[t - 2] : null));
+  expect(correlation(x, y, 2)).toBeCloseTo(1, 10);
+  expect(Math.abs(correlation(x, y, 0))).toBeLessThan(0.2);
+  expect(correlation([1, 1, 1], [1, 2, 3])).toBeNaN();
+});
+
+test("column summaries and the EDA job", () => {
+  const df = parseCSV("date,sales,shop\n2024-01-01,1,a\n2024-01-02,,b\n2024-01-03,3,a\n2024-01-04,4,a\n");
+  const [date, sales, shop] = summarizeColumns(df);
+  expect(date).toMatchObject({ type: "datetime", count: 4, missing: 0, numeric: null });
+  expect(sales).toMatchObject({ count: 3, missing: 1, distinct: 3 });
+  expect(sales.numeric).toMatchObject({ min: 1, median: 3, max: 4 });
+  expect(shop.top).toEqual({ value: "a", count: 3 });
+
+  const state = createJobState();
+  const csv =
+    "date,sales,temp\n" +
+    Array.from({ length: 84 }, (_, i) => {
+      const d = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+      return `${d},${100 + [5, 2, 0, -1, -3, -2, -1][i % 7]},${20 + (i % 5)}`;
+    }).join("\n");
+  const bytes = new TextEncoder().encode(csv).buffer as ArrayBuffer;
+  runJob(state, { type: "parse", name: "shop.csv", bytes }, null, () => {});
+  const report = runJob(state, { type: "eda", target: "sales", options: { maxLag: 20, period: null } }, null, () => {});
+  expect(report).toEqual(exploreData(state.df!, "sales", { maxLag: 20, period: null }));
+  expect(report.correlation.columns).toEqual(["sales", "temp"]);
+  expect(report.acf).toHaveLength(21);
+  expect(report.period).toBe(7);
+  expect(report.decomposition?.period).toBe(7);
+  expect(report.lagged.map((l) => l.column)).toEqual(["sales", "temp"]);
+  expect(report.lagged[0].r[7]).toBeCloseTo(1, 5);
+});
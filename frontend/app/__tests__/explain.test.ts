@@ -0,0 +1,71 @@
+import { decisionPath, expectedValue, explainPrediction, treeEnsemble, treeShap } from "../lib/explain";
+import { buildCART, CartNode, cartModel, forestModel, gbmModel, mulberry32 } from "../lib/trees";
+
+const leaf = (value: number, size: number): CartNode => ({ kind: "leaf", value, size, depth: 2 });
+
+// Shapley values of v(S) = E[f(x) | x_S], the expectation following the
+// training sizes at splits on features outside S (what TreeSHAP computes)
+function bruteForceShap(root: CartNode, x: number[]): number[] {
+  const M = x.length;
+  const v = (S: number) => {
+    const walk = (n: CartNode): number => {
+      if (n.kind === "leaf") return n.value;
+      if (S & (1 << n.feature)) return walk(x[n.feature] <= n.threshold ? n.left : n.right);
+      return (n.left.size * walk(n.left) + n.right.size * walk(n.right)) / (n.left.size + n.right.size);
+    };
+    return walk(root);
+  };
+  const fact = (k: number): number => (k <= 1 ? 1 : k * fact(k - 1));
+  return x.map((_, i) => {
+    let phi = 0;
+    for (let S = 0; S < 1 << M; S++) {
+      if (S & (1 << i)) continue;
+      const s = [...Array(M).keys()].filter((j) => S & (1 << j)).length;
+      phi += ((fact(s) * fact(M - s - 1)) / fact(M)) * (v(S | (1 << i)) - v(S));
+    }
+    return phi;
+  });
+}
+
+test("decision path lists the conditions met on the way to the leaf", () => {
+  const root: CartNode = {
+    kind: "split",
+    feature: 1,
+    threshold: 5,
+    size: 10,
+    depth: 0,
+    left: leaf(1, 4),
+    right: { kind: "split", feature: 0, threshold: 0, size: 6, depth: 1, left: leaf(2, 3), right: leaf(3, 3) },
+  };
+  expect(decisionPath(root, [-1, 7])).toEqual({
+    steps: [
+      { feature: 1, threshold: 5, value: 7, left: false, size: 6 },
+      { feature: 0, threshold: 0, value: -1, left: true, size: 3 },
+    ],
+    leaf: 2,
+    size: 3,
+  });
+  expect(expectedValue(root)).toBeCloseTo((4 * 1 + 3 * 2 + 3 * 3) / 10, 12);
+});
+
+test("TreeSHAP matches brute-force Shapley values and adds up to the prediction", () => {
+  const rand = mulberry32(11);
+  const X = Array.from({ length: 300 }, () => [rand(), rand(), rand(), rand()]);
+  const y = X.map(([a, b, c]) => (a > 0.5 ? 3 : 0) + b * c * 4 + (a > 0.8 && b < 0.3 ? 2 : 0));
+  const root = buildCART(X, y, { maxDepth: 5, minLeaf: 5, nThresholds: 9, minGain: 0 });
+  for (const x of X.slice(0, 10)) {
+    const phi = new Array(4).fill(0);
+    treeShap(root, x, phi);
+    bruteForceShap(root, x).forEach((p, i) => expect(phi[i]).toBeCloseTo(p, 9));
+  }
+
+  // ensembles: the weighted sum over trees, offset included
+  const other = buildCART(X.slice(100), y.slice(100));
+  const models = [cartModel(root, 4), forestModel([root, other], 4), gbmModel(1.5, 0.3, [root, other], 4)];
+  for (const m of models) {
+    const e = explainPrediction(m, X[0])!;
+    expect(e.prediction).toBeCloseTo(m.predictBatch([X[0]])[0], 12);
+    expect(e.base + e.contributions.reduce((a, b) => a + b, 0)).toBeCloseTo(e.prediction, 9);
+  }
+  expect(treeEnsemble(gbmModel(1.5, 0.3, [root], 4))).toEqual({ trees: [root], weight: 0.3, offset: 1.5 });
+});
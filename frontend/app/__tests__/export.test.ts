@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import * as XLSX from "xlsx";
+import { formatCsv, readCsvText } from "../lib/csv";
+import { parseCSV } from "../lib/data";
+import { DEFAULT_FEATURES } from "../lib/features";
+import { reportHtml, resultsCsv, resultsTable, resultsXlsx, RunReport } from "../lib/export";
+
+const df = parseCSV("date,sales,note\n2024-01-01,10,a\n2024-01-02,12,\"b, c\"\n2024-01-03,11,\n");
+
+const table = resultsTable({
+  df,
+  target: "sales",
+  fitted: [
+    { row: 1, value: 11 },
+    { row: 2, value: 12 },
+  ],
+  backtest: [{ row: 2, value: 10 }],
+  forecast: [13, 14],
+  futureLabels: ["2024-01-04", "2024-01-05"],
+  bands: [
+    { lower: 12, upper: 14 },
+    { lower: 12.5, upper: 15.5 },
+  ],
+});
+
+test("formatCsv quotes only the fields that need it and reads back unchanged", () => {
+  const rows = [["a", 'say "hi"', "x,y", "line\nbreak", 1.5, null, NaN]];
+  const text = formatCsv(rows);
+  expect(text).toBe('a,"say ""hi""","x,y","line\nbreak",1.5,,\r\n');
+  expect(readCsvText(text, ",")).toEqual([["a", 'say "hi"', "x,y", "line\nbreak", "1.5", "", ""]]);
+});
+
+test("results hold fitted values, residuals and forecast rows after the data", () => {
+  expect(table.columns).toEqual([
+    "date",
+    "sales",
+    "note",
+    "sales_fitted",
+    "sales_residual",
+    "sales_backtest",
+    "sales_backtest_residual",
+    "sales_forecast",
+    "sales_forecast_lower",
+    "sales_forecast_upper",
+  ]);
+  expect(table.rows).toHaveLength(5);
+  expect(table.rows[1].slice(3, 7)).toEqual([11, 1, null, null]);
+  expect(table.rows[2].slice(3, 7)).toEqual([12, -1, 10, 1]);
+  expect(table.rows[4]).toEqual(["2024-01-05", null, null, null, null, null, null, 14, 12.5, 15.5]);
+
+  const csv = readCsvText(resultsCsv(table), ",");
+  expect(csv[2].slice(0, 3)).toEqual([(df.rows[1].date as Date).toISOString(), "12", "b, c"]);
+});
+
+test("the workbook has the results and the report settings", () => {
+  const report: RunReport = {
+    app: "client_side_ml",
+    generatedAt: "2024-02-01T00:00:00.000Z",
+    source: "<sales>.csv",
+    data: { rows: 3, columns: df.columns, datetimeKey: "date", preprocessing: null },
+    target: "sales",
+    features: DEFAULT_FEATURES,
+    model: null,
+    backtest: {
+      options: { folds: 2, testFraction: 0.2, minTrain: 1 },
+      folds: 2,
+      metrics: { model: { n: 1, mae: 2, rmse: 2, mape: 20, smape: 18, r2: 0.5 } },
+    },
+    forecast: null,
+  };
+  const wb = XLSX.read(resultsXlsx(table, report), { type: "array" });
+  expect(wb.SheetNames).toEqual(["Results", "Report"]);
+  const results = XLSX.utils.sheet_to_json<any[]>(wb.Sheets.Results, { header: 1 });
+  expect(results[0]).toEqual(table.columns);
+  expect(results[5].slice(7)).toEqual([14, 12.5, 15.5]);
+  const settings = XLSX.utils.sheet_to_json<any[]>(wb.Sheets.Report, { header: 1 });
+  expect(settings).toContainEqual(["backtest.metrics.model.rmse", 2]);
+
+  const html = reportHtml(report, "<svg></svg>");
+  expect(html).toContain("&lt;sales&gt;.csv");
+  expect(html).not.toContain("<sales>");
+  expect(html).toContain('<div class="chart"><svg></svg></div>');
+});
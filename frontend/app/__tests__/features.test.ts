@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs";
+import { join } from "path";
+import { DataFrame, parseCSV } from "../lib/data";
+import { buildFeatures, DEFAULT_FEATURES, FeatureConfig, inferCadenceMs, selectRows } from "../lib/features";
+import { buildCART, cartModel } from "../lib/trees";
+
+// resolves to the repo's data/ locally and to the /data mount in the test container
+const DATA_CSV = join(__dirname, "../../../data/data.csv");
+
+test("lags read earlier rows, exogenous series the current row, and y is the next row", () => {
+  const csv = "a,b\n" + Array.from({ length: 12 }, (_, i) => `${100 + i},${i * i}`).join("\n");
+  const fs = buildFeatures(parseCSV(csv), "a", { ...DEFAULT_FEATURES, lags: [1, 3], calendar: [] });
+  expect(fs.featNames).toEqual(["b(t)", "a(t-1)", "b(t-1)", "a(t-3)", "b(t-3)"]);
+  const { X, y, t } = fs.buildDataset(1);
+  expect(t[0]).toBe(3);
+  t.forEach((ti, i) => {
+    expect(X[i]).toEqual([ti * ti, 100 + ti - 1, (ti - 1) ** 2, 100 + ti - 3, (ti - 3) ** 2]);
+    expect(y[i]).toBe(100 + ti + 1);
+  });
+  // horizon h labels row t + h
+  const d3 = fs.buildDataset(3);
+  expect(d3.y[0]).toBe(100 + d3.t[0] + 3);
+  expect(d3.X.length).toBe(X.length - 2);
+});
+
+test("no feature row sees its label or anything after it", () => {
+  const df = parseCSV(readFileSync(DATA_CSV, "utf8"));
+  const cfg: FeatureConfig = {
+    ...DEFAULT_FEATURES,
+    lags: [1, 2, 7],
+    rollingWindows: [3, 7],
+    rollingStats: ["mean", "std", "max"],
+    diffs: [1],
+    pctChanges: [1],
+    derivedOnExo: true,
+  };
+  const base = buildFeatures(df, "item_a", cfg).buildDataset(1);
+  for (const k of [20, 45, df.rows.length - 1]) {
+    // change every value from row k on; rows whose label is before k must not move
+    const changed: DataFrame = {
+      ...df,
+      rows: df.rows.map((r, i) =>
+        i < k ? r : Object.fromEntries(Object.entries(r).map(([c, v]) => [c, typeof v === "number" ? v + 1000 : v]))
+      ),
+    };
+    const d = buildFeatures(changed, "item_a", cfg).buildDataset(1);
+    base.t.forEach((ti, i) => {
+      if (ti + 1 >= k) return;
+      expect(d.t[i]).toBe(ti);
+      expect(d.X[i]).toEqual(base.X[i]);
+      expect(d.y[i]).toBe(base.y[i]);
+    });
+    // the row labelled with row k still has the original inputs
+    const j = base.t.indexOf(k - 1);
+    if (j >= 0) {
+      expect(d.X[j]).toEqual(base.X[j]);
+      expect(d.y[j]).toBe(base.y[j] + 1000);
+    }
+  }
+});
+
+test("a row window keeps the samples whose target row falls inside it", () => {
+  const csv = "a\n" + Array.from({ length: 30 }, (_, i) => String(i)).join("\n");
+  const fs = buildFeatures(parseCSV(csv), "a", { ...DEFAULT_FEATURES, calendar: [] });
+  const d = selectRows(fs.buildDataset(1), { start: 10, end: 19 });
+  expect(d.y).toEqual([10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+  expect(d.t).toEqual(d.y.map((v) => v - 1));
+  expect(selectRows(fs.buildDataset(2), { start: 10, end: 19 }, 2).t).toEqual(d.y.map((v) => v - 2));
+});
+
+test("t+1..t+H forecasts: recursive rows read future dates, direct models their own horizon", () => {
+  const DAY = 24 * 3600 * 1000;
+  const weekly = [5, 3, 0, -1, -4, 2, 7];
+  const daily = (n: number) =>
+    parseCSV(
+      "date,sales\n" +
+        Array.from({ length: n }, (_, i) => {
+          const d = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+          return `${d},${weekly[i % 7]}`;
+        }).join("\n")
+    );
+  const cfg = { ...DEFAULT_FEATURES, lags: [1], calendar: ["weekday" as const] };
+  const exact = { maxDepth: 8, minLeaf: 1, nThresholds: 0, minGain: 0 };
+  const N = 60;
+  const H = 5;
+  const fs = buildFeatures(daily(N), "sales", cfg);
+  const truth = Array.from({ length: H }, (_, h) => weekly[(N + h) % 7]);
+
+  // the next dates continue the daily cadence, whatever gaps the history has
+  expect(inferCadenceMs([0, 1, null, 2, 5, 6, 7].map((d) => (d === null ? null : new Date(d * DAY))))).toBe(DAY);
+  expect(fs.futureLabels(2)).toEqual(["2024-03-01T00:00:00.000Z", "2024-03-02T00:00:00.000Z"]);
+
+  // recursive: the weekday is only known from the future dates' sin/cos, and
+  // each step's feature row is the row the longer history has there
+  const { X, y } = fs.buildDataset(1);
+  const oneStep = cartModel(buildCART(X, y, exact), X[0].length);
+  const later = buildFeatures(daily(N + H), "sales", cfg).buildDataset(1);
+  const rows: number[][] = [];
+  const recursive = fs.forecastRecursive((x) => (rows.push(x), oneStep.predictBatch([x])[0]), H);
+  expect(recursive).toEqual(truth);
+  rows.forEach((x, h) => expect(x).toEqual(later.X[later.t.indexOf(N - 1 + h)]));
+
+  // direct: one model per step, each fit on the labels h rows ahead
+  const direct = truth.map((_, i) => {
+    const d = fs.buildDataset(i + 1);
+    return cartModel(buildCART(d.X, d.y, exact), d.X[0].length).predictBatch([fs.makeNextX()])[0];
+  });
+  expect(direct).toEqual(truth);
+});
@@ -0,0 +1,15 @@
+import { permutationImportance } from "../lib/importance";
+
+test("shuffling a used feature hurts more than shuffling noise", () => {
+  const X = Array.from({ length: 200 }, (_, i) => [i % 17, (i * 7) % 13]);
+  const y = X.map(([a]) => 3 * a);
+  const model = { predictBatch: (Z: number[][]) => Z.map(([a]) => 3 * a) };
+
+  let seed = 1;
+  const rand = () => ((seed = (seed * 16807) % 2147483647) / 2147483647);
+  const { baseline, importance } = permutationImportance(model, X, y, { repeats: 2, rand });
+
+  expect(baseline).toBe(0);
+  expect(importance[0]).toBeGreaterThan(10);
+  expect(importance[1]).toBe(0);
+});
@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  buildFeatures,
+  CartNode,
+  createJobState,
+  DEFAULT_BOOST,
+  DEFAULT_CART,
+  DEFAULT_CLASSICAL,
+  DEFAULT_FEATURES,
+  DEFAULT_FOREST,
+  DEFAULT_LASSO,
+  DEFAULT_RIDGE,
+  DEFAULT_XGBOOST,
+  fitCART,
+  parseCSV,
+  predictTree,
+  runJob,
+  TrainParams,
+} from "../lib";
+
+// the sample dataset shipped with the app: daily rows in UTC+9
+const DATA_CSV = join(__dirname, "../../../data/data.csv");
+const text = readFileSync(DATA_CSV, "utf8");
+
+test("the library loads data/data.csv with typed columns and offset-aware dates", () => {
+  const df = parseCSV(text);
+  expect(df.rows).toHaveLength(90);
+  expect(df.datetimeKey).toBe("datetime");
+  expect(df.numericCols).toEqual(["item_a", "item_b", "item_c"]);
+  expect((df.rows[0].datetime as Date).toISOString()).toBe("2024-12-31T15:00:00.000Z");
+  expect(df.rows[0]).toMatchObject({ item_a: 90, item_b: 80, item_c: 67 });
+  const gaps = df.rows.slice(1).map((r, i) => +(r.datetime as Date) - +(df.rows[i].datetime as Date));
+  expect(new Set(gaps)).toEqual(new Set([86400000]));
+});
+
+// the leaf a row falls into, as the path of left/right turns
+function leafPath(node: CartNode, x: number[], path = ""): string {
+  if (node.kind === "leaf") return path;
+  return x[node.feature] <= node.threshold ? leafPath(node.left, x, path + "L") : leafPath(node.right, x, path + "R");
+}
+
+test("a tree fit on data/data.csv predicts the mean target of each leaf's training rows", () => {
+  const fs = buildFeatures(parseCSV(text), "item_a", DEFAULT_FEATURES);
+  const { X, y } = fs.buildDataset(1);
+  const model = fitCART(X, y);
+  if (model.type !== "cart") throw new Error("expected a CART model");
+  const pred = model.predictBatch(X);
+  const leaves = new Map<string, number[]>();
+  X.forEach((x, i) => {
+    const key = leafPath(model.root, x);
+    leaves.set(key, [...(leaves.get(key) ?? []), y[i]]);
+  });
+  expect(leaves.size).toBeGreaterThan(1);
+  X.forEach((x, i) => {
+    const ys = leaves.get(leafPath(model.root, x))!;
+    expect(pred[i]).toBeCloseTo(ys.reduce((a, b) => a + b, 0) / ys.length, 10);
+    expect(pred[i]).toBe(predictTree(model.root, x));
+  });
+  // a fully grown tree reproduces its training targets
+  const deep = fitCART(X, y, { maxDepth: 50, minLeaf: 1, nThresholds: 0, minGain: 0 });
+  expect(deep.predictBatch(X)).toEqual(y);
+  // the first recursive forecast step is the one-step prediction from the last row
+  const [first] = fs.forecastRecursive((x) => model.predictBatch([x])[0], 3);
+  expect(first).toBe(model.predictBatch([fs.makeNextX()])[0]);
+});
+
+test("the job runner trains the same model as the direct API", () => {
+  const params: TrainParams = {
+    cart: DEFAULT_CART,
+    forest: DEFAULT_FOREST,
+    boost: DEFAULT_BOOST,
+    xgboost: DEFAULT_XGBOOST,
+    ridge: DEFAULT_RIDGE,
+    lasso: DEFAULT_LASSO,
+    classical: DEFAULT_CLASSICAL,
+  };
+  const state = createJobState();
+  const bytes = new TextEncoder().encode(text).buffer as ArrayBuffer;
+  runJob(state, { type: "parse", name: "data.csv", bytes }, null, () => {});
+  const job = { type: "train" as const, target: "item_b", features: DEFAULT_FEATURES, family: "cart" as const };
+  const res = runJob(state, { ...job, params, directSteps: 0 }, null, () => {});
+  const { X, y } = buildFeatures(parseCSV(text), "item_b", DEFAULT_FEATURES).buildDataset(1);
+  expect(res.rows).toBe(X.length);
+  expect(res.model.predictBatch(X)).toEqual(fitCART(X, y).predictBatch(X));
+});
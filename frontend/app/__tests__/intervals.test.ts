@@ -0,0 +1,19 @@
+import { conformalIntervals, conformalQuantile } from "../lib/intervals";
+
+const residuals = Array.from({ length: 99 }, (_, i) => i + 1); // 1..99
+
+test("conformal quantile uses the finite-sample rank", () => {
+  expect(conformalQuantile(residuals, 0.8)).toBe(80);
+  expect(conformalQuantile(residuals, 0.95)).toBe(95);
+});
+
+test("too few residuals give an unbounded interval", () => {
+  expect(conformalQuantile([1, 2, 3], 0.95)).toBe(Infinity);
+  expect(conformalQuantile([], 0.8)).toBeNaN();
+});
+
+test("intervals widen with the step ahead", () => {
+  const iv = conformalIntervals([10, 10, 10, 10], residuals, 0.8);
+  expect(iv[0]).toEqual({ lower: -70, upper: 90 });
+  expect(iv[3].upper - iv[3].lower).toBeCloseTo(2 * 80 * 2);
+});
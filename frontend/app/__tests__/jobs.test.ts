@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+import { DEFAULT_BACKTEST } from "../lib/backtest";
+import { DEFAULT_CLASSICAL } from "../lib/classical";
+import { DEFAULT_FEATURES } from "../lib/features";
+import { createJobState, decodeResult, encodeResult, runJob, WorkerRequest, WorkerResponse } from "../lib/jobs";
+import { DEFAULT_LASSO, DEFAULT_RIDGE } from "../lib/linear";
+import { JobCancelled, MLClient } from "../lib/mlClient";
+import { createMLWorker } from "../lib/mlWorker";
+import { DEFAULT_BOOST, DEFAULT_CART, DEFAULT_FOREST, TrainParams } from "../lib/trees";
+import { DEFAULT_XGBOOST, XGBoostBackend } from "../lib/xgboost";
+
+jest.mock("../lib/mlWorker", () => ({ createMLWorker: jest.fn(() => null) }));
+
+const csv =
+  "date,sales,temp\n" +
+  Array.from({ length: 120 }, (_, i) => {
+    const d = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+    return `${d},${100 + 10 * Math.sin(i / 3) + (i % 7)},${20 + (i % 5)}`;
+  }).join("\n");
+const bytes = () => new TextEncoder().encode(csv).buffer as ArrayBuffer;
+
+const params: TrainParams = {
+  cart: DEFAULT_CART,
+  forest: { ...DEFAULT_FOREST, nTrees: 10 },
+  boost: DEFAULT_BOOST,
+  xgboost: DEFAULT_XGBOOST,
+  ridge: DEFAULT_RIDGE,
+  lasso: DEFAULT_LASSO,
+  classical: DEFAULT_CLASSICAL,
+};
+const req = { target: "sales", features: DEFAULT_FEATURES };
+
+test("parse then train direct models on the job state", () => {
+  const state = createJobState();
+  const df = runJob(state, { type: "parse", name: "shop.csv", bytes: bytes() }, null, () => {});
+  expect(df.numericCols).toEqual(["sales", "temp"]);
+
+  const progress: number[] = [];
+  const res = runJob(
+    state,
+    { type: "train", ...req, family: "forest", params, directSteps: 3 },
+    null,
+    (done, total) => progress.push(done / total)
+  );
+  expect(res.direct).toHaveLength(3);
+  expect(res.direct[0]).toBe(res.model);
+  expect(progress[progress.length - 1]).toBe(1);
+
+  // what the worker posts back predicts like the original
+  const back = decodeResult("train", JSON.parse(JSON.stringify(encodeResult("train", res))));
+  const x = [[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]];
+  expect(back.model.predictBatch(x)).toEqual(res.model.predictBatch(x));
+});
+
+test("train fits only the rows of its window", () => {
+  const state = createJobState();
+  runJob(state, { type: "parse", name: "shop.csv", bytes: bytes() }, null, () => {});
+  const job = { type: "train" as const, ...req, family: "cart" as const, params, directSteps: 2 };
+  const res = runJob(state, { ...job, window: { start: 40, end: 79 } }, null, () => {});
+  expect(res.rows).toBe(40);
+  expect(() => runJob(state, { ...job, window: { start: 40, end: 50 } }, null, () => {})).toThrow(
+    "not enough rows to train in the training window"
+  );
+});
+
+test("jobs need a loaded dataset", () => {
+  const state = createJobState();
+  expect(() =>
+    runJob(state, { type: "backtest", ...req, family: "cart", params, options: DEFAULT_BACKTEST }, null, () => {})
+  ).toThrow("no dataset loaded.");
+});
+
+test("the client runs jobs inline without a worker and can cancel them", async () => {
+  const ml = new MLClient();
+  const df = await ml.run({ type: "parse", name: "shop.csv", bytes: bytes() }, null);
+  const bt = await ml.run(
+    { type: "backtest", ...req, family: "cart", params, options: DEFAULT_BACKTEST },
+    df
+  );
+  expect(bt.folds).toHaveLength(DEFAULT_BACKTEST.folds);
+  expect(bt.t).toHaveLength(bt.oos.length + bt.folds[0].trainEnd);
+
+  const running = ml.run({ type: "train", ...req, family: "forest", params, directSteps: 0 }, df);
+  ml.cancel();
+  await expect(running).rejects.toBeInstanceOf(JobCancelled);
+  expect(ml.busy).toBe(false);
+});
+
+// answers every job with a fixed result
+class FakeWorker {
+  onmessage: ((e: { data: WorkerResponse }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  terminated = false;
+  postMessage(msg: WorkerRequest) {
+    if (msg.kind !== "job") return;
+    setTimeout(() => this.onmessage?.({ data: { kind: "done", id: msg.id, result: "from worker" } }), 0);
+  }
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+test("cancelling an inline job leaves an idle worker alone", async () => {
+  const worker = new FakeWorker();
+  jest.mocked(createMLWorker).mockReturnValueOnce(worker as unknown as Worker);
+  const ml = new MLClient();
+  expect(await ml.run({ type: "parse", name: "shop.csv", bytes: bytes() }, null)).toBe("from worker");
+
+  // XGBoost jobs always run inline, next to the worker left from the last job
+  const xgb = {} as XGBoostBackend;
+  const running = ml.run({ type: "parse", name: "shop.csv", bytes: bytes() }, null, { xgb });
+  ml.cancel();
+  expect(ml.busy).toBe(true);
+  await expect(running).rejects.toBeInstanceOf(JobCancelled);
+  expect(ml.busy).toBe(false);
+  expect(worker.terminated).toBe(false);
+});
+
+test("a worker that fails to construct falls back to inline runs", async () => {
+  jest.mocked(createMLWorker).mockClear();
+  jest.mocked(createMLWorker).mockImplementationOnce(() => {
+    throw new Error("SecurityError");
+  });
+  const ml = new MLClient();
+  const df = await ml.run({ type: "parse", name: "shop.csv", bytes: bytes() }, null);
+  expect(df.numericCols).toEqual(["sales", "temp"]);
+  await ml.run({ type: "parse", name: "shop.csv", bytes: bytes() }, null);
+  expect(createMLWorker).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+import { parseCSV } from "../lib/data";
+import { joinOnTime } from "../lib/join";
+
+const sales = parseCSV(
+  "date,sales,temp\n" +
+    "2024-01-01 00:00,1,5\n" +
+    "2024-01-01 01:00,2,6\n" +
+    "2024-01-01 02:00,3,7\n" +
+    ",4,8\n"
+);
+const drivers = parseCSV(
+  "time,temp,promo\n" +
+    "2024-01-01 00:02,-1,yes\n" + // 2 minutes late
+    "2024-01-01 02:00,-3,no\n"
+);
+
+test("left join keeps every row and renames clashing columns", () => {
+  const { df, matched } = joinOnTime(sales, drivers, { how: "left", toleranceMs: 0 });
+  expect(matched).toBe(1);
+  expect(df.columns).toEqual(["date", "sales", "temp", "temp_2", "promo"]);
+  expect(df.numericCols).toEqual(["sales", "temp", "temp_2"]);
+  expect(df.categoricalCols).toEqual(["promo"]);
+  expect(df.rows.map((r) => r.temp_2)).toEqual([null, null, -3, null]);
+  expect(df.schema.temp_2).toEqual({ type: "numeric" });
+});
+
+test("inner join with a tolerance matches the nearest timestamp", () => {
+  const { df, matched } = joinOnTime(sales, drivers, { how: "inner", toleranceMs: 5 * 60000 });
+  expect(matched).toBe(2);
+  expect(df.rows.map((r) => [r.sales, r.promo])).toEqual([
+    [1, "yes"],
+    [3, "no"],
+  ]);
+  expect(() => joinOnTime(sales, parseCSV("a,b\n1,2\n"), { how: "left", toleranceMs: 0 })).toThrow(
+    "datetime column"
+  );
+});
@@ -0,0 +1,30 @@
+/**
+ * @jest-environment node
+ */
+import { fitLasso, fitRidge } from "../lib/linear";
+import { restoreModel, serializeModel } from "../lib/trees";
+
+// y = 3a - 2b + 5, plus a column of noise the lasso should drop
+const X = Array.from({ length: 200 }, (_, i) => [i % 17, (i * 7) % 11, Math.sin(i * 12.9898) * 0.01]);
+const y = X.map(([a, b]) => 3 * a - 2 * b + 5);
+
+test("ridge recovers the coefficients and extrapolates past the training range", () => {
+  const m = fitRidge(X, y, { alpha: 1e-6 });
+  expect(m.coef[0]).toBeCloseTo(3, 3);
+  expect(m.coef[1]).toBeCloseTo(-2, 3);
+  expect(m.intercept).toBeCloseTo(5, 2);
+  expect(m.predictBatch([[100, 0, 0]])[0]).toBeCloseTo(305, 1);
+
+  // a larger penalty shrinks the coefficients towards zero
+  expect(Math.abs(fitRidge(X, y, { alpha: 1e4 }).coef[0])).toBeLessThan(1);
+});
+
+test("lasso zeroes irrelevant features and survives a save/load round trip", () => {
+  const m = fitLasso(X, y, { alpha: 0.05 });
+  expect(m.coef[2]).toBe(0);
+  expect(m.coef[0]).toBeGreaterThan(2.9);
+
+  const restored = restoreModel(JSON.parse(JSON.stringify(serializeModel(m))));
+  expect(restored.type).toBe("lasso");
+  expect(restored.predictBatch(X.slice(0, 5))).toEqual(m.predictBatch(X.slice(0, 5)));
+});
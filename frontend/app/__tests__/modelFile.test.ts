@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { parseCSV } from "../lib/data";
+import { buildFeatures, DEFAULT_FEATURES } from "../lib/features";
+import { checkModelFile, MODEL_FILE_FORMAT, MODEL_FILE_VERSION, ModelFile, parseModelFile } from "../lib/modelFile";
+import { DEFAULT_CART, fitCART, restoreModel, serializeModel } from "../lib/trees";
+
+const rows = (withTemp: boolean) =>
+  Array.from({ length: 60 }, (_, i) => {
+    const d = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+    return `${d},${100 + 10 * Math.sin(i / 3) + (i % 7)}` + (withTemp ? `,${20 + (i % 5)}` : "");
+  }).join("\n");
+const df = parseCSV("date,sales,temp\n" + rows(true));
+
+const fs = buildFeatures(df, "sales", DEFAULT_FEATURES);
+const { X, y } = fs.buildDataset(1);
+const model = fitCART(X, y);
+const file: ModelFile = {
+  format: MODEL_FILE_FORMAT,
+  version: MODEL_FILE_VERSION,
+  name: "sales-cart",
+  target: "sales",
+  columns: ["temp"],
+  datetimeKey: "date",
+  features: DEFAULT_FEATURES,
+  featNames: fs.featNames,
+  nFeatures: model.nFeatures,
+  model: serializeModel(model),
+  training: { family: "cart", params: DEFAULT_CART, rows: X.length, trainedAt: "2024-03-01T00:00:00Z", source: null },
+};
+const text = (f: object) => JSON.stringify(f);
+
+test("a saved model loads back and predicts the same", () => {
+  const loaded = parseModelFile(text(file));
+  expect(restoreModel(loaded.model).predictBatch(X)).toEqual(model.predictBatch(X));
+  expect(checkModelFile(loaded, df)).toEqual({ features: DEFAULT_FEATURES, problems: [] });
+  // config keys added after a file was written take their defaults
+  const { holidays, ...older } = DEFAULT_FEATURES;
+  expect(parseModelFile(text({ ...file, features: older })).features.holidays).toEqual(holidays);
+});
+
+test("other formats and newer versions are rejected", () => {
+  expect(() => parseModelFile("{")).toThrow("Not a JSON file.");
+  expect(() => parseModelFile(text({ ...file, format: "other/model" }))).toThrow("Not a model file from this app.");
+  expect(() => parseModelFile(text({ ...file, version: MODEL_FILE_VERSION + 1 }))).toThrow(
+    `Model file version ${MODEL_FILE_VERSION + 1} is newer than this app supports (${MODEL_FILE_VERSION}).`
+  );
+});
+
+test("data that can't produce the model's features is explained", () => {
+  const noTemp = parseCSV("date,sales\n" + rows(false));
+  expect(checkModelFile(file, noTemp).problems).toEqual(["Missing exogenous column(s): temp."]);
+
+  // a lag the model was not trained with, on the target and temp
+  const moreLags = { ...file, features: { ...DEFAULT_FEATURES, lags: [1, 2, 3, 7] } };
+  expect(checkModelFile(moreLags, df).problems).toEqual([
+    `The model expects ${file.nFeatures} features but this data produces ${file.nFeatures + 2}.`,
+  ]);
+
+  const renamed = { ...file, featNames: ["price(t)", ...file.featNames.slice(1)] };
+  expect(checkModelFile(renamed, df).problems[0]).toMatch(/^Feature order differs: #1 is ".+" here but "price\(t\)"/);
+});
+
+test("malformed trees are rejected", () => {
+  const leaf = { kind: "leaf", value: 1, size: 1, depth: 1 };
+  const split = { kind: "split", threshold: 0, size: 2, depth: 0, left: leaf, right: leaf };
+  const bad = [
+    { ...split, feature: file.nFeatures }, // no such feature
+    { ...split, feature: 0, right: { kind: "leaf" } }, // leaf without a value
+    { ...split, feature: 0, left: undefined },
+  ];
+  for (const root of bad) {
+    expect(() => parseModelFile(text({ ...file, model: { type: "cart", nFeatures: file.nFeatures, root } }))).toThrow(
+      "Model file has a malformed model."
+    );
+  }
+  expect(() => parseModelFile(text({ ...file, nFeatures: file.nFeatures + 1 }))).toThrow(
+    /feature names for \d+ features/
+  );
+});
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import { parseCSV } from "../lib/data";
+import { DEFAULT_PREPROCESS, preprocess } from "../lib/preprocess";
+
+const csv =
+  "date,v,kind\n" +
+  "2024-01-01 00:00,1,a\n" +
+  "2024-01-01 01:00,3,b\n" +
+  "2024-01-01 01:00,5,c\n" + // duplicate timestamp
+  ",7,d\n" + // no timestamp
+  "2024-01-01 04:00,9,e\n";
+
+test("duplicate timestamps are merged and untimed rows dropped", () => {
+  const { df, report } = preprocess(parseCSV(csv), { ...DEFAULT_PREPROCESS, duplicates: "mean" });
+  expect(df.rows.map((r) => r.v)).toEqual([1, 4, 9]);
+  expect(df.rows[1].kind).toBe("c");
+  expect(report).toMatchObject({ rowsIn: 5, rowsOut: 3, noTimestamp: 1, merged: 1, added: 0 });
+});
+
+test("resampling fills empty periods that imputation then interpolates", () => {
+  const { df, report } = preprocess(parseCSV(csv), {
+    ...DEFAULT_PREPROCESS,
+    frequency: "hour",
+    aggregation: "sum",
+    impute: "linear",
+  });
+  expect(df.rows.map((r) => (r.date as Date).getHours())).toEqual([0, 1, 2, 3, 4]);
+  expect(df.rows.map((r) => r.v)).toEqual([1, 8, 8.333333333333334, 8.666666666666666, 9]);
+  expect(report).toMatchObject({ added: 2, missing: { v: 2 }, imputed: { v: 2 } });
+});
+
+test("per-column imputation: forward fill and seasonal mean", () => {
+  const rows = Array.from({ length: 21 }, (_, i) => {
+    const d = `2024-01-${String(i + 1).padStart(2, "0")}`;
+    const gap = i === 10 || i === 20;
+    return `${d},${gap ? "" : i % 7},${gap ? "" : i}`;
+  });
+  const loaded = parseCSV("date,weekly,trend\n" + rows.join("\n"));
+  const { df, report } = preprocess(loaded, {
+    ...DEFAULT_PREPROCESS,
+    impute: "ffill",
+    imputeByColumn: { weekly: "seasonal" },
+  });
+  // daily data: season of 7, so day 10 takes the mean of days 3 and 17
+  expect(df.rows[10].weekly).toBe(3);
+  expect(df.rows[20].weekly).toBe(6);
+  expect(df.rows[10].trend).toBe(9);
+  expect(report.imputed).toEqual({ weekly: 2, trend: 2 });
+  // the loaded frame is left alone
+  expect(loaded.rows[10].weekly).toBeNull();
+});
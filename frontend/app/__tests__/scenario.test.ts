@@ -0,0 +1,38 @@
+/**
+ * @jest-environment node
+ */
+import { parseCSV } from "../lib/data";
+import { buildFeatures, DEFAULT_FEATURES } from "../lib/features";
+import { BASELINE_SCENARIO, runScenarios, scenarioFromFile } from "../lib/scenario";
+
+const df = parseCSV(
+  "date,sales,price\n" +
+    Array.from({ length: 30 }, (_, i) => {
+      const d = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+      return `${d},${50 + i},${10 + (i % 3)}`;
+    }).join("\n")
+);
+const fs = buildFeatures(df, "sales", { ...DEFAULT_FEATURES, lags: [1], calendar: [] });
+const price = fs.featNames.indexOf("price(t)");
+const lagged = fs.featNames.indexOf("price(t-1)");
+// a stand-in model that reads the price features, so the paths show what it was fed
+const predict = (x: number[]) => 100 * x[price] + x[lagged];
+
+test("scenario values reach the forecast from the step after they apply", () => {
+  const last = 10 + (29 % 3);
+  const [baseline, promo] = runScenarios(fs, predict, 4, [
+    BASELINE_SCENARIO,
+    { name: "promo", values: { price: [8, null, 12] } },
+  ]);
+  // baseline: the price is held at its last observation
+  expect(baseline.forecast).toEqual([100 * last + 11, 101 * last, 101 * last, 101 * last]);
+  expect(promo).toEqual({ name: "promo", forecast: [100 * last + 11, 800 + last, 808, 1208] });
+});
+
+test("scenarios upload from a CSV with a column per exogenous series", () => {
+  const bytes = new TextEncoder().encode("date;price;other\n2024-01-31;9;1\n2024-02-01;;2\n2024-02-02;7;3\n")
+    .buffer as ArrayBuffer;
+  const s = scenarioFromFile("upload", "plan.csv", bytes, ["price", "temp"], 2);
+  expect(s).toEqual({ name: "upload", values: { price: [9, null] } });
+  expect(() => scenarioFromFile("x", "plan.csv", bytes, ["temp"], 2)).toThrow(/exogenous series \(temp\)/);
+});
@@ -0,0 +1,49 @@
+import React, { useState } from "react";
+import { fireEvent, render, screen } from "@testing-library/react-native";
+import { ScenarioEditor } from "../components/ScenarioEditor";
+import { parseCSV } from "../lib/data";
+import { buildFeatures, DEFAULT_FEATURES, FutureValues } from "../lib/features";
+import { BASELINE_SCENARIO, runScenarios } from "../lib/scenario";
+
+const df = parseCSV(
+  "date,sales,price\n" +
+    Array.from({ length: 30 }, (_, i) => {
+      const d = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+      return `${d},${50 + i},${10 + (i % 3)}`;
+    }).join("\n")
+);
+const fs = buildFeatures(df, "sales", { ...DEFAULT_FEATURES, lags: [1], calendar: [] });
+const price = fs.featNames.indexOf("price(t)");
+const predict = (x: number[]) => 100 * x[price];
+
+test("a cell typed into the editor reaches the scenario forecast", () => {
+  let latest: FutureValues = {};
+  function Editor() {
+    const [values, setValues] = useState<FutureValues>({});
+    latest = values;
+    return (
+      <ScenarioEditor
+        values={values}
+        series={["price"]}
+        labels={fs.futureLabels(2)}
+        lastObserved={() => 12}
+        onChange={setValues}
+      />
+    );
+  }
+  render(<Editor />);
+
+  // every blank cell shows the last observed price it carries over
+  const [step1, step2] = screen.getAllByPlaceholderText("12");
+  fireEvent.changeText(step1, "8");
+  fireEvent(step1, "blur");
+  expect(latest).toEqual({ price: [8] });
+  fireEvent.changeText(step2, "9,5");
+  fireEvent(step2, "submitEditing");
+  expect(latest).toEqual({ price: [8, 9.5] });
+  expect(screen.getByDisplayValue("9.5")).toBeTruthy();
+
+  const [baseline, edited] = runScenarios(fs, predict, 3, [BASELINE_SCENARIO, { name: "edited", values: latest }]);
+  expect(baseline.forecast).toEqual([1200, 1200, 1200]);
+  expect(edited.forecast).toEqual([1200, 800, 950]);
+});
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+import { parseCSV } from "../lib/data";
+import { buildFeatures, DEFAULT_FEATURES, encodeCategoricals } from "../lib/features";
+import { inferColumn, parseDatetime } from "../lib/schema";
+
+test("columns are typed strictly, whatever their names", () => {
+  const df = parseCSV(
+    "id,when,sales,mixed,empty\n" +
+      "A-12,2024-01-02,-3.5,1,\n" +
+      "B-7,2024-01-03,4,x,NA\n" +
+      "A-12,2024-01-04,5.25,2,\n"
+  );
+  expect(df.schema).toEqual({
+    id: { type: "categorical" },
+    when: { type: "datetime", format: "iso" },
+    sales: { type: "numeric" },
+    mixed: { type: "categorical" },
+    empty: { type: "ignore" },
+  });
+  expect(df.datetimeKey).toBe("when");
+  expect(df.numericCols).toEqual(["sales"]);
+  expect(df.categoricalCols).toEqual(["id", "mixed"]);
+  expect(df.columns).not.toContain("empty");
+  expect(df.rows[0]).toMatchObject({ id: "A-12", sales: -3.5, mixed: "1" });
+
+  // JavaScript number literals are not numbers here: hex-style IDs stay labels
+  expect(inferColumn(["0x1A", "0x2B", "0b101"], ".")).toEqual({ type: "categorical" });
+  expect(inferColumn(["1", "Infinity"], ".")).toEqual({ type: "categorical" });
+  expect(inferColumn(["1e3", "+2.", ".5"], ".")).toEqual({ type: "numeric" });
+});
+
+test("set types override inference and bad values become missing", () => {
+  const df = parseCSV("d,v\n03/04/2024,1\n13/04/2024,x\n", undefined, {
+    d: { type: "datetime", format: "DD/MM/YYYY", timezone: "UTC" },
+    v: { type: "numeric" },
+  });
+  expect((df.rows[0].d as Date).toISOString()).toBe("2024-04-03T00:00:00.000Z");
+  expect(df.rows.map((r) => r.v)).toEqual([1, null]);
+  expect(inferColumn(["03/04/2024", "13/04/2024"], ".")).toEqual({ type: "datetime", format: "DD/MM/YYYY" });
+});
+
+test("datetimes honour formats, timezones and calendar validity", () => {
+  expect(parseDatetime("2024-02-30", "iso")).toBeNull();
+  expect(parseDatetime("2024-01-02 03:04", "iso", "+09:00")!.toISOString()).toBe("2024-01-01T18:04:00.000Z");
+  // a zone in the value wins
+  expect(parseDatetime("2024-01-02T03:04:05.5Z", "iso", "+09:00")!.toISOString()).toBe("2024-01-02T03:04:05.500Z");
+  expect(parseDatetime("1700000000", "unix_s")!.getTime()).toBe(1.7e12);
+  expect(parseDatetime("20240102", "YYYYMMDD", "UTC")!.toISOString()).toBe("2024-01-02T00:00:00.000Z");
+  expect(parseDatetime("A-12", "iso")).toBeNull();
+});
+
+test("categoricals become one-hot or leak-free target-mean features", () => {
+  const rows = Array.from({ length: 40 }, (_, i) => `${i % 2 ? "hi" : "lo"},${i % 2 ? 10 : 0}`);
+  const df = parseCSV("kind,y\n" + rows.join("\n"));
+
+  const onehot = buildFeatures(df, "y", { ...DEFAULT_FEATURES, calendar: [] });
+  expect(onehot.featNames).toEqual(["kind=hi(t)", "kind=lo(t)", "y(t-1)", "y(t-2)", "y(t-3)"]);
+
+  const te = encodeCategoricals(df, "y", ["kind"], "target").get("kind_te")!;
+  expect(te[0]).toBeNaN(); // no earlier target yet
+  expect(te[1]).toBeCloseTo(0); // only "lo" seen: prior 0, no "hi" rows
+  // later rows approach their level's mean, using earlier rows only
+  expect(te[39]).toBeGreaterThan(7);
+  expect(te[38]).toBeLessThan(3);
+});
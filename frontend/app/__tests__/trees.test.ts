@@ -0,0 +1,88 @@
+import {
+  buildCART,
+  CartNode,
+  DEFAULT_BOOST,
+  DEFAULT_FOREST,
+  fitBoosting,
+  fitForest,
+  growTree,
+  mulberry32,
+  predictTree,
+  presort,
+  restoreModel,
+  serializeModel,
+} from "../lib/trees";
+
+const strip = (n: CartNode): unknown =>
+  n.kind === "leaf"
+    ? { value: n.value, size: n.size }
+    : { f: n.feature, thr: n.threshold, l: strip(n.left), r: strip(n.right) };
+
+test("exact search finds the step and non-finite values go right", () => {
+  const X = Array.from({ length: 40 }, (_, i) => [i === 3 ? NaN : i]);
+  const y = X.map(([v]) => (v <= 24 ? 0 : 10));
+  y[3] = 10;
+  const root = buildCART(X, y, { maxDepth: 1, minLeaf: 2, nThresholds: 0, minGain: 0 });
+  expect(root.kind).toBe("split");
+  if (root.kind !== "split") return;
+  expect(root.threshold).toBe(24);
+  expect(root.left.size).toBe(24);
+  expect(predictTree(root, [NaN])).toBe(10);
+});
+
+test("a repeated-row sample grows the same tree as the materialised rows", () => {
+  const X = Array.from({ length: 60 }, (_, i) => [(i * 7) % 11, i % 5]);
+  const y = X.map(([a, b]) => a * 2 + b);
+  const rows = Int32Array.from([0, 0, 5, 9, 9, 9, 12, ...Array.from({ length: 40 }, (_, i) => i + 15)]);
+  const target = Float64Array.from(rows, (r) => y[r]);
+  const params = { maxDepth: 4, minLeaf: 2, nThresholds: 9, minGain: 1e-12 };
+
+  const sampled = growTree(presort(X), rows, target, params);
+  const materialised = buildCART(
+    Array.from(rows, (r) => X[r]),
+    Array.from(target),
+    params
+  );
+  expect(strip(sampled)).toEqual(strip(materialised));
+});
+
+test("forests report progress per tree and survive serialization", () => {
+  const X = Array.from({ length: 80 }, (_, i) => [i, Math.sin(i)]);
+  const y = X.map(([a, b]) => a + 5 * b);
+  const progress: number[] = [];
+  const m = fitForest(X, y, { ...DEFAULT_FOREST, nTrees: 5 }, 1, (done) => progress.push(done));
+  expect(progress).toEqual([1, 2, 3, 4, 5]);
+  expect(restoreModel(serializeModel(m)).predictBatch(X)).toEqual(m.predictBatch(X));
+});
+
+test("forests and boosting fit a nonlinear signal and predict unseen rows", () => {
+  const rand = mulberry32(5);
+  const sample = (n: number) => Array.from({ length: n }, () => [rand() * 4, rand() * 4, rand()]);
+  const f = ([a, b]: number[]) => Math.sin(a) * 3 + (b > 2 ? 2 : 0);
+  const X = sample(400);
+  const y = X.map(f);
+  const test = sample(100);
+  const truth = test.map(f);
+  const mean = y.reduce((a, b) => a + b, 0) / y.length;
+  const mse = (p: number[]) => p.reduce((a, v, i) => a + (v - truth[i]) ** 2, 0) / p.length;
+  const baseline = mse(truth.map(() => mean));
+
+  const forest = fitForest(X, y, { ...DEFAULT_FOREST, nTrees: 30 });
+  const gbm = fitBoosting(X, y, DEFAULT_BOOST);
+  for (const m of [forest, gbm]) {
+    expect(m.nFeatures).toBe(3);
+    expect(mse(m.predictBatch(test))).toBeLessThan(0.1 * baseline);
+    expect(restoreModel(serializeModel(m)).predictBatch(test)).toEqual(m.predictBatch(test));
+  }
+  expect(forest.type).toBe("forest");
+  expect(gbm.type).toBe("gbm");
+
+  // seeded: the same data and params give the same ensembles
+  expect(fitForest(X, y, { ...DEFAULT_FOREST, nTrees: 30 }).predictBatch(test)).toEqual(forest.predictBatch(test));
+  // more rounds keep lowering the training error
+  const trainError = (rounds: number) => {
+    const p = fitBoosting(X, y, { ...DEFAULT_BOOST, rounds, earlyStopping: 0 }).predictBatch(X);
+    return p.reduce((a, v, i) => a + (v - y[i]) ** 2, 0);
+  };
+  expect(trainError(50)).toBeLessThan(trainError(5));
+});
@@ -0,0 +1,26 @@
+import { gridCandidates, randomCandidates, tune } from "../lib/tuning";
+
+const space = { depth: [1, 2, 3], leaf: [4, 8] };
+
+test("grid covers every combination", () => {
+  const grid = gridCandidates(space);
+  expect(grid).toHaveLength(6);
+  expect(grid).toContainEqual({ depth: 3, leaf: 8 });
+});
+
+test("random search draws distinct candidates and caps at the grid size", () => {
+  const some = randomCandidates(space, 4);
+  expect(new Set(some.map((p) => JSON.stringify(p))).size).toBe(4);
+  expect(randomCandidates(space, 100)).toHaveLength(6);
+});
+
+test("tune picks the lowest finite score", () => {
+  const res = tune(gridCandidates(space), (p) => (p.depth === 1 ? NaN : Math.abs(p.depth - 2) + p.leaf));
+  expect(res?.best).toEqual({ depth: 2, leaf: 4 });
+  expect(res?.bestScore).toBe(4);
+  expect(res?.trials[0].params).toEqual(res?.best);
+});
+
+test("tune returns null when nothing could be scored", () => {
+  expect(tune(gridCandidates(space), () => NaN)).toBeNull();
+});
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs";
+import { join } from "path";
+import { instantiateXGBoost, XGBoostBackend } from "../lib/xgboost";
+
+const WASM = join(__dirname, "..", "public", "vendor", "xgboost", "lib", "xgboost.wasm");
+
+function makeData(n: number) {
+  const X: number[][] = [];
+  const y: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const a = (i * 37) % 101 / 101;
+    const b = (i * 53) % 89 / 89;
+    X.push([a, b, -1]); // constant -1 column must not be read as "missing"
+    y.push(50 + 10 * a + (b > 0.5 ? 5 : 0));
+  }
+  return { X, y };
+}
+
+let xgb: XGBoostBackend;
+
+beforeAll(async () => {
+  xgb = await instantiateXGBoost(readFileSync(WASM));
+});
+
+test("trains and predicts through the Model contract", () => {
+  const { X, y } = makeData(300);
+  const model = xgb.train(X, y, { rounds: 80 });
+  expect(model.type).toBe("xgboost");
+  expect(model.nFeatures).toBe(3);
+
+  const pred = model.predictBatch(X);
+  expect(pred).toHaveLength(X.length);
+  const mae = pred.reduce((s, p, i) => s + Math.abs(p - y[i]), 0) / y.length;
+  expect(mae).toBeLessThan(1);
+  model.dispose();
+});
+
+test("disposed models refuse to predict", () => {
+  const { X, y } = makeData(50);
+  const model = xgb.train(X, y, { rounds: 5 });
+  model.dispose();
+  expect(() => model.predictBatch(X)).toThrow(/disposed/);
+});
+
+test("rejects empty or mismatched inputs", () => {
+  expect(() => xgb.train([], [])).toThrow();
+  expect(() => xgb.train([[1, 2]], [1, 2])).toThrow();
+});
+
+test("fails to instantiate from bytes that are not wasm", async () => {
+  await expect(instantiateXGBoost(new Uint8Array([1, 2, 3]))).rejects.toThrow();
+});
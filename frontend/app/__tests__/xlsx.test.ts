@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import * as XLSX from "xlsx";
+import { readXLSX, toDataFrame } from "../lib/data";
+import { excelSerialToDate } from "../lib/schema";
+
+function workbook(sheets: Record<string, XLSX.WorkSheet>): ArrayBuffer {
+  const wb = XLSX.utils.book_new();
+  for (const [name, ws] of Object.entries(sheets)) XLSX.utils.book_append_sheet(wb, ws, name);
+  return XLSX.write(wb, { type: "array", bookType: "xlsx" });
+}
+
+// report sheet: a merged title, a blank line, then the table with a merged region column
+function report(): XLSX.WorkSheet {
+  const ws = XLSX.utils.aoa_to_sheet([
+    ["Monthly sales report", null, null],
+    [],
+    ["date", "region", "sales"],
+    [45292, "North", 10],
+    [45293, null, 12],
+    [45294, "South", 7],
+  ]);
+  ws["!merges"] = [
+    { s: { r: 0, c: 0 }, e: { r: 0, c: 2 } },
+    { s: { r: 3, c: 1 }, e: { r: 4, c: 1 } },
+  ];
+  for (const addr of ["A4", "A5", "A6"]) ws[addr].z = "yyyy-mm-dd";
+  return ws;
+}
+
+test("finds the header below a title and fills merged cells", () => {
+  const buf = workbook({ Report: report(), Drivers: XLSX.utils.aoa_to_sheet([["date", "temp"], [45292, 3]]) });
+  const table = readXLSX(buf);
+  expect(table.source).toEqual({ sheets: ["Report", "Drivers"], sheet: "Report", headerRow: 3 });
+  expect(table.columns).toEqual(["date", "region", "sales"]);
+  expect(table.rows.map((r) => r[1])).toEqual(["North", "North", "South"]);
+
+  const df = toDataFrame(table);
+  expect(df.datetimeKey).toBe("date");
+  const d = df.rows[0].date as Date;
+  expect([d.getFullYear(), d.getMonth(), d.getDate(), d.getHours()]).toEqual([2024, 0, 1, 0]);
+
+  expect(readXLSX(buf, { sheet: "Drivers" }).columns).toEqual(["date", "temp"]);
+  expect(readXLSX(buf, { headerRow: 1 }).columns[0]).toBe("Monthly sales report");
+});
+
+test("serial dates in both date systems", () => {
+  const at = (d: Date | null) => d && [d.getFullYear(), d.getMonth() + 1, d.getDate(), d.getHours(), d.getMinutes()];
+  expect(at(excelSerialToDate(1))).toEqual([1900, 1, 1, 0, 0]);
+  expect(at(excelSerialToDate(61))).toEqual([1900, 3, 1, 0, 0]);
+  expect(at(excelSerialToDate(45292.75))).toEqual([2024, 1, 1, 18, 0]);
+  expect(at(excelSerialToDate(0, true))).toEqual([1904, 1, 1, 0, 0]);
+  expect(excelSerialToDate(45292, false, "UTC")!.toISOString()).toBe("2024-01-01T00:00:00.000Z");
+});
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { View } from "react-native";
+import { minMaxBuckets } from "../lib/downsample";
+import { formatNum } from "./format";
+
+// The chart for very long series (web only): every row of [from, to] is drawn,
+// as the min/max envelope of each pixel column. No tooltip or legend.
+const PAD = { left: 56, right: 20, top: 10, bottom: 24 };
+
+export function CanvasChart({
+  data,
+  from,
+  to,
+  lines,
+  shading,
+  onRowDown,
+  onRowMove,
+  onMouseUp,
+  onMouseLeave,
+}: {
+  data: any[];
+  from: number;
+  to: number;
+  lines: { key: string; color: string; dashed: boolean }[];
+  shading: { from: number; to: number; color: string }[];
+  onRowDown: (row: number) => void;
+  onRowMove: (row: number) => void;
+  onMouseUp: () => void;
+  onMouseLeave: () => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const plotW = Math.max(1, size.width - PAD.left - PAD.right);
+  const plotH = Math.max(1, size.height - PAD.top - PAD.bottom);
+  const columns = Math.max(1, Math.min(Math.floor(plotW), to - from + 1));
+
+  const envelopes = useMemo(
+    () => lines.map((l) => minMaxBuckets(data.map((o) => o[l.key]), columns, from, to + 1)),
+    [data, lines, columns, from, to]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !size.width || !size.height) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * dpr);
+    canvas.height = Math.round(size.height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (const env of envelopes) {
+      for (const b of env) {
+        if (b.min < lo) lo = b.min;
+        if (b.max > hi) hi = b.max;
+      }
+    }
+    if (!(hi >= lo)) return;
+    if (hi === lo) {
+      lo -= 1;
+      hi += 1;
+    }
+    const y = (v: number) => PAD.top + ((hi - v) / (hi - lo)) * plotH;
+    const x = (row: number) => PAD.left + ((row - from) / Math.max(1, to - from)) * plotW;
+
+    for (const s of shading) {
+      ctx.fillStyle = s.color;
+      const x1 = x(Math.min(s.from, s.to));
+      ctx.fillRect(x1, PAD.top, Math.max(1, x(Math.max(s.from, s.to)) - x1), plotH);
+    }
+
+    ctx.lineWidth = 1.5;
+    lines.forEach((l, k) => {
+      ctx.strokeStyle = l.color;
+      ctx.setLineDash(l.dashed ? [6, 4] : []);
+      ctx.beginPath();
+      let open = false;
+      envelopes[k].forEach((b, c) => {
+        if (!Number.isFinite(b.min)) {
+          open = false;
+          return;
+        }
+        const px = PAD.left + ((c + 0.5) * plotW) / columns;
+        if (open) ctx.lineTo(px, y(b.min));
+        else ctx.moveTo(px, y(b.min));
+        ctx.lineTo(px, y(b.max));
+        open = true;
+      });
+      ctx.stroke();
+    });
+
+    ctx.setLineDash([]);
+    ctx.fillStyle = "#9aa0a6";
+    ctx.font = "11px sans-serif";
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    for (const v of [lo, (lo + hi) / 2, hi]) ctx.fillText(formatNum(v), PAD.left - 6, y(v));
+    ctx.textBaseline = "top";
+    ctx.textAlign = "left";
+    ctx.fillText(String(data[from]?._x ?? ""), PAD.left, PAD.top + plotH + 6);
+    ctx.textAlign = "right";
+    ctx.fillText(String(data[to]?._x ?? ""), PAD.left + plotW, PAD.top + plotH + 6);
+  }, [envelopes, lines, shading, data, from, to, size, plotW, plotH, columns]);
+
+  const rowAt = (e: { clientX: number }) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return from;
+    const t = Math.min(1, Math.max(0, (e.clientX - rect.left - PAD.left) / plotW));
+    return from + Math.round(t * (to - from));
+  };
+
+  return (
+    <View
+      style={{ flex: 1 }}
+      onLayout={(e) => setSize({ width: e.nativeEvent.layout.width, height: e.nativeEvent.layout.height })}
+    >
+      <canvas
+        ref={canvasRef}
+        style={{ width: "100%", height: "100%", display: "block" }}
+        onMouseDown={(e) => onRowDown(rowAt(e))}
+        onMouseMove={(e) => onRowMove(rowAt(e))}
+        onMouseUp={onMouseUp}
+        onMouseLeave={onMouseLeave}
+      />
+    </View>
+  );
+}
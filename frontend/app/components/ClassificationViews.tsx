@@ -0,0 +1,119 @@
+// Classifier results: metrics per model, the confusion matrix and the ROC curve.
+
+import React from "react";
+import { ScrollView, Text, View } from "react-native";
+import type { ClassMetrics, RocPoint } from "../lib/classify";
+import { CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "./recharts";
+
+// one row per classifier, scored on the same out-of-sample rows
+export function ClassMetricsTable({ rows }: { rows: { label: string; m: ClassMetrics }[] }) {
+  const cols: [keyof ClassMetrics, string, (v: number) => string][] = [
+    ["accuracy", "accuracy", (v) => `${(100 * v).toFixed(1)}%`],
+    ["macroF1", "macro F1", (v) => v.toFixed(3)],
+    ["logLoss", "log loss", (v) => v.toFixed(3)],
+    ["auc", "ROC AUC", (v) => v.toFixed(3)],
+  ];
+  const cell = { width: 90, color: "#e8eaed", textAlign: "right" as const };
+  return (
+    <View style={{ backgroundColor: "#111316", borderRadius: 10, padding: 10, gap: 4 }}>
+      <View style={{ flexDirection: "row" }}>
+        <Text style={{ flex: 1, color: "#9aa0a6" }} />
+        {cols.map(([, h]) => (
+          <Text key={h} style={{ ...cell, color: "#9aa0a6" }}>
+            {h}
+          </Text>
+        ))}
+      </View>
+      {rows.map(({ label, m }) => (
+        <View key={label} style={{ flexDirection: "row" }}>
+          <Text style={{ flex: 1, color: "#e8eaed" }}>{label}</Text>
+          {cols.map(([k, , fmt]) => {
+            const v = m[k] as number;
+            return (
+              <Text key={k} style={cell}>
+                {Number.isFinite(v) ? fmt(v) : "–"}
+              </Text>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+// confusion matrix (rows: actual, columns: predicted) with per-class precision and recall
+export function ConfusionTable({ m }: { m: ClassMetrics }) {
+  const cell = { width: 80, color: "#e8eaed", textAlign: "right" as const };
+  const pct = (v: number) => (Number.isFinite(v) ? `${(100 * v).toFixed(1)}%` : "–");
+  return (
+    <ScrollView horizontal style={{ backgroundColor: "#111316", borderRadius: 10 }}>
+      <View style={{ padding: 10, gap: 4 }}>
+        <View style={{ flexDirection: "row" }}>
+          <Text style={{ width: 140, color: "#9aa0a6" }}>actual \ predicted</Text>
+          {m.perClass.map((c) => (
+            <Text key={c.label} style={{ ...cell, color: "#9aa0a6" }} numberOfLines={1}>
+              {c.label}
+            </Text>
+          ))}
+          {["precision", "recall", "F1", "support"].map((h) => (
+            <Text key={h} style={{ ...cell, color: "#9aa0a6" }}>
+              {h}
+            </Text>
+          ))}
+        </View>
+        {m.perClass.map((c, i) => (
+          <View key={c.label} style={{ flexDirection: "row" }}>
+            <Text style={{ width: 140, color: "#e8eaed" }} numberOfLines={1}>
+              {c.label}
+            </Text>
+            {m.confusion[i].map((n, j) => (
+              <Text key={j} style={{ ...cell, color: i === j ? "#34a853" : "#e8eaed" }}>
+                {n}
+              </Text>
+            ))}
+            <Text style={cell}>{pct(c.precision)}</Text>
+            <Text style={cell}>{pct(c.recall)}</Text>
+            <Text style={cell}>{Number.isFinite(c.f1) ? c.f1.toFixed(3) : "–"}</Text>
+            <Text style={cell}>{c.support}</Text>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+// ROC curve of a binary classifier against the chance diagonal (web only)
+export function RocChart({ points }: { points: RocPoint[] }) {
+  const data = points.map((p) => ({ ...p, chance: p.fpr }));
+  return (
+    <View
+      style={{ width: "100%", maxWidth: 420, height: 300, backgroundColor: "#111316", borderRadius: 10, padding: 8 }}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+          <CartesianGrid stroke="#2b2f36" strokeDasharray="3 3" />
+          <XAxis dataKey="fpr" type="number" domain={[0, 1]} stroke="#9aa0a6" name="false positive rate" />
+          <YAxis domain={[0, 1]} stroke="#9aa0a6" />
+          <Tooltip />
+          <Legend />
+          <Line
+            dataKey="tpr"
+            name="true positive rate"
+            stroke="#34a853"
+            dot={false}
+            strokeWidth={2}
+            isAnimationActive={false}
+          />
+          <Line
+            dataKey="chance"
+            name="chance"
+            stroke="#5f6368"
+            strokeDasharray="4 4"
+            dot={false}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </View>
+  );
+}
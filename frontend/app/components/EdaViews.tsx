@@ -0,0 +1,196 @@
+// The exploration panel's views of an EDA report (lib/eda.ts): column
+// summaries, correlation heatmaps, correlograms and the decomposition.
+
+import React, { useMemo } from "react";
+import { ScrollView, Text, View } from "react-native";
+import { downsampleRows } from "../lib/downsample";
+import type { ColumnSummary, Decomposition } from "../lib/eda";
+import { formatNum } from "./format";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "./recharts";
+
+// per-column statistics from the EDA report; numeric columns get the
+// distribution, categorical ones their most frequent level
+export function ColumnSummaryTable({ summaries }: { summaries: ColumnSummary[] }) {
+  const cell = { width: 84, color: "#e8eaed", textAlign: "right" as const };
+  const head = { ...cell, color: "#9aa0a6" };
+  const num = (v: number | undefined) => (v === undefined ? "" : formatNum(v));
+  return (
+    <ScrollView horizontal style={{ backgroundColor: "#111316", borderRadius: 10 }}>
+      <View style={{ padding: 10, gap: 4 }}>
+        <View style={{ flexDirection: "row" }}>
+          <Text style={{ width: 140, color: "#9aa0a6" }}>column</Text>
+          <Text style={{ ...head, width: 90, textAlign: "left" }}>type</Text>
+          {["count", "missing", "distinct", "mean", "sd", "min", "q1", "median", "q3", "max"].map((h) => (
+            <Text key={h} style={head}>
+              {h}
+            </Text>
+          ))}
+          <Text style={{ ...head, width: 160, textAlign: "left", paddingLeft: 12 }}>most frequent</Text>
+        </View>
+        {summaries.map((c) => (
+          <View key={c.column} style={{ flexDirection: "row" }}>
+            <Text style={{ width: 140, color: "#e8eaed" }} numberOfLines={1}>
+              {c.column}
+            </Text>
+            <Text style={{ ...cell, width: 90, textAlign: "left", color: "#9aa0a6" }}>{c.type}</Text>
+            <Text style={cell}>{c.count}</Text>
+            <Text style={{ ...cell, color: c.missing ? "#f28b82" : "#e8eaed" }}>{c.missing}</Text>
+            <Text style={cell}>{c.distinct}</Text>
+            <Text style={cell}>{num(c.numeric?.mean)}</Text>
+            <Text style={cell}>{num(c.numeric?.sd)}</Text>
+            <Text style={cell}>{num(c.numeric?.min)}</Text>
+            <Text style={cell}>{num(c.numeric?.q1)}</Text>
+            <Text style={cell}>{num(c.numeric?.median)}</Text>
+            <Text style={cell}>{num(c.numeric?.q3)}</Text>
+            <Text style={cell}>{num(c.numeric?.max)}</Text>
+            <Text style={{ ...cell, width: 160, textAlign: "left", paddingLeft: 12 }} numberOfLines={1}>
+              {c.top ? `${c.top.value} (${c.top.count})` : ""}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+// r in [-1, 1] as a red (positive) / blue (negative) cell; blank where undefined
+export function CorrelationHeatmap({ rows, columns, r }: { rows: string[]; columns: string[]; r: number[][] }) {
+  const size = { width: 52, height: 26, alignItems: "center" as const, justifyContent: "center" as const };
+  const fill = (v: number) =>
+    !Number.isFinite(v) ? "transparent" : v >= 0 ? `rgba(234, 67, 53, ${v})` : `rgba(66, 133, 244, ${-v})`;
+  return (
+    <ScrollView horizontal style={{ backgroundColor: "#111316", borderRadius: 10 }}>
+      <View style={{ padding: 10, gap: 2 }}>
+        <View style={{ flexDirection: "row", gap: 2 }}>
+          <View style={{ width: 140 }} />
+          {columns.map((c) => (
+            <View key={c} style={size}>
+              <Text style={{ color: "#9aa0a6", fontSize: 11 }} numberOfLines={1}>
+                {c}
+              </Text>
+            </View>
+          ))}
+        </View>
+        {rows.map((name, i) => (
+          <View key={name} style={{ flexDirection: "row", gap: 2 }}>
+            <Text style={{ width: 140, color: "#e8eaed" }} numberOfLines={1}>
+              {name}
+            </Text>
+            {columns.map((c, j) => {
+              const v = r[i]?.[j] ?? NaN;
+              return (
+                <View key={c} style={{ ...size, backgroundColor: fill(v), borderRadius: 3 }}>
+                  <Text style={{ color: Math.abs(v) > 0.6 ? "#000" : "#e8eaed", fontSize: 11 }}>
+                    {Number.isFinite(v) ? v.toFixed(2) : ""}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+// ACF or PACF by lag (from 1) against the ±bound of white noise (web only)
+export function CorrelogramChart({ title, values, bound }: { title: string; values: number[]; bound: number }) {
+  const data = values.slice(1).map((v, k) => ({ lag: k + 1, [title]: v }));
+  return (
+    <View
+      style={{ width: "100%", maxWidth: 460, height: 220, backgroundColor: "#111316", borderRadius: 10, padding: 8 }}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+          <CartesianGrid stroke="#2b2f36" strokeDasharray="3 3" />
+          <XAxis dataKey="lag" stroke="#9aa0a6" />
+          <YAxis domain={[-1, 1]} stroke="#9aa0a6" />
+          <Tooltip formatter={(v: number) => v.toFixed(3)} />
+          <Legend />
+          <ReferenceLine y={0} stroke="#5f6368" />
+          <ReferenceLine y={bound} stroke="#9aa0a6" strokeDasharray="4 4" />
+          <ReferenceLine y={-bound} stroke="#9aa0a6" strokeDasharray="4 4" />
+          <Bar dataKey={title} fill="#12b5cb" isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </View>
+  );
+}
+
+const DECOMPOSITION_PARTS: { key: "trend" | "seasonal" | "residual"; color: string }[] = [
+  { key: "trend", color: "#8ab4f8" },
+  { key: "seasonal", color: "#34a853" },
+  { key: "residual", color: "#9aa0a6" },
+];
+
+// trend / seasonal / residual, one small chart each on a shared time axis,
+// downsampled to at most `maxPoints` like the main chart (web only)
+export function DecompositionCharts({
+  decomposition,
+  labelOf,
+  maxPoints,
+}: {
+  decomposition: Decomposition;
+  labelOf: (row: number) => string;
+  maxPoints: number;
+}) {
+  const d = decomposition;
+  const data = useMemo(
+    () =>
+      downsampleRows([d.trend, d.seasonal, d.residual], maxPoints, 0, d.trend.length).map((i) => ({
+        _i: i,
+        trend: d.trend[i],
+        seasonal: d.seasonal[i],
+        residual: d.residual[i],
+      })),
+    [d, maxPoints]
+  );
+  return (
+    <View style={{ gap: 4 }}>
+      <Text style={{ color: "#9aa0a6" }}>
+        Decomposition{d.period > 1 ? ` (season ${d.period})` : " (no season)"}: trend strength{" "}
+        {d.trendStrength.toFixed(2)}, seasonal strength {d.seasonalStrength.toFixed(2)}
+      </Text>
+      {DECOMPOSITION_PARTS.map((p) => (
+        <View
+          key={p.key}
+          style={{ width: "100%", height: 130, backgroundColor: "#111316", borderRadius: 10, padding: 6 }}
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data} margin={{ top: 6, right: 20, left: 0, bottom: 0 }} syncId="decomposition">
+              <CartesianGrid stroke="#2b2f36" strokeDasharray="3 3" />
+              <XAxis
+                dataKey="_i"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={labelOf}
+                stroke="#9aa0a6"
+                hide={p.key !== "residual"}
+              />
+              <YAxis stroke="#9aa0a6" />
+              <Tooltip labelFormatter={labelOf} formatter={(v: number) => formatNum(v)} />
+              <Line
+                dataKey={p.key}
+                stroke={p.color}
+                dot={false}
+                strokeWidth={p.key === "residual" ? 1 : 2}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </View>
+      ))}
+    </View>
+  );
+}
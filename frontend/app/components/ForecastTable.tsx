@@ -0,0 +1,41 @@
+import React from "react";
+import { ScrollView, Text, View } from "react-native";
+
+// one row per forecast path (a series, a scenario), one column per step
+export function ForecastTable({
+  head,
+  labels,
+  rows,
+}: {
+  head: string;
+  labels: string[];
+  rows: { name: string; forecast: number[] }[];
+}) {
+  const cell = { width: 168, color: "#e8eaed", textAlign: "right" as const };
+  return (
+    <ScrollView horizontal style={{ backgroundColor: "#111316", borderRadius: 10 }}>
+      <View style={{ padding: 10, gap: 4 }}>
+        <View style={{ flexDirection: "row" }}>
+          <Text style={{ width: 120, color: "#9aa0a6" }}>{head}</Text>
+          {labels.map((l) => (
+            <Text key={l} style={{ ...cell, color: "#9aa0a6" }} numberOfLines={1}>
+              {l}
+            </Text>
+          ))}
+        </View>
+        {rows.map((r) => (
+          <View key={r.name} style={{ flexDirection: "row" }}>
+            <Text style={{ width: 120, color: "#e8eaed" }} numberOfLines={1}>
+              {r.name}
+            </Text>
+            {labels.map((l, i) => (
+              <Text key={l} style={cell}>
+                {i < r.forecast.length ? r.forecast[i].toFixed(3) : "–"}
+              </Text>
+            ))}
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
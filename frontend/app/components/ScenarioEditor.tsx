@@ -0,0 +1,77 @@
+import React from "react";
+import { ScrollView, Text, View } from "react-native";
+import type { FutureValues } from "../lib/features";
+import { formatNum } from "./format";
+import { TextField } from "./TextField";
+
+// future values of the exogenous series, one row per series and a cell per
+// step; a blank cell shows the value it carries over
+export function ScenarioEditor({
+  values,
+  series,
+  labels,
+  lastObserved,
+  onChange,
+}: {
+  values: FutureValues;
+  series: string[];
+  labels: string[];
+  lastObserved: (s: string) => number | null;
+  onChange: (values: FutureValues) => void;
+}) {
+  const cell = {
+    width: 96,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#3c4043",
+    color: "#fff",
+    textAlign: "right" as const,
+  };
+  const set = (s: string, step: number, text: string) => {
+    const v = text.trim() === "" ? null : Number(text.replace(",", "."));
+    const row = [...(values[s] ?? [])];
+    while (row.length <= step) row.push(null);
+    row[step] = v !== null && Number.isFinite(v) ? v : null;
+    onChange({ ...values, [s]: row });
+  };
+  return (
+    <ScrollView horizontal style={{ backgroundColor: "#111316", borderRadius: 10 }}>
+      <View style={{ padding: 10, gap: 4 }}>
+        <View style={{ flexDirection: "row", gap: 4 }}>
+          <Text style={{ width: 120, color: "#9aa0a6" }}>series</Text>
+          {labels.map((l) => (
+            <Text key={l} style={{ width: 96, color: "#9aa0a6", textAlign: "right" }} numberOfLines={1}>
+              {l}
+            </Text>
+          ))}
+        </View>
+        {series.map((s) => {
+          let carried = lastObserved(s);
+          return (
+            <View key={s} style={{ flexDirection: "row", gap: 4 }}>
+              <Text style={{ width: 120, color: "#e8eaed" }} numberOfLines={1}>
+                {s}
+              </Text>
+              {labels.map((l, k) => {
+                const v = values[s]?.[k] ?? null;
+                if (v !== null) carried = v;
+                return (
+                  <TextField
+                    key={l}
+                    value={v === null ? "" : String(v)}
+                    placeholder={carried === null ? "" : formatNum(carried)}
+                    inputMode="decimal"
+                    onCommit={(text) => set(s, k, text)}
+                    style={cell}
+                  />
+                );
+              })}
+            </View>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from "react";
+import { TextInput } from "react-native";
+
+// free text, committed like the number fields on blur or submit; `onCommit`
+// gets the raw text and the field shows `value` again if it is rejected
+export function TextField({
+  value,
+  onCommit,
+  placeholder,
+  inputMode,
+  style,
+}: {
+  value: string;
+  onCommit: (text: string) => void;
+  placeholder?: string;
+  inputMode?: "text" | "decimal";
+  style?: object;
+}) {
+  const [text, setText] = useState(value);
+  useEffect(() => setText(value), [value]);
+
+  const commit = (t: string) => {
+    setText(value);
+    onCommit(t);
+  };
+
+  return (
+    <TextInput
+      value={text}
+      onChangeText={setText}
+      onBlur={() => commit(text)}
+      onSubmitEditing={() => commit(text)}
+      placeholder={placeholder}
+      placeholderTextColor="#5f6368"
+      inputMode={inputMode}
+      style={{
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: "#3c4043",
+        color: "#fff",
+        ...style,
+      }}
+    />
+  );
+}
@@ -0,0 +1,5 @@
+// number formatting shared by the tables and charts
+
+export function formatNum(v: number): string {
+  return Math.abs(v) >= 1000 || Number.isInteger(v) ? String(Math.round(v * 1000) / 1000) : v.toPrecision(4);
+}
@@ -0,0 +1,26 @@
+// Recharts, web only: on native every export is undefined, so callers only
+// render charts when Platform.OS === "web".
+import { Platform } from "react-native";
+
+let Recharts: any = {};
+if (Platform.OS === "web") {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  Recharts = require("recharts");
+}
+
+export const {
+  ResponsiveContainer,
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  Scatter,
+  Bar,
+  Brush,
+  ReferenceLine,
+  ReferenceArea,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} = Recharts;
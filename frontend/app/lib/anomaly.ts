@@ -0,0 +1,102 @@
+// Anomaly detection with the forecasting pipeline: every row gets an
+// out-of-fold prediction (blocked k-fold, so each row is predicted by a model
+// that never saw it), and rows whose residual is far from the typical one are
+// flagged. Distance is a robust z-score, (r - median) / (1.4826 * MAD), which
+// a few large outliers can't inflate the way they would a standard deviation.
+
+import type { Fit } from "./backtest";
+
+export type AnomalyScope = "target" | "all"; // all: each numeric series modeled in turn
+
+export type AnomalyOptions = {
+  folds: number;
+  threshold: number; // |robust z| at or above which a row is flagged
+  scope: AnomalyScope;
+};
+
+export const DEFAULT_ANOMALY: AnomalyOptions = { folds: 5, threshold: 3.5, scope: "target" };
+
+export type Anomaly = {
+  series: string;
+  row: number; // index into DataFrame.rows
+  actual: number;
+  predicted: number;
+  score: number; // robust z of the residual, signed (> 0: higher than predicted)
+};
+
+export type AnomalyResult = {
+  threshold: number;
+  scored: Record<string, number>; // rows with a prediction, per series
+  anomalies: Anomaly[];
+};
+
+// MAD of normal data is 0.6745 sigma; mean absolute deviation is 0.7979 sigma
+const MAD_SCALE = 1.4826;
+const MEAN_AD_SCALE = 1.2533;
+
+// ---------- Folds ----------
+// k contiguous blocks covering [0, n); the model for a block is fit on the rest
+export function blockedFolds(n: number, k: number): { start: number; end: number }[] {
+  const folds = Math.max(2, Math.min(Math.floor(k), n));
+  const out: { start: number; end: number }[] = [];
+  for (let i = 0; i < folds; i++) {
+    const start = Math.floor((i * n) / folds);
+    const end = Math.floor(((i + 1) * n) / folds);
+    if (end > start) out.push({ start, end });
+  }
+  return out;
+}
+
+export function outOfFoldPredictions(
+  X: number[][],
+  y: number[],
+  fit: Fit,
+  k: number,
+  onFold?: (done: number, total: number) => void
+): number[] {
+  const pred = new Array<number>(y.length).fill(NaN);
+  const folds = blockedFolds(y.length, k);
+  folds.forEach(({ start, end }, i) => {
+    const model = fit([...X.slice(0, start), ...X.slice(end)], [...y.slice(0, start), ...y.slice(end)]);
+    model.predictBatch(X.slice(start, end)).forEach((p, j) => (pred[start + j] = p));
+    onFold?.(i + 1, folds.length);
+  });
+  return pred;
+}
+
+// ---------- Scores ----------
+export function median(values: number[]): number {
+  if (!values.length) return NaN;
+  const s = [...values].sort((a, b) => a - b);
+  const m = s.length >> 1;
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+// When more than half the residuals are equal the MAD is 0; the mean absolute
+// deviation takes over, and if that is 0 too every residual scores 0.
+export function robustZ(residuals: number[]): number[] {
+  const med = median(residuals);
+  const dev = residuals.map((r) => Math.abs(r - med));
+  let scale = MAD_SCALE * median(dev);
+  if (!(scale > 0)) scale = dev.length ? (MEAN_AD_SCALE * dev.reduce((a, b) => a + b, 0)) / dev.length : 0;
+  return residuals.map((r) => (scale > 0 ? (r - med) / scale : 0));
+}
+
+// `rows[i]` is the data row that y[i] / predicted[i] belong to
+export function flagAnomalies(
+  series: string,
+  rows: number[],
+  actual: number[],
+  predicted: number[],
+  threshold: number
+): Anomaly[] {
+  const ok = predicted.map((_, i) => i).filter((i) => Number.isFinite(predicted[i]) && Number.isFinite(actual[i]));
+  const z = robustZ(ok.map((i) => actual[i] - predicted[i]));
+  const out: Anomaly[] = [];
+  ok.forEach((i, k) => {
+    if (Math.abs(z[k]) >= threshold) {
+      out.push({ series, row: rows[i], actual: actual[i], predicted: predicted[i], score: z[k] });
+    }
+  });
+  return out;
+}
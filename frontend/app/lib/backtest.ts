@@ -0,0 +1,185 @@
+// Time-ordered evaluation: train/test split, rolling-origin (walk-forward)
+// cross-validation, error metrics and naive baselines.
+// Rows are assumed to be in time order; a fold never trains on rows after its test window.
+
+export type Metrics = {
+  n: number;
+  mae: number;
+  rmse: number;
+  mape: number; // %, rows with a zero actual are skipped
+  smape: number; // %
+  r2: number;
+};
+
+export type Predictor = { predictBatch: (X: number[][]) => number[] };
+export type Fit = (X: number[][], y: number[]) => Predictor;
+
+// [0, trainEnd) is used for fitting, [testStart, testEnd) for scoring
+export type Fold = { trainEnd: number; testStart: number; testEnd: number };
+
+export type BacktestOptions = {
+  folds: number; // 1 = a single time-ordered train/test split
+  testFraction: number; // share of rows covered by all test windows together
+  minTrain: number; // folds with fewer training rows are skipped
+};
+
+export const DEFAULT_BACKTEST: BacktestOptions = {
+  folds: 5,
+  testFraction: 0.2,
+  minTrain: 20,
+};
+
+export type OutOfSample = {
+  row: number; // index into X / y
+  fold: number;
+  actual: number;
+  predicted: number;
+  naive: number;
+  seasonal: number | null;
+};
+
+export type BacktestResult = {
+  folds: (Fold & { fold: number; metrics: Metrics })[];
+  model: Metrics;
+  naive: Metrics;
+  seasonalNaive: Metrics | null;
+  oos: OutOfSample[];
+};
+
+// ---------- Metrics ----------
+export function computeMetrics(actual: number[], predicted: number[]): Metrics {
+  const n = Math.min(actual.length, predicted.length);
+  if (n === 0) return { n: 0, mae: NaN, rmse: NaN, mape: NaN, smape: NaN, r2: NaN };
+
+  let abs = 0;
+  let sq = 0;
+  let ape = 0;
+  let nApe = 0;
+  let sape = 0;
+  let nSape = 0;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += actual[i];
+  mean /= n;
+  let tot = 0;
+
+  for (let i = 0; i < n; i++) {
+    const a = actual[i];
+    const p = predicted[i];
+    const e = a - p;
+    abs += Math.abs(e);
+    sq += e * e;
+    tot += (a - mean) * (a - mean);
+    if (a !== 0) {
+      ape += Math.abs(e / a);
+      nApe++;
+    }
+    const denom = Math.abs(a) + Math.abs(p);
+    if (denom > 0) {
+      sape += (2 * Math.abs(e)) / denom;
+      nSape++;
+    }
+  }
+
+  return {
+    n,
+    mae: abs / n,
+    rmse: Math.sqrt(sq / n),
+    mape: nApe ? (100 * ape) / nApe : NaN,
+    smape: nSape ? (100 * sape) / nSape : NaN,
+    r2: tot > 0 ? 1 - sq / tot : NaN,
+  };
+}
+
+// ---------- Splits ----------
+// expanding-window folds whose test windows tile the last `testFraction` of the rows
+export function walkForwardFolds(n: number, opts: BacktestOptions = DEFAULT_BACKTEST): Fold[] {
+  const k = Math.max(1, Math.floor(opts.folds));
+  const testTotal = Math.max(k, Math.floor(n * opts.testFraction));
+  const size = Math.floor(testTotal / k);
+  const start = n - size * k;
+
+  const out: Fold[] = [];
+  for (let i = 0; i < k; i++) {
+    const testStart = start + i * size;
+    if (testStart < opts.minTrain) continue;
+    out.push({ trainEnd: testStart, testStart, testEnd: testStart + size });
+  }
+  return out;
+}
+
+// ---------- Baselines ----------
+// value of `series` at t + h - lag, for each sample whose features end at t
+function shifted(series: number[], t: number[], h: number, lag: number): number[] {
+  return t.map((ti) => {
+    const j = ti + h - lag * Math.ceil(h / lag);
+    return j >= 0 && j < series.length ? series[j] : NaN;
+  });
+}
+
+// last observed value: y(t+h) ~ y(t)
+export function naiveForecast(series: number[], t: number[], h = 1): number[] {
+  return shifted(series, t, h, h);
+}
+
+// same point one season back: y(t+h) ~ y(t+h-m*ceil(h/m))
+export function seasonalNaiveForecast(
+  series: number[],
+  t: number[],
+  season: number,
+  h = 1
+): number[] {
+  return shifted(series, t, h, season);
+}
+
+// ---------- Walk-forward backtest ----------
+export function backtest(
+  X: number[][],
+  y: number[],
+  fit: Fit,
+  baselines: { naive: number[]; seasonal: number[] | null },
+  opts: BacktestOptions = DEFAULT_BACKTEST,
+  onFold?: (done: number, total: number) => void
+): BacktestResult {
+  const folds = walkForwardFolds(y.length, opts);
+  const oos: OutOfSample[] = [];
+  const perFold: BacktestResult["folds"] = [];
+
+  folds.forEach((f, fold) => {
+    const model = fit(X.slice(0, f.trainEnd), y.slice(0, f.trainEnd));
+    const pred = model.predictBatch(X.slice(f.testStart, f.testEnd));
+    const actual = y.slice(f.testStart, f.testEnd);
+    perFold.push({ ...f, fold, metrics: computeMetrics(actual, pred) });
+    pred.forEach((p, i) => {
+      const row = f.testStart + i;
+      oos.push({
+        row,
+        fold,
+        actual: y[row],
+        predicted: p,
+        naive: baselines.naive[row],
+        seasonal: baselines.seasonal ? baselines.seasonal[row] : null,
+      });
+    });
+    onFold?.(fold + 1, folds.length);
+  });
+
+  // baselines are scored on the rows where they are defined
+  const score = (pick: (o: OutOfSample) => number | null) => {
+    const ok = oos.filter((o) => Number.isFinite(pick(o)));
+    return computeMetrics(
+      ok.map((o) => o.actual),
+      ok.map((o) => pick(o) as number)
+    );
+  };
+
+  return {
+    folds: perFold,
+    model: computeMetrics(
+      oos.map((o) => o.actual),
+      oos.map((o) => o.predicted)
+    ),
+    naive: score((o) => o.naive),
+    seasonalNaive: baselines.seasonal ? score((o) => o.seasonal) : null,
+    oos,
+  };
+}
@@ -0,0 +1,109 @@
+// Forecasting every numeric series at once, either with one model per series
+// ("local": each series is the target in turn, the others exogenous) or with a
+// single "global" model fit on all series stacked, using each series' own
+// lag features plus a one-hot series id. Each series is scored on its most
+// recent rows with a model fit on the older ones, then refit on everything
+// for the forecast.
+
+import { computeMetrics, Metrics } from "./backtest";
+import type { DataFrame } from "./data";
+import { buildFeatures, FeatureConfig, FeatureSet } from "./features";
+import { fitModel, Model, ModelFamily, Progress, TrainParams } from "./trees";
+import type { XGBoostBackend } from "./xgboost";
+
+export type BatchMode = "local" | "global";
+
+export type BatchOptions = {
+  mode: BatchMode;
+  horizon: number;
+  testFraction: number; // recent rows of each series held out for the metrics
+};
+
+export type SeriesForecast = {
+  series: string;
+  rows: number; // training rows
+  metrics: Metrics; // on the held-out rows
+  forecast: number[]; // t+1..t+horizon (shorter if features run out)
+};
+
+export type BatchResult = {
+  mode: BatchMode;
+  labels: string[]; // timestamps (or row numbers) of the forecast steps
+  series: SeriesForecast[];
+  skipped: string[]; // series with too few rows
+};
+
+export const MIN_BATCH_ROWS = 20;
+
+type Prepared = { series: string; fs: FeatureSet; X: number[][]; y: number[]; cut: number };
+
+function prepare(df: DataFrame, series: string, features: FeatureConfig, testFraction: number): Prepared {
+  const fs = buildFeatures(df, series, features);
+  const { X, y } = fs.buildDataset(1);
+  return { series, fs, X, y, cut: Math.floor(X.length * (1 - testFraction)) };
+}
+
+export function forecastAll(
+  df: DataFrame,
+  features: FeatureConfig,
+  family: ModelFamily,
+  params: TrainParams,
+  opts: BatchOptions,
+  xgb: XGBoostBackend | null,
+  onProgress: Progress
+): BatchResult {
+  const names = df.numericCols;
+  if (!names.length) throw new Error("no numeric columns to forecast.");
+  // a shared model needs the same feature layout for every series: own history only
+  const cfg =
+    opts.mode === "global" ? { ...features, excludeExo: [...df.numericCols, ...df.categoricalCols] } : features;
+  const all = names.map((s) => prepare(df, s, cfg, opts.testFraction));
+  const usable = all.filter((p) => p.cut >= MIN_BATCH_ROWS && p.cut < p.X.length);
+  const skipped = all.filter((p) => !usable.includes(p)).map((p) => p.series);
+  if (!usable.length) throw new Error(`not enough rows (each series needs >= ${MIN_BATCH_ROWS} training rows).`);
+  const labels = usable[0].fs.futureLabels(opts.horizon);
+
+  const result = (p: Prepared, holdout: Model, full: Model, withId: (x: number[]) => number[]): SeriesForecast => ({
+    series: p.series,
+    rows: p.X.length,
+    metrics: computeMetrics(p.y.slice(p.cut), holdout.predictBatch(p.X.slice(p.cut).map(withId))),
+    forecast: p.fs.forecastRecursive((x) => full.predictBatch([withId(x)])[0], opts.horizon),
+  });
+
+  if (opts.mode === "local") {
+    const steps = usable.length * 2;
+    const out = usable.map((p, k) => {
+      const fit = (X: number[][], y: number[], step: number) =>
+        fitModel(family, X, y, params, xgb, (d, t) => onProgress(step + d / t, steps));
+      const holdout = fit(p.X.slice(0, p.cut), p.y.slice(0, p.cut), 2 * k);
+      const full = fit(p.X, p.y, 2 * k + 1);
+      onProgress(2 * k + 2, steps);
+      return result(p, holdout, full, (x) => x);
+    });
+    return { mode: "local", labels, series: out, skipped };
+  }
+
+  // global: rows of all series stacked, each with its one-hot series id appended
+  const ids = usable.map((_, k) => usable.map((__, j) => (j === k ? 1 : 0)));
+  const stack = (pick: (p: Prepared) => [number[][], number[]]) => {
+    const X: number[][] = [];
+    const y: number[] = [];
+    usable.forEach((p, k) => {
+      const [XX, yy] = pick(p);
+      XX.forEach((x) => X.push([...x, ...ids[k]]));
+      y.push(...yy);
+    });
+    return { X, y };
+  };
+  const train = stack((p) => [p.X.slice(0, p.cut), p.y.slice(0, p.cut)]);
+  const holdout = fitModel(family, train.X, train.y, params, xgb, (d, t) => onProgress(d / t, 2));
+  const everything = stack((p) => [p.X, p.y]);
+  const full = fitModel(family, everything.X, everything.y, params, xgb, (d, t) => onProgress(1 + d / t, 2));
+  onProgress(2, 2);
+  return {
+    mode: "global",
+    labels,
+    series: usable.map((p, k) => result(p, holdout, full, (x) => [...x, ...ids[k]])),
+    skipped,
+  };
+}
@@ -0,0 +1,47 @@
+// Snapshots of the Recharts chart for download (web only): its <svg> as a
+// standalone file, or rasterized to PNG through a canvas. The HTML legend and
+// tooltip are not part of the <svg> and are left out.
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+export type ChartSvg = { svg: string; width: number; height: number };
+
+export function chartSvg(container: Element | null, background: string): ChartSvg | null {
+  const svg = container?.querySelector("svg.recharts-surface");
+  if (!svg) return null;
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  const bg = document.createElementNS(SVG_NS, "rect");
+  bg.setAttribute("width", "100%");
+  bg.setAttribute("height", "100%");
+  bg.setAttribute("fill", background);
+  clone.insertBefore(bg, clone.firstChild);
+  return { svg: new XMLSerializer().serializeToString(clone), width, height };
+}
+
+export function svgToPng(chart: ChartSvg, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([chart.svg], { type: "image/svg+xml" }));
+    const fail = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("could not render the chart image."));
+    };
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(chart.width * scale);
+      canvas.height = Math.round(chart.height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return fail();
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("could not render the chart image."))), "image/png");
+    };
+    img.onerror = fail;
+    img.src = url;
+  });
+}
@@ -0,0 +1,24 @@
+// Display scales for plotting series of very different magnitudes together.
+// Only the chart uses them; models and exports always see the raw values.
+//   shared: one Y axis, raw values
+//   axes:   raw values, one Y axis per series
+//   zscore: (v - mean) / standard deviation of the series
+//   index:  100 * v / the series' first non-zero value
+
+export type ChartScale = "shared" | "axes" | "zscore" | "index";
+
+// the transform for one series, fitted on its observed values; forecasts and
+// other overlays of the series go through the same transform
+export function scaleTransform(values: (number | null)[], scale: ChartScale): (v: number) => number {
+  const finite = values.filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+  if (scale === "zscore" && finite.length) {
+    const mean = finite.reduce((a, b) => a + b, 0) / finite.length;
+    const sd = Math.sqrt(finite.reduce((a, v) => a + (v - mean) ** 2, 0) / finite.length);
+    return sd > 0 ? (v) => (v - mean) / sd : (v) => v - mean;
+  }
+  if (scale === "index") {
+    const base = finite.find((v) => v !== 0);
+    if (base !== undefined) return (v) => (100 * v) / base;
+  }
+  return (v) => v;
+}
@@ -0,0 +1,175 @@
+// Classical forecasting baselines behind the same Model contract as the trees.
+// They don't use exogenous or calendar features; instead their feature rows
+// are a window of the target's own recent values, [y(t-1), y(t-2), ...,
+// y(t-W)], and predictBatch forecasts y(t+1) from each window. Like the
+// learners' target lags (see buildFeatureSpecs), the window stops at t-1, so
+// every model forecasts two steps past its latest observation:
+//   - seasonal naive: the value one season back, y(t+1-m), or whole seasons
+//     further back when that is not yet observed (m = 1: y(t-1))
+//   - Holt-Winters: additive level / trend / season smoothing run over the
+//     window, with smoothing weights chosen on the training rows
+// Because every row carries its own history, these models work unchanged in
+// backtests, recursive forecasts, anomaly scoring and exports.
+
+import type { FeatureConfig } from "./features";
+
+export type ClassicalParams = {
+  season: number; // steps per seasonal cycle; 1 = none
+};
+
+export const DEFAULT_CLASSICAL: ClassicalParams = { season: 7 };
+
+export type HoltWintersModel = {
+  type: "holtwinters";
+  nFeatures: number;
+  season: number;
+  alpha: number; // level
+  beta: number; // trend
+  gamma: number; // season
+  predictBatch: (X: number[][]) => number[];
+};
+
+export type SeasonalNaiveModel = {
+  type: "snaive";
+  nFeatures: number;
+  season: number;
+  predictBatch: (X: number[][]) => number[];
+};
+
+export const CLASSICAL_FAMILIES = ["holtwinters", "snaive"] as const;
+
+export function isClassical(family: string): boolean {
+  return (CLASSICAL_FAMILIES as readonly string[]).includes(family);
+}
+
+// ---------- Features ----------
+// three seasons: one to initialize the seasonal terms, two to smooth over
+export function classicalWindow(season: number): number {
+  return Math.max(3 * Math.max(1, Math.floor(season)), 10);
+}
+
+// the target's lags 1..W and nothing else (`columns`: every numeric and
+// categorical column, all excluded as exogenous inputs)
+export function classicalFeatures(features: FeatureConfig, columns: string[], season: number): FeatureConfig {
+  return {
+    ...features,
+    lags: Array.from({ length: classicalWindow(season) }, (_, i) => i + 1),
+    rollingWindows: [],
+    diffs: [],
+    pctChanges: [],
+    calendar: [],
+    excludeExo: columns,
+  };
+}
+
+// ---------- Seasonal naive ----------
+export function seasonalNaiveModel(season: number, nFeatures: number): SeasonalNaiveModel {
+  const m = Math.max(1, Math.floor(season));
+  // y(t+1-back) sits at x[back - 2]; back is the first multiple of m that is observed
+  const back = m * Math.ceil(2 / m);
+  return {
+    type: "snaive",
+    nFeatures,
+    season: m,
+    predictBatch: (XX: number[][]) => XX.map((x) => x[back - 2]),
+  };
+}
+
+export function fitSeasonalNaive(X: number[][], _y: number[], params: ClassicalParams): SeasonalNaiveModel {
+  return seasonalNaiveModel(params.season, X[0]?.length ?? 0);
+}
+
+// ---------- Holt-Winters ----------
+// two-step forecast after smoothing the window x (newest value first): the
+// window ends at y(t-1) and the target is y(t+1)
+function holtWintersStep(x: number[], m: number, alpha: number, beta: number, gamma: number): number {
+  const W = x.length;
+  const v = (i: number) => x[W - 1 - i]; // oldest first
+  let level: number;
+  let trend: number;
+  const seasonal = new Array<number>(m).fill(0);
+  let start: number;
+  if (m > 1) {
+    let a = 0;
+    let b = 0;
+    for (let i = 0; i < m; i++) {
+      a += v(i);
+      b += v(m + i);
+    }
+    a /= m;
+    b /= m;
+    level = a;
+    trend = (b - a) / m;
+    for (let i = 0; i < m; i++) seasonal[i] = v(i) - a;
+    start = m;
+  } else {
+    level = v(0);
+    trend = v(1) - v(0);
+    start = 1;
+  }
+  for (let i = start; i < W; i++) {
+    const s = seasonal[i % m];
+    const prev = level;
+    level = alpha * (v(i) - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prev) + (1 - beta) * trend;
+    if (m > 1) seasonal[i % m] = gamma * (v(i) - level) + (1 - gamma) * s;
+  }
+  return level + 2 * trend + seasonal[(W + 1) % m];
+}
+
+export function holtWintersModel(
+  season: number,
+  alpha: number,
+  beta: number,
+  gamma: number,
+  nFeatures: number
+): HoltWintersModel {
+  const m = Math.max(1, Math.floor(season));
+  return {
+    type: "holtwinters",
+    nFeatures,
+    season: m,
+    alpha,
+    beta,
+    gamma,
+    predictBatch: (XX: number[][]) => XX.map((x) => holtWintersStep(x, m, alpha, beta, gamma)),
+  };
+}
+
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0, 0.05, 0.1, 0.2];
+const GAMMAS = [0, 0.1, 0.2, 0.4];
+const MAX_FIT_ROWS = 2000; // the most recent rows are enough to pick the weights
+
+// the smoothing weights with the lowest squared forecast error on the training rows
+export function fitHoltWinters(X: number[][], y: number[], params: ClassicalParams): HoltWintersModel {
+  const m = Math.max(1, Math.floor(params.season));
+  const nFeatures = X[0]?.length ?? 0;
+  if (nFeatures < (m > 1 ? 2 * m : 2)) {
+    throw new Error(`Holt-Winters needs a window of at least two seasons (${2 * m} values).`);
+  }
+  const from = Math.max(0, X.length - MAX_FIT_ROWS);
+  let best = { sse: Infinity, alpha: 0.5, beta: 0, gamma: 0 };
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of m > 1 ? GAMMAS : [0]) {
+        let sse = 0;
+        for (let i = from; i < X.length && sse < best.sse; i++) {
+          sse += (y[i] - holtWintersStep(X[i], m, alpha, beta, gamma)) ** 2;
+        }
+        if (sse < best.sse) best = { sse, alpha, beta, gamma };
+      }
+    }
+  }
+  return holtWintersModel(m, best.alpha, best.beta, best.gamma, nFeatures);
+}
+
+// the feature config a model family trains on: the user's for learners, the window for classical models
+export function featuresForFamily(
+  family: string,
+  features: FeatureConfig,
+  columns: string[],
+  season: number
+): FeatureConfig {
+  return isClassical(family) ? classicalFeatures(features, columns, season) : features;
+}
@@ -0,0 +1,484 @@
+// Classification one step ahead: the class of a categorical column at t+1, or
+// an event defined by a threshold rule over a numeric column ("item_a > 80").
+// Feature rows come from the regression pipeline (lib/features.ts). The
+// learners are a classification tree (Gini or entropy splits, class
+// frequencies at the leaves) and a random forest averaging those frequencies.
+// Evaluation follows lib/backtest.ts: walk-forward folds, scored with a
+// confusion matrix, per-class precision/recall, log loss and ROC AUC.
+
+import { BacktestOptions, Fold, walkForwardFolds } from "./backtest";
+import type { DataFrame } from "./data";
+import { buildFeatures, FeatureConfig, FeatureSet } from "./features";
+import {
+  mulberry32,
+  presort,
+  Progress,
+  sampleFeatures,
+  sampleSplitter,
+  sortedSamples,
+  SortedColumns,
+} from "./trees";
+
+export type ThresholdOp = ">" | ">=" | "<" | "<=";
+
+export type ClassTarget =
+  | { kind: "category"; column: string }
+  | { kind: "threshold"; column: string; op: ThresholdOp; value: number };
+
+export type SplitCriterion = "gini" | "entropy";
+export type ClassifierFamily = "tree" | "forest";
+
+export type ClassifierParams = {
+  maxDepth: number;
+  minLeaf: number;
+  nThresholds: number; // quantile candidates per feature; 0 = exact search over all values
+  criterion: SplitCriterion;
+  nTrees: number; // forest only
+  featureFraction: number; // forest only: share of features tried at each split
+};
+
+export const DEFAULT_CLASSIFIER: ClassifierParams = {
+  maxDepth: 5,
+  minLeaf: 5,
+  nThresholds: 9,
+  criterion: "gini",
+  nTrees: 50,
+  featureFraction: 0.5,
+};
+
+export type ClassNode =
+  | {
+      kind: "leaf";
+      probs: number[]; // class frequencies of the training rows in the leaf
+      size: number;
+      depth: number;
+    }
+  | {
+      kind: "split";
+      feature: number;
+      threshold: number;
+      left: ClassNode;
+      right: ClassNode;
+      size: number;
+      depth: number;
+      gain: number; // impurity decrease, n * (parent - weighted children)
+    };
+
+export type Classifier = {
+  type: ClassifierFamily;
+  nFeatures: number;
+  nClasses: number;
+  trees: ClassNode[]; // a single tree, or the forest whose probabilities are averaged
+  predictProba: (X: number[][]) => number[][];
+  predictBatch: (X: number[][]) => number[]; // most probable class index
+};
+
+export const MAX_CLASSES = 20;
+const MIN_GAIN = 1e-12;
+
+// ---------- Targets ----------
+export function describeClassTarget(t: ClassTarget): string {
+  return t.kind === "category" ? t.column : `${t.column} ${t.op} ${t.value}`;
+}
+
+function testRule(v: number, op: ThresholdOp, value: number): boolean {
+  if (op === ">") return v > value;
+  if (op === ">=") return v >= value;
+  if (op === "<") return v < value;
+  return v <= value;
+}
+
+// Class index of every data row (NaN where the column is empty) and the class
+// names: the sorted levels of a categorical column, or ["no", "yes"] for a rule.
+export function classLabels(df: DataFrame, target: ClassTarget): { classes: string[]; labels: number[] } {
+  if (target.kind === "threshold") {
+    if (!df.numericCols.includes(target.column)) throw new Error(`"${target.column}" is not a numeric column.`);
+    const labels = df.rows.map((r) => {
+      const v = r[target.column];
+      return typeof v === "number" && Number.isFinite(v) ? (testRule(v, target.op, target.value) ? 1 : 0) : NaN;
+    });
+    return { classes: ["no", "yes"], labels };
+  }
+  if (!df.categoricalCols.includes(target.column)) {
+    throw new Error(`"${target.column}" is not a categorical column.`);
+  }
+  const cat = (v: unknown) => (v == null ? null : String(v));
+  const levels = new Set<string>();
+  for (const r of df.rows) {
+    const v = cat(r[target.column]);
+    if (v !== null) levels.add(v);
+  }
+  const classes = [...levels].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  if (classes.length > MAX_CLASSES) {
+    throw new Error(`too many classes in "${target.column}" (${classes.length} > ${MAX_CLASSES}).`);
+  }
+  const index = new Map(classes.map((c, i) => [c, i]));
+  return { classes, labels: df.rows.map((r) => index.get(cat(r[target.column]) ?? "") ?? NaN) };
+}
+
+// supervised rows: X row i is built at feature row t[i] and labelled with the
+// class of row t[i] + 1; `current` is the class of row t[i] (the persistence guess)
+export type ClassDataset = {
+  fs: FeatureSet;
+  classes: string[];
+  X: number[][];
+  y: number[];
+  t: number[];
+  current: number[];
+  skipped: number;
+};
+
+// A rule's features are those of its numeric column. A categorical target is
+// modelled through a numeric copy of its class index (column + "#class"), so
+// its history shows up as lag features next to the column's one-hot encoding.
+export function classDataset(df: DataFrame, target: ClassTarget, features: FeatureConfig): ClassDataset {
+  const { classes, labels } = classLabels(df, target);
+  let fs: FeatureSet;
+  if (target.kind === "threshold") {
+    fs = buildFeatures(df, target.column, features);
+  } else {
+    const code = `${target.column}#class`;
+    const coded: DataFrame = {
+      ...df,
+      rows: df.rows.map((r, i) => ({ ...r, [code]: Number.isFinite(labels[i]) ? labels[i] : null })),
+      numericCols: [...df.numericCols, code],
+    };
+    fs = buildFeatures(coded, code, features);
+  }
+  const { X, t, skipped } = fs.buildDataset(1);
+  return {
+    fs,
+    classes,
+    X,
+    y: t.map((ti) => labels[ti + 1]),
+    t,
+    current: t.map((ti) => labels[ti]),
+    skipped,
+  };
+}
+
+// ---------- Classification tree ----------
+function impurity(counts: ArrayLike<number>, n: number, criterion: SplitCriterion): number {
+  if (n <= 0) return 0;
+  let s = 0;
+  for (let c = 0; c < counts.length; c++) {
+    const p = counts[c] / n;
+    if (criterion === "gini") s += p * p;
+    else if (p > 0) s -= p * Math.log2(p);
+  }
+  return criterion === "gini" ? 1 - s : s;
+}
+
+// Grow a classification tree on a sample of the presorted rows, the same way
+// lib/trees.ts grows regression trees. `labels[p]` is the class of sample p.
+export function growClassTree(
+  data: SortedColumns,
+  rows: Int32Array,
+  labels: Int32Array,
+  nClasses: number,
+  params: ClassifierParams = DEFAULT_CLASSIFIER,
+  maxFeatures = Infinity,
+  rand: () => number = Math.random
+): ClassNode {
+  const { maxDepth, minLeaf, criterion } = params;
+  const { cols } = data;
+  const nFeat = cols.length;
+  const pos = sortedSamples(data, rows);
+  const split = sampleSplitter(data, rows, pos);
+  const total = new Float64Array(nClasses);
+  const left = new Float64Array(nClasses);
+  const right = new Float64Array(nClasses);
+
+  const countNode = (lo: number, hi: number) => {
+    total.fill(0);
+    if (nFeat) for (let k = lo; k < hi; k++) total[labels[pos[0][k]]]++;
+    else for (let p = 0; p < rows.length; p++) total[labels[p]]++;
+  };
+
+  const leaf = (lo: number, hi: number, depth: number): ClassNode => {
+    countNode(lo, hi);
+    const n = hi - lo;
+    return { kind: "leaf", probs: Array.from(total, (c) => c / Math.max(1, n)), size: n, depth };
+  };
+
+  const build = (lo: number, hi: number, depth: number): ClassNode => {
+    const n = hi - lo;
+    if (n <= minLeaf || depth >= maxDepth || !nFeat) return leaf(lo, hi, depth);
+    countNode(lo, hi);
+    const parent = impurity(total, n, criterion);
+    if (parent <= 0) return leaf(lo, hi, depth);
+    const gainAt = (nL: number) =>
+      parent - (nL / n) * impurity(left, nL, criterion) - ((n - nL) / n) * impurity(right, n - nL, criterion);
+
+    let bestGain = 0;
+    let bestFeat = -1;
+    let bestThr = 0;
+
+    for (const f of sampleFeatures(nFeat, maxFeatures, rand)) {
+      const arr = pos[f];
+      const col = cols[f];
+      // non-finite values sit at the end of the order
+      let end = hi;
+      while (end > lo && !Number.isFinite(col[rows[arr[end - 1]]])) end--;
+      const nFinite = end - lo;
+      if (!nFinite) continue;
+      left.fill(0);
+      right.set(total);
+      const take = (k: number) => {
+        const c = labels[arr[k]];
+        left[c]++;
+        right[c]--;
+      };
+      const consider = (nL: number, thr: number) => {
+        if (nL < minLeaf || n - nL < minLeaf) return;
+        const gain = gainAt(nL);
+        if (gain > bestGain) {
+          bestGain = gain;
+          bestFeat = f;
+          bestThr = thr;
+        }
+      };
+
+      if (params.nThresholds <= 0) {
+        // exact search: every boundary between distinct sorted values
+        for (let k = lo; k < end - 1; k++) {
+          take(k);
+          const thr = col[rows[arr[k]]];
+          if (thr !== col[rows[arr[k + 1]]]) consider(k - lo + 1, thr);
+        }
+        continue;
+      }
+
+      // candidate thresholds are the node's quantiles (nThresholds + 1 bins)
+      const bins = params.nThresholds + 1;
+      let k = lo;
+      for (let q = 1; q < bins; q++) {
+        const thr = col[rows[arr[lo + Math.floor((q * nFinite) / bins)]]];
+        while (k < end && col[rows[arr[k]]] <= thr) take(k++);
+        consider(k - lo, thr);
+      }
+    }
+
+    if (bestGain <= MIN_GAIN || bestFeat < 0) return leaf(lo, hi, depth);
+    const nL = split(lo, hi, bestFeat, bestThr);
+    return {
+      kind: "split",
+      feature: bestFeat,
+      threshold: bestThr,
+      left: build(lo, lo + nL, depth + 1),
+      right: build(lo + nL, hi, depth + 1),
+      size: n,
+      depth,
+      gain: bestGain * n,
+    };
+  };
+
+  return build(0, rows.length, 0);
+}
+
+export function predictClassTree(node: ClassNode, x: number[]): number[] {
+  if (node.kind === "leaf") return node.probs;
+  return x[node.feature] <= node.threshold ? predictClassTree(node.left, x) : predictClassTree(node.right, x);
+}
+
+function argmax(p: number[]): number {
+  let best = 0;
+  for (let c = 1; c < p.length; c++) if (p[c] > p[best]) best = c;
+  return best;
+}
+
+export function classifierModel(
+  type: ClassifierFamily,
+  trees: ClassNode[],
+  nClasses: number,
+  nFeatures: number
+): Classifier {
+  const probaOne = (x: number[]) => {
+    const p = new Array<number>(nClasses).fill(0);
+    for (const tree of trees) predictClassTree(tree, x).forEach((v, c) => (p[c] += v / trees.length));
+    return p;
+  };
+  return {
+    type,
+    nFeatures,
+    nClasses,
+    trees,
+    predictProba: (XX: number[][]) => XX.map(probaOne),
+    predictBatch: (XX: number[][]) => XX.map((x) => argmax(probaOne(x))),
+  };
+}
+
+// `y` holds class indices in [0, nClasses); forests use seeded bootstraps
+export function fitClassifier(
+  family: ClassifierFamily,
+  X: number[][],
+  y: number[],
+  nClasses: number,
+  params: ClassifierParams = DEFAULT_CLASSIFIER,
+  seed = 42,
+  onProgress?: Progress
+): Classifier {
+  const n = y.length;
+  const nFeat = X[0]?.length ?? 0;
+  const data = presort(X);
+  if (family === "tree") {
+    const rows = Int32Array.from({ length: n }, (_, i) => i);
+    const tree = growClassTree(data, rows, Int32Array.from(y), nClasses, params);
+    onProgress?.(1, 1);
+    return classifierModel("tree", [tree], nClasses, nFeat);
+  }
+  const rand = mulberry32(seed);
+  const mtry = Math.max(1, Math.round(nFeat * params.featureFraction));
+  const trees: ClassNode[] = [];
+  for (let k = 0; k < params.nTrees; k++) {
+    const rows = new Int32Array(n);
+    const yb = new Int32Array(n);
+    for (let i = 0; i < n; i++) {
+      rows[i] = Math.floor(rand() * n);
+      yb[i] = y[rows[i]];
+    }
+    trees.push(growClassTree(data, rows, yb, nClasses, params, mtry, rand));
+    onProgress?.(k + 1, params.nTrees);
+  }
+  return classifierModel("forest", trees, nClasses, nFeat);
+}
+
+// ---------- Metrics ----------
+export type ClassStats = { label: string; precision: number; recall: number; f1: number; support: number };
+export type RocPoint = { fpr: number; tpr: number };
+
+export type ClassMetrics = {
+  n: number;
+  accuracy: number;
+  macroF1: number;
+  logLoss: number;
+  auc: number; // binary: ROC AUC of the second class; more classes: mean one-vs-rest AUC
+  confusion: number[][]; // [actual][predicted]
+  perClass: ClassStats[];
+  roc: RocPoint[] | null; // binary targets only
+};
+
+const LOG_LOSS_EPS = 1e-15;
+
+// ROC of `scores` for the rows where `positive` holds; tied scores form one
+// step, so the curve doesn't depend on row order. AUC is NaN with only one class.
+export function rocCurve(scores: number[], positive: boolean[]): { points: RocPoint[]; auc: number } {
+  const nPos = positive.filter(Boolean).length;
+  const nNeg = positive.length - nPos;
+  if (!nPos || !nNeg) return { points: [], auc: NaN };
+  const idx = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+  const points: RocPoint[] = [{ fpr: 0, tpr: 0 }];
+  let tp = 0;
+  let fp = 0;
+  let auc = 0;
+  for (let k = 0; k < idx.length; ) {
+    const s = scores[idx[k]];
+    const prev = points[points.length - 1];
+    for (; k < idx.length && scores[idx[k]] === s; k++) {
+      if (positive[idx[k]]) tp++;
+      else fp++;
+    }
+    const p = { fpr: fp / nNeg, tpr: tp / nPos };
+    auc += ((p.fpr - prev.fpr) * (p.tpr + prev.tpr)) / 2;
+    points.push(p);
+  }
+  return { points, auc };
+}
+
+export function classMetrics(actual: number[], proba: number[][], classes: string[]): ClassMetrics {
+  const n = Math.min(actual.length, proba.length);
+  const k = classes.length;
+  const confusion = classes.map(() => new Array<number>(k).fill(0));
+  let correct = 0;
+  let loss = 0;
+  for (let i = 0; i < n; i++) {
+    const pred = argmax(proba[i]);
+    confusion[actual[i]][pred]++;
+    if (pred === actual[i]) correct++;
+    loss -= Math.log(Math.min(1 - LOG_LOSS_EPS, Math.max(LOG_LOSS_EPS, proba[i][actual[i]] ?? 0)));
+  }
+  const perClass = classes.map((label, c) => {
+    const tp = confusion[c][c];
+    const support = confusion[c].reduce((a, b) => a + b, 0);
+    const predicted = confusion.reduce((a, row) => a + row[c], 0);
+    const precision = predicted ? tp / predicted : NaN;
+    const recall = support ? tp / support : NaN;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return { label, precision, recall, f1, support };
+  });
+  const present = perClass.filter((s) => s.support > 0);
+  const curve = (c: number) =>
+    rocCurve(
+      proba.slice(0, n).map((p) => p[c]),
+      actual.slice(0, n).map((a) => a === c)
+    );
+  let auc = NaN;
+  let roc: RocPoint[] | null = null;
+  if (k === 2) {
+    const r = curve(1);
+    auc = r.auc;
+    roc = r.points.length ? r.points : null;
+  } else {
+    const aucs = classes.map((_, c) => curve(c).auc).filter(Number.isFinite);
+    if (aucs.length) auc = aucs.reduce((a, b) => a + b, 0) / aucs.length;
+  }
+  return {
+    n,
+    accuracy: n ? correct / n : NaN,
+    macroF1: present.length ? present.reduce((a, s) => a + s.f1, 0) / present.length : NaN,
+    logLoss: n ? loss / n : NaN,
+    auc,
+    confusion,
+    perClass,
+    roc,
+  };
+}
+
+// ---------- Walk-forward evaluation ----------
+export type ClassBacktestResult = {
+  folds: (Fold & { fold: number; accuracy: number })[];
+  model: ClassMetrics;
+  persistence: ClassMetrics; // the next class is the current one; rows where that is known
+  oos: { row: number; actual: number; proba: number[] }[]; // row: index into X / y
+};
+
+export function classBacktest(
+  X: number[][],
+  y: number[],
+  current: number[],
+  classes: string[],
+  fit: (X: number[][], y: number[]) => Pick<Classifier, "predictProba">,
+  opts: BacktestOptions,
+  onFold?: (done: number, total: number) => void
+): ClassBacktestResult {
+  const folds = walkForwardFolds(y.length, opts);
+  const oos: ClassBacktestResult["oos"] = [];
+  const perFold: ClassBacktestResult["folds"] = [];
+  folds.forEach((f, fold) => {
+    const model = fit(X.slice(0, f.trainEnd), y.slice(0, f.trainEnd));
+    const proba = model.predictProba(X.slice(f.testStart, f.testEnd));
+    let correct = 0;
+    proba.forEach((p, i) => {
+      const row = f.testStart + i;
+      if (argmax(p) === y[row]) correct++;
+      oos.push({ row, actual: y[row], proba: p });
+    });
+    perFold.push({ ...f, fold, accuracy: proba.length ? correct / proba.length : NaN });
+    onFold?.(fold + 1, folds.length);
+  });
+  const known = oos.filter((o) => Number.isFinite(current[o.row]));
+  return {
+    folds: perFold,
+    model: classMetrics(
+      oos.map((o) => o.actual),
+      oos.map((o) => o.proba),
+      classes
+    ),
+    persistence: classMetrics(
+      known.map((o) => o.actual),
+      known.map((o) => classes.map((_, c) => (c === current[o.row] ? 1 : 0))),
+      classes
+    ),
+    oos,
+  };
+}
@@ -0,0 +1,235 @@
+// RFC 4180 CSV reading: a streaming tokenizer (quoted fields with "" escapes
+// and embedded newlines, CR / LF / CRLF record ends), plus sniffing of the
+// text encoding, the delimiter and the decimal separator from a file's head.
+// Malformed input is read leniently: a stray quote inside an unquoted field is
+// kept literally and an unterminated quote runs to the end of the file.
+
+export type DecimalSeparator = "." | ",";
+
+export type CsvOptions = {
+  encoding: string; // TextDecoder label, e.g. "utf-8", "utf-16le", "shift_jis"
+  delimiter: string;
+  decimal: DecimalSeparator;
+};
+
+export const DELIMITERS = [",", ";", "\t", "|"];
+export const ENCODINGS = ["utf-8", "utf-16le", "utf-16be", "shift_jis", "windows-1252"];
+
+// bytes read for sniffing and previews
+export const SNIFF_BYTES = 64 * 1024;
+
+// ---------- Tokenizer ----------
+export class CsvReader {
+  private field = "";
+  private record: string[] = [];
+  private inQuotes = false;
+  private quoted = false; // current field started with a quote
+  private closed = false; // just saw the quote that may close a quoted field
+  private lastCR = false;
+
+  constructor(
+    private readonly delimiter: string,
+    private readonly onRecord: (fields: string[]) => void
+  ) {}
+
+  push(chunk: string) {
+    const d = this.delimiter;
+    let start = 0; // start of the run of plain characters not yet copied into `field`
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+      if (this.inQuotes) {
+        if (c === '"') {
+          this.field += chunk.slice(start, i);
+          this.inQuotes = false;
+          this.closed = true;
+          start = i + 1;
+        }
+        continue;
+      }
+      const wasCR = this.lastCR;
+      this.lastCR = false;
+      if (c === '"') {
+        if (this.closed) {
+          // "" inside a quoted field is one literal quote
+          this.field += '"';
+          this.inQuotes = true;
+          this.closed = false;
+          start = i + 1;
+        } else if (!this.quoted && this.field === "" && start === i) {
+          this.inQuotes = true;
+          this.quoted = true;
+          start = i + 1;
+        }
+        continue;
+      }
+      this.closed = false;
+      if (c === d || c === "\n" || c === "\r") {
+        this.field += chunk.slice(start, i);
+        start = i + 1;
+        if (c === "\n" && wasCR) continue; // second half of CRLF
+        this.endField();
+        if (c !== d) {
+          this.endRecord();
+          this.lastCR = c === "\r";
+        }
+      }
+    }
+    this.field += chunk.slice(start);
+  }
+
+  end() {
+    if (this.field !== "" || this.quoted || this.record.length) {
+      this.endField();
+      this.endRecord();
+    }
+    this.inQuotes = false;
+    this.closed = false;
+    this.lastCR = false;
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = "";
+    this.quoted = false;
+    this.closed = false;
+  }
+
+  private endRecord() {
+    const rec = this.record;
+    this.record = [];
+    // blank line
+    if (rec.length === 1 && rec[0] === "") return;
+    this.onRecord(rec);
+  }
+}
+
+export function readCsvText(text: string, delimiter: string, limit = Infinity): string[][] {
+  const out: string[][] = [];
+  const reader = new CsvReader(delimiter, (r) => {
+    if (out.length < limit) out.push(r);
+  });
+  reader.push(text);
+  reader.end();
+  return out;
+}
+
+// ---------- Sniffing ----------
+function hasBOM(b: Uint8Array, ...sig: number[]): boolean {
+  return sig.every((v, i) => b[i] === v);
+}
+
+function decodes(label: string, bytes: Uint8Array): boolean {
+  try {
+    // stream: a multi-byte character cut off at the end of the sample is not an error
+    new TextDecoder(label, { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function detectEncoding(head: Uint8Array): string {
+  if (hasBOM(head, 0xef, 0xbb, 0xbf)) return "utf-8";
+  if (hasBOM(head, 0xff, 0xfe)) return "utf-16le";
+  if (hasBOM(head, 0xfe, 0xff)) return "utf-16be";
+
+  // ASCII text in UTF-16 has a zero in every other byte
+  const n = Math.min(head.length, 4096) & ~1;
+  let zeroEven = 0;
+  let zeroOdd = 0;
+  for (let i = 0; i < n; i += 2) {
+    if (head[i] === 0) zeroEven++;
+    if (head[i + 1] === 0) zeroOdd++;
+  }
+  if (n && zeroOdd > n / 6 && zeroEven < n / 60) return "utf-16le";
+  if (n && zeroEven > n / 6 && zeroOdd < n / 60) return "utf-16be";
+
+  if (decodes("utf-8", head)) return "utf-8";
+  if (decodes("shift_jis", head)) return "shift_jis";
+  return "windows-1252";
+}
+
+// the delimiter that splits the sample into the most consistent number (> 1) of fields
+export function detectDelimiter(text: string): string {
+  let best = ",";
+  let bestScore = 0;
+  for (const d of DELIMITERS) {
+    const recs = readCsvText(text, d, 50);
+    if (recs.length > 2) recs.pop(); // the last line of a sample may be cut short
+    const counts = new Map<number, number>();
+    for (const r of recs) counts.set(r.length, (counts.get(r.length) ?? 0) + 1);
+    let mode = 0;
+    let modeCount = 0;
+    counts.forEach((c, len) => {
+      if (c > modeCount || (c === modeCount && len > mode)) {
+        mode = len;
+        modeCount = c;
+      }
+    });
+    if (mode < 2) continue;
+    const score = modeCount / recs.length;
+    if (score > bestScore) {
+      best = d;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Counts values that can only be read one way: "1,5" or "1.234,5" are decimal
+// commas, "1.5" or "1,234.5" decimal points; "1,234" and "1.234" are ambiguous.
+export function detectDecimal(records: string[][]): DecimalSeparator {
+  let comma = 0;
+  let dot = 0;
+  for (const r of records) {
+    for (const raw of r) {
+      const v = raw.trim();
+      if (/^[-+]?\d+,\d+$/.test(v) && !/,\d{3}$/.test(v)) comma++;
+      else if (/^[-+]?\d{1,3}(\.\d{3})+,\d+$/.test(v)) comma++;
+      else if (/^[-+]?\d*\.\d+$/.test(v) && !/^[-+]?\d{1,3}\.\d{3}$/.test(v)) dot++;
+      else if (/^[-+]?\d{1,3}(,\d{3})+\.\d+$/.test(v)) dot++;
+    }
+  }
+  return comma > dot ? "," : ".";
+}
+
+export function decodeHead(head: Uint8Array, encoding: string): string {
+  return new TextDecoder(encoding).decode(head, { stream: true });
+}
+
+export function sniffCsv(head: Uint8Array): CsvOptions {
+  const encoding = detectEncoding(head);
+  const text = decodeHead(head, encoding);
+  const delimiter = detectDelimiter(text);
+  const records = readCsvText(text, delimiter, 200).slice(1);
+  return { encoding, delimiter, decimal: detectDecimal(records) };
+}
+
+// ---------- Numbers ----------
+// locale-aware number, or NaN: thousands separators (".", ",", spaces, "'")
+// are dropped when they group digits in threes. Only plain decimals count, not
+// the rest of JavaScript's number syntax (0x1A, 0b101, Infinity)
+const DECIMAL = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+export function parseNumber(s: string, decimal: DecimalSeparator): number {
+  let t = s.trim().replace(/[\s']/g, "");
+  if (t === "") return NaN;
+  if (decimal === ",") {
+    if (/^[-+]?\d{1,3}(\.\d{3})+(,\d*)?$/.test(t)) t = t.replace(/\./g, "");
+    t = t.replace(",", ".");
+  } else if (/^[-+]?\d{1,3}(,\d{3})+(\.\d*)?$/.test(t)) {
+    t = t.replace(/,/g, "");
+  }
+  return DECIMAL.test(t) ? Number(t) : NaN;
+}
+
+// ---------- Writing ----------
+// RFC 4180 text: fields holding the delimiter, quotes or line breaks are quoted
+export function formatCsv(rows: (string | number | null)[][], delimiter = ","): string {
+  const field = (v: string | number | null) => {
+    if (v == null || (typeof v === "number" && !Number.isFinite(v))) return "";
+    const s = String(v);
+    return s.includes(delimiter) || /["\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return rows.map((r) => r.map(field).join(delimiter)).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,233 @@
+// Tabular data as loaded from CSV / XLSX files. Pure functions only, so the
+// same code parses on the main thread and inside the ML worker.
+
+import { CsvOptions, CsvReader, decodeHead, DecimalSeparator, readCsvText, SNIFF_BYTES } from "./csv";
+import { ColumnType, excelSerialToDate, inferSchema, RawValue, Schema, typeValue } from "./schema";
+
+export type Row = { [key: string]: number | string | Date | null };
+export type DataFrame = {
+  columns: string[]; // all columns except ignored ones
+  rows: Row[]; // parsed rows (objects with keys = columns)
+  numericCols: string[];
+  categoricalCols: string[];
+  datetimeKey?: string; // the first datetime column, the series' time index
+  schema: Schema; // type of every column, including ignored ones
+};
+
+// a table as read from a file, before column typing
+export type RawTable = {
+  columns: string[];
+  rows: RawValue[][];
+  decimal: DecimalSeparator; // decimal separator of numbers stored as text
+  source?: { sheets: string[]; sheet: string; headerRow: number }; // workbooks: what was read
+};
+
+export const EMPTY_TABLE: RawTable = { columns: [], rows: [], decimal: "." };
+
+// types the columns of `table`: as set in `overrides`, inferred otherwise
+export function toDataFrame(table: RawTable, overrides: Schema = {}): DataFrame {
+  const schema = inferSchema(table.columns, table.rows, table.decimal, overrides);
+  const kept = table.columns.map((c, i) => ({ c, i })).filter(({ c }) => schema[c].type !== "ignore");
+  const rows = table.rows.map((r) => {
+    const row: Row = {};
+    for (const { c, i } of kept) row[c] = typeValue(r[i] ?? null, schema[c], table.decimal);
+    return row;
+  });
+  const columns = kept.map(({ c }) => c);
+  const ofType = (t: ColumnType) => columns.filter((c) => schema[c].type === t);
+  return {
+    columns,
+    rows,
+    numericCols: ofType("numeric"),
+    categoricalCols: ofType("categorical"),
+    datetimeKey: ofType("datetime")[0],
+    schema,
+  };
+}
+
+// ---------- CSV Parsing ----------
+const DEFAULT_CSV: CsvOptions = { encoding: "utf-8", delimiter: ",", decimal: "." };
+const CHUNK_BYTES = 1 << 20;
+
+// Collects records into a table: the first record is the header, short records
+// are padded with nulls and extra fields are dropped.
+function csvTable(decimal: DecimalSeparator) {
+  let header: string[] | null = null;
+  const rows: RawValue[][] = [];
+  const onRecord = (rec: string[]) => {
+    if (!header) {
+      header = headerNames(rec);
+      return;
+    }
+    const row: RawValue[] = new Array(header.length);
+    for (let i = 0; i < header.length; i++) row[i] = rec[i] ?? null;
+    rows.push(row);
+  };
+  const finish = (): RawTable => (header && rows.length ? { columns: header, rows, decimal } : EMPTY_TABLE);
+  return { onRecord, finish };
+}
+
+// trimmed, non-empty and unique column names
+function headerNames(rec: string[]): string[] {
+  const seen = new Set<string>();
+  return rec.map((raw, i) => {
+    const base = raw.trim() || `column_${i + 1}`;
+    let name = base;
+    for (let k = 2; seen.has(name); k++) name = `${base}_${k}`;
+    seen.add(name);
+    return name;
+  });
+}
+
+export function parseCSV(text: string, options: CsvOptions = DEFAULT_CSV, schema: Schema = {}): DataFrame {
+  const table = csvTable(options.decimal);
+  const reader = new CsvReader(options.delimiter, table.onRecord);
+  reader.push(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+  reader.end();
+  return toDataFrame(table.finish(), schema);
+}
+
+// decodes and tokenizes the file in chunks, so the whole text never exists as one string
+export function readCSVBytes(
+  buf: ArrayBuffer,
+  options: CsvOptions = DEFAULT_CSV,
+  onProgress?: (done: number, total: number) => void
+): RawTable {
+  const bytes = new Uint8Array(buf);
+  const decoder = new TextDecoder(options.encoding); // drops a leading BOM
+  const table = csvTable(options.decimal);
+  const reader = new CsvReader(options.delimiter, table.onRecord);
+  for (let off = 0; off < bytes.length; off += CHUNK_BYTES) {
+    const end = Math.min(off + CHUNK_BYTES, bytes.length);
+    reader.push(decoder.decode(bytes.subarray(off, end), { stream: true }));
+    onProgress?.(end, bytes.length);
+  }
+  reader.push(decoder.decode());
+  reader.end();
+  return table.finish();
+}
+
+// the records in the first SNIFF_BYTES of a file
+export function previewCSV(buf: ArrayBuffer, options: CsvOptions): RawTable {
+  const head = new Uint8Array(buf, 0, Math.min(buf.byteLength, SNIFF_BYTES));
+  const records = readCsvText(decodeHead(head, options.encoding), options.delimiter);
+  if (buf.byteLength > SNIFF_BYTES && records.length > 2) records.pop(); // likely cut short
+  const table = csvTable(options.decimal);
+  records.forEach(table.onRecord);
+  return table.finish();
+}
+
+// ---------- XLSX Parsing (SheetJS) ----------
+export type SheetOptions = {
+  sheet?: string; // default: the first sheet
+  headerRow?: number; // 1-based; default: detected
+};
+
+const HEADER_SCAN_ROWS = 20;
+
+// The header is the first row, among the first few, whose cells are all text
+// and fill at least half as many columns as the widest row; titles and notes
+// above a table are skipped. Runs before merged cells are filled in, so a title
+// merged across the table still counts as one cell.
+function detectHeaderRow(grid: RawValue[][]): number {
+  const scan = grid.slice(0, HEADER_SCAN_ROWS);
+  const filled = scan.map((r) => r.filter((v) => v != null && v !== "").length);
+  const widest = Math.max(0, ...filled);
+  const i = scan.findIndex(
+    (r, k) => filled[k] >= Math.max(1, widest / 2) && r.every((v) => v == null || typeof v === "string")
+  );
+  return i >= 0 ? i : Math.max(0, filled.findIndex((n) => n > 0));
+}
+
+// cell values by row: date-formatted numbers become local dates, errors and
+// blanks null
+function sheetGrid(XLSX: any, ws: any, date1904: boolean): RawValue[][] {
+  if (!ws?.["!ref"]) return [];
+  const range = XLSX.utils.decode_range(ws["!ref"]);
+  const grid: RawValue[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: RawValue[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = ws[XLSX.utils.encode_cell({ r, c })];
+      let v: RawValue = null;
+      if (!cell) v = null;
+      else if (cell.t === "n") v = cell.z && XLSX.SSF.is_date(cell.z) ? excelSerialToDate(cell.v, date1904) : cell.v;
+      else if (cell.t === "d") v = cell.v instanceof Date ? cell.v : null;
+      else if (cell.t === "s" || cell.t === "str") v = cell.v;
+      else if (cell.t === "b") v = String(cell.v).toUpperCase();
+      row.push(v);
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
+export function readXLSX(buf: ArrayBuffer, options: SheetOptions = {}): RawTable {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const XLSX = require("xlsx");
+  const wb = XLSX.read(buf, { type: "array", cellNF: true });
+  const sheets: string[] = wb.SheetNames;
+  const sheet = options.sheet && sheets.includes(options.sheet) ? options.sheet : sheets[0];
+  const ws = wb.Sheets[sheet];
+
+  const grid = sheetGrid(XLSX, ws, !!wb.Workbook?.WBProps?.date1904);
+  const headerIdx = options.headerRow ? options.headerRow - 1 : detectHeaderRow(grid);
+  const source = { sheets, sheet, headerRow: headerIdx + 1 };
+  if (headerIdx >= grid.length) return { ...EMPTY_TABLE, source };
+
+  // every cell of a merged range takes the value of its top-left cell
+  const r0 = ws["!ref"] ? XLSX.utils.decode_range(ws["!ref"]).s : { r: 0, c: 0 };
+  for (const m of ws["!merges"] ?? []) {
+    const v = grid[m.s.r - r0.r]?.[m.s.c - r0.c] ?? null;
+    for (let r = m.s.r; r <= m.e.r; r++) {
+      for (let c = m.s.c; c <= m.e.c; c++) {
+        const row = grid[r - r0.r];
+        if (row && c - r0.c < row.length) row[c - r0.c] = v;
+      }
+    }
+  }
+
+  const columns = headerNames(
+    grid[headerIdx].map((v) => (v == null ? "" : v instanceof Date ? v.toISOString() : String(v)))
+  );
+  const rows = grid
+    .slice(headerIdx + 1)
+    .filter((r) => r.some((v) => v != null && v !== ""))
+    .map((r) => columns.map((_, i) => r[i] ?? null));
+  return { columns, rows, decimal: ".", source };
+}
+
+const PREVIEW_ROWS = 200;
+
+export type ReadOptions = { csv?: CsvOptions; sheet?: SheetOptions };
+
+// dispatch on the file extension; null for unsupported types
+export function readDataFile(
+  name: string,
+  buf: ArrayBuffer,
+  options: ReadOptions = {},
+  onProgress?: (done: number, total: number) => void
+): RawTable | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith(".csv")) return readCSVBytes(buf, options.csv, onProgress);
+  if (lower.endsWith(".xlsx") || lower.endsWith(".xls")) return readXLSX(buf, options.sheet);
+  return null;
+}
+
+export function parseDataFile(
+  name: string,
+  buf: ArrayBuffer,
+  options: ReadOptions = {},
+  schema: Schema = {},
+  onProgress?: (done: number, total: number) => void
+): DataFrame | null {
+  const table = readDataFile(name, buf, options, onProgress);
+  return table && toDataFrame(table, schema);
+}
+
+// the first rows of a file, to infer and edit its schema before loading it
+export function previewDataFile(name: string, buf: ArrayBuffer, options: ReadOptions = {}): RawTable | null {
+  if (options.csv && name.toLowerCase().endsWith(".csv")) return previewCSV(buf, options.csv);
+  const table = readDataFile(name, buf, options);
+  return table && { ...table, rows: table.rows.slice(0, PREVIEW_ROWS) };
+}
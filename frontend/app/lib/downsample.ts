@@ -0,0 +1,88 @@
+// Level-of-detail reduction for plotting long series. The chart draws a few
+// thousand points however many rows there are; models always see every row.
+//   lttb:          Largest-Triangle-Three-Buckets (Steinarsson, 2013), keeps
+//                  the points that shape the line
+//   minMaxBuckets: lowest and highest value per bucket, for envelopes (one
+//                  bucket per pixel column on a canvas)
+
+type Values = ArrayLike<number | null | undefined>;
+
+const finite = (v: number | null | undefined): v is number => typeof v === "number" && Number.isFinite(v);
+
+// indices (ascending, within [from, to)) of at most `threshold` finite points;
+// missing values are skipped
+export function lttb(values: Values, threshold: number, from = 0, to = values.length): number[] {
+  const idx: number[] = [];
+  for (let i = Math.max(0, from); i < Math.min(to, values.length); i++) if (finite(values[i])) idx.push(i);
+  const n = idx.length;
+  if (threshold >= n || threshold < 3) return idx;
+
+  const y = (k: number) => values[idx[k]] as number;
+  const out = [idx[0]];
+  const size = (n - 2) / (threshold - 2);
+  let a = 0;
+  for (let b = 0; b < threshold - 2; b++) {
+    // average of the next bucket is the third corner of the triangle
+    const nextStart = Math.floor((b + 1) * size) + 1;
+    const nextEnd = Math.min(Math.floor((b + 2) * size) + 1, n);
+    let avgX = 0;
+    let avgY = 0;
+    for (let k = nextStart; k < nextEnd; k++) {
+      avgX += idx[k];
+      avgY += y(k);
+    }
+    avgX /= nextEnd - nextStart;
+    avgY /= nextEnd - nextStart;
+
+    const ax = idx[a];
+    const ay = y(a);
+    let best = -1;
+    let bestArea = -1;
+    for (let k = Math.floor(b * size) + 1; k < Math.floor((b + 1) * size) + 1; k++) {
+      const area = Math.abs((ax - avgX) * (y(k) - ay) - (ax - idx[k]) * (avgY - ay));
+      if (area > bestArea) {
+        bestArea = area;
+        best = k;
+      }
+    }
+    out.push(idx[best]);
+    a = best;
+  }
+  out.push(idx[n - 1]);
+  return out;
+}
+
+// rows to plot for several series sharing one x axis: the union of each
+// series' LTTB points (budget split evenly) plus rows that must stay, such as
+// sparse markers
+export function downsampleRows(
+  series: Values[],
+  maxPoints: number,
+  from: number,
+  to: number,
+  keep: number[] = []
+): number[] {
+  if (to - from <= maxPoints) return Array.from({ length: Math.max(0, to - from) }, (_, k) => from + k);
+  const budget = Math.max(3, Math.floor(maxPoints / Math.max(1, series.length)));
+  const rows = new Set(keep.filter((i) => i >= from && i < to));
+  for (const values of series) for (const i of lttb(values, budget, from, to)) rows.add(i);
+  return [...rows].sort((a, b) => a - b);
+}
+
+export type Bucket = { min: number; max: number };
+
+// `buckets` equal slices of [from, to); a slice without finite values has
+// min = max = NaN
+export function minMaxBuckets(values: Values, buckets: number, from = 0, to = values.length): Bucket[] {
+  const out: Bucket[] = Array.from({ length: Math.max(0, buckets) }, () => ({ min: NaN, max: NaN }));
+  const span = to - from;
+  if (span <= 0 || !out.length) return out;
+  for (let i = Math.max(0, from); i < Math.min(to, values.length); i++) {
+    const v = values[i];
+    if (!finite(v)) continue;
+    const b = out[Math.min(out.length - 1, Math.floor(((i - from) * out.length) / span))];
+    if (!(v >= b.min)) b.min = v;
+    if (!(v <= b.max)) b.max = v;
+  }
+  return out;
+}
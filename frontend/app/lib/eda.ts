@@ -0,0 +1,312 @@
+// Exploratory statistics of a loaded DataFrame, to choose a target, lags and a
+// season length before modeling:
+//   - per-column summaries and missing counts
+//   - Pearson correlations between numeric columns, and of each column's past
+//     against the target: corr(x(t - l), target(t))
+//   - ACF / PACF of the target with the ±1.96/sqrt(n) white-noise bound
+//   - an STL-style decomposition into trend, seasonal and residual parts;
+//     centred moving averages stand in for STL's loess smoothers
+// Missing values are skipped pairwise throughout.
+
+import type { DataFrame } from "./data";
+import { inferCadenceMs, seasonLengthFor } from "./features";
+import type { ColumnType } from "./schema";
+
+export type EdaOptions = {
+  maxLag: number; // longest lag for ACF / PACF and lagged correlations
+  period: number | null; // season length to decompose with; null = detected
+};
+
+export const DEFAULT_EDA: EdaOptions = { maxLag: 30, period: null };
+
+const MAX_SUGGESTED_LAGS = 5;
+
+export type ColumnSummary = {
+  column: string;
+  type: ColumnType;
+  count: number; // non-missing cells
+  missing: number;
+  distinct: number;
+  numeric: { mean: number; sd: number; min: number; q1: number; median: number; q3: number; max: number } | null;
+  top: { value: string; count: number } | null; // most frequent level of a categorical column
+};
+
+export type Decomposition = {
+  period: number;
+  trend: number[];
+  seasonal: number[];
+  residual: number[];
+  // 1 - var(residual) / var(component + residual), floored at 0 (Hyndman & Athanasopoulos)
+  trendStrength: number;
+  seasonalStrength: number;
+};
+
+export type EdaReport = {
+  rows: number;
+  summaries: ColumnSummary[];
+  correlation: { columns: string[]; r: number[][] };
+  target: string | null;
+  lagged: { column: string; r: number[] }[]; // r[l] = corr(column(t - l), target(t))
+  acf: number[]; // acf[0] = 1
+  pacf: number[]; // pacf[0] = 1
+  bound: number; // 1.96 / sqrt(n)
+  suggestedLags: number[];
+  period: number | null;
+  decomposition: Decomposition | null;
+};
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function variance(values: number[]): number {
+  const finite = values.filter(isNum);
+  if (finite.length < 2) return NaN;
+  const m = finite.reduce((a, b) => a + b, 0) / finite.length;
+  return finite.reduce((a, v) => a + (v - m) ** 2, 0) / (finite.length - 1);
+}
+
+export function summarizeColumns(df: DataFrame): ColumnSummary[] {
+  return df.columns.map((column) => {
+    const cells = df.rows.map((r) => r[column]).filter((v) => v !== null && v !== undefined && v !== "");
+    const keys = cells.map((v) => (v instanceof Date ? v.toISOString() : String(v)));
+    const counts = new Map<string, number>();
+    for (const k of keys) counts.set(k, (counts.get(k) ?? 0) + 1);
+
+    let numeric: ColumnSummary["numeric"] = null;
+    const values = cells.filter(isNum).sort((a, b) => a - b);
+    if (df.numericCols.includes(column) && values.length) {
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      numeric = {
+        mean,
+        sd: Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length),
+        min: values[0],
+        q1: quantile(values, 0.25),
+        median: quantile(values, 0.5),
+        q3: quantile(values, 0.75),
+        max: values[values.length - 1],
+      };
+    }
+    let top: ColumnSummary["top"] = null;
+    if (df.categoricalCols.includes(column)) {
+      for (const [value, count] of counts) if (!top || count > top.count) top = { value, count };
+    }
+    return {
+      column,
+      type: df.schema[column]?.type ?? "categorical",
+      count: cells.length,
+      missing: df.rows.length - cells.length,
+      distinct: counts.size,
+      numeric,
+      top,
+    };
+  });
+}
+
+// Pearson correlation of the pairs where both are present; NaN with fewer than
+// 3 pairs or a constant side
+export function correlation(x: ArrayLike<number | null>, y: ArrayLike<number | null>, lag = 0): number {
+  let n = 0;
+  let sx = 0;
+  let sy = 0;
+  for (let t = lag; t < y.length; t++) {
+    const a = x[t - lag];
+    const b = y[t];
+    if (!isNum(a) || !isNum(b)) continue;
+    n++;
+    sx += a;
+    sy += b;
+  }
+  if (n < 3) return NaN;
+  const mx = sx / n;
+  const my = sy / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let t = lag; t < y.length; t++) {
+    const a = x[t - lag];
+    const b = y[t];
+    if (!isNum(a) || !isNum(b)) continue;
+    sxy += (a - mx) * (b - my);
+    sxx += (a - mx) ** 2;
+    syy += (b - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : NaN;
+}
+
+// sample autocorrelation, normalized by the lag-0 sum of squares (as in
+// statsmodels' acf)
+export function acf(values: (number | null)[], maxLag: number): number[] {
+  const finite = values.filter(isNum);
+  if (finite.length < 2) return [1];
+  const m = finite.reduce((a, b) => a + b, 0) / finite.length;
+  const d = values.map((v) => (isNum(v) ? v - m : null));
+  const denom = d.reduce<number>((a, v) => a + (v === null ? 0 : v * v), 0);
+  const out = [1];
+  for (let k = 1; k <= Math.min(maxLag, values.length - 1); k++) {
+    let s = 0;
+    for (let t = k; t < d.length; t++) {
+      const a = d[t];
+      const b = d[t - k];
+      if (a !== null && b !== null) s += a * b;
+    }
+    out.push(denom > 0 ? s / denom : 0);
+  }
+  return out;
+}
+
+// partial autocorrelation from the ACF (Durbin-Levinson recursion)
+export function pacf(r: number[]): number[] {
+  const out = [1];
+  let phi: number[] = [];
+  for (let k = 1; k < r.length; k++) {
+    let num = r[k];
+    let den = 1;
+    for (let j = 1; j < k; j++) {
+      num -= phi[j - 1] * r[k - j];
+      den -= phi[j - 1] * r[j];
+    }
+    const pk = den !== 0 ? num / den : 0;
+    phi = [...phi.map((p, j) => p - pk * phi[k - 2 - j]), pk];
+    out.push(pk);
+  }
+  return out;
+}
+
+// lags whose partial autocorrelation clears the bound, strongest first up to
+// MAX_SUGGESTED_LAGS, in lag order; at least lag 1
+export function suggestLags(p: number[], bound: number): number[] {
+  const lags = p
+    .map((v, k) => ({ k, v: Math.abs(v) }))
+    .filter(({ k, v }) => k > 0 && v > bound)
+    .sort((a, b) => b.v - a.v)
+    .slice(0, MAX_SUGGESTED_LAGS)
+    .map(({ k }) => k)
+    .sort((a, b) => a - b);
+  return lags.length ? lags : [1];
+}
+
+// the lag (>= 2) of the highest ACF peak above the bound; null when the ACF
+// has no significant peak
+export function detectPeriod(r: number[], bound: number): number | null {
+  let best: number | null = null;
+  for (let k = 2; k < r.length - 1; k++) {
+    if (r[k] > bound && r[k] > r[k - 1] && r[k] >= r[k + 1] && (best === null || r[k] > r[best])) best = k;
+  }
+  return best;
+}
+
+// centred moving average over `window` points (2 x m for even m); with
+// `partial`, whatever is present is averaged so the ends and gaps still get a
+// value, otherwise they are NaN
+function movingAverage(values: number[], window: number, partial: boolean): number[] {
+  const half = Math.floor(window / 2);
+  const even = window % 2 === 0;
+  return values.map((_, t) => {
+    let s = 0;
+    let w = 0;
+    for (let j = -half; j <= half; j++) {
+      const v = values[t + j];
+      if (!isNum(v)) {
+        if (partial) continue;
+        return NaN;
+      }
+      const weight = even && Math.abs(j) === half ? 0.5 : 1;
+      s += weight * v;
+      w += weight;
+    }
+    return w > 0 ? s / w : NaN;
+  });
+}
+
+// additive: value = trend + seasonal + residual. Two passes: the seasonal part
+// (mean detrended value per phase, centred on zero) is fitted against a strict
+// moving average, then the trend is refitted on the deseasonalized series,
+// ends included.
+export function decompose(values: (number | null)[], period: number): Decomposition {
+  const m = Math.max(1, Math.floor(period));
+  const v = values.map((x) => (isNum(x) ? x : NaN));
+  const trendWindow = m > 1 ? m : Math.min(7, v.length);
+  const seasonalOf = (trend: number[]) => {
+    if (m <= 1) return v.map(() => 0);
+    const sum = new Array<number>(m).fill(0);
+    const cnt = new Array<number>(m).fill(0);
+    v.forEach((x, t) => {
+      const d = x - trend[t];
+      if (isNum(d)) {
+        sum[t % m] += d;
+        cnt[t % m]++;
+      }
+    });
+    const phase = sum.map((s, i) => (cnt[i] ? s / cnt[i] : 0));
+    const mean = phase.reduce((a, b) => a + b, 0) / m;
+    return v.map((_, t) => phase[t % m] - mean);
+  };
+
+  const seasonal = seasonalOf(movingAverage(v, trendWindow, false));
+  const trend = movingAverage(
+    v.map((x, t) => x - seasonal[t]),
+    trendWindow,
+    true
+  );
+  const residual = v.map((x, t) => x - trend[t] - seasonal[t]);
+  const strength = (part: number[]) => {
+    const vr = variance(residual);
+    const vp = variance(part.map((p, t) => p + residual[t]));
+    return vp > 0 ? Math.max(0, 1 - vr / vp) : 0;
+  };
+  return {
+    period: m,
+    trend,
+    seasonal,
+    residual,
+    trendStrength: strength(trend),
+    seasonalStrength: m > 1 ? strength(seasonal) : 0,
+  };
+}
+
+export function exploreData(df: DataFrame, target: string | null, options: EdaOptions = DEFAULT_EDA): EdaReport {
+  const columnOf = (c: string) => df.rows.map((r) => (isNum(r[c]) ? (r[c] as number) : null));
+  const numeric = Object.fromEntries(df.numericCols.map((c) => [c, columnOf(c)]));
+  const r = df.numericCols.map((a) => df.numericCols.map((b) => (a === b ? 1 : correlation(numeric[a], numeric[b]))));
+
+  const y = target && numeric[target] ? numeric[target] : null;
+  const n = y ? y.filter(isNum).length : 0;
+  const maxLag = Math.max(1, Math.min(Math.floor(options.maxLag), Math.floor(n / 2)));
+  const bound = n > 0 ? 1.96 / Math.sqrt(n) : NaN;
+  const a = y ? acf(y, maxLag) : [];
+  const p = y ? pacf(a) : [];
+
+  let period = options.period && options.period > 1 ? Math.floor(options.period) : y ? detectPeriod(a, bound) : null;
+  if (!period && y && df.datetimeKey) {
+    const key = df.datetimeKey;
+    const dates = df.rows.map((row) => (row[key] instanceof Date ? (row[key] as Date) : null));
+    period = seasonLengthFor(inferCadenceMs(dates));
+  }
+  // a decomposition needs two full seasons
+  const decomposition = y && n >= 4 ? decompose(y, period && y.length >= 2 * period ? period : 1) : null;
+
+  return {
+    rows: df.rows.length,
+    summaries: summarizeColumns(df),
+    correlation: { columns: df.numericCols, r },
+    target: y ? target : null,
+    lagged: y
+      ? df.numericCols.map((c) => ({
+          column: c,
+          r: Array.from({ length: maxLag + 1 }, (_, l) => correlation(numeric[c], y, l)),
+        }))
+      : [],
+    acf: a,
+    pacf: p,
+    bound,
+    suggestedLags: y ? suggestLags(p, bound) : [],
+    period: period ?? null,
+    decomposition,
+  };
+}
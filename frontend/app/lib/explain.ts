@@ -0,0 +1,160 @@
+// Per-prediction explanations for tree models (CART, random forest, gradient
+// boosting):
+//   - the decision path: the split conditions a feature vector meets on its way
+//     to a leaf
+//   - exact TreeSHAP contributions (Lundberg et al. 2018, algorithm 2): with
+//     each split's training sizes as the background distribution, the
+//     contributions sum from the base value (the size-weighted mean leaf) to
+//     the prediction
+
+import type { CartNode, Model } from "./trees";
+
+export type PathStep = {
+  feature: number;
+  threshold: number;
+  value: number; // the vector's value of `feature`
+  left: boolean; // value <= threshold (a missing value goes right)
+  size: number; // training rows of the node reached
+};
+
+export type DecisionPath = { steps: PathStep[]; leaf: number; size: number };
+
+export type Explanation = {
+  base: number; // expected prediction over the training rows
+  contributions: number[]; // one per feature; base + sum = prediction
+  prediction: number;
+};
+
+// a tree ensemble as offset + sum of weight * tree
+export type TreeEnsemble = { trees: CartNode[]; weight: number; offset: number };
+
+export function treeEnsemble(m: Model): TreeEnsemble | null {
+  if (m.type === "cart") return { trees: [m.root], weight: 1, offset: 0 };
+  if (m.type === "forest") return { trees: m.trees, weight: 1 / Math.max(1, m.trees.length), offset: 0 };
+  if (m.type === "gbm") return { trees: m.trees, weight: m.learningRate, offset: m.base };
+  return null; // XGBoost trees stay inside the WASM module; other families have none
+}
+
+export function decisionPath(root: CartNode, x: number[]): DecisionPath {
+  const steps: PathStep[] = [];
+  let node = root;
+  while (node.kind === "split") {
+    const value = x[node.feature];
+    const left = value <= node.threshold;
+    const next = left ? node.left : node.right;
+    steps.push({ feature: node.feature, threshold: node.threshold, value, left, size: next.size });
+    node = next;
+  }
+  return { steps, leaf: node.value, size: node.size };
+}
+
+// size-weighted mean of the leaves: the prediction with no feature known
+export function expectedValue(node: CartNode): number {
+  if (node.kind === "leaf") return node.value;
+  const n = node.left.size + node.right.size;
+  if (n <= 0) return (expectedValue(node.left) + expectedValue(node.right)) / 2;
+  return (node.left.size * expectedValue(node.left) + node.right.size * expectedValue(node.right)) / n;
+}
+
+// one element of the feature path TreeSHAP keeps while descending
+type PathElement = { feature: number; zero: number; one: number; weight: number };
+
+function extendPath(path: PathElement[], zero: number, one: number, feature: number): PathElement[] {
+  const m = path.map((e) => ({ ...e }));
+  const l = m.length;
+  m.push({ feature, zero, one, weight: l === 0 ? 1 : 0 });
+  for (let i = l - 1; i >= 0; i--) {
+    m[i + 1].weight += (one * m[i].weight * (i + 1)) / (l + 1);
+    m[i].weight = (zero * m[i].weight * (l - i)) / (l + 1);
+  }
+  return m;
+}
+
+function unwindPath(path: PathElement[], i: number): PathElement[] {
+  const m = path.map((e) => ({ ...e }));
+  const l = m.length - 1;
+  const { one, zero } = m[i];
+  let n = m[l].weight;
+  for (let j = l - 1; j >= 0; j--) {
+    if (one !== 0) {
+      const t = m[j].weight;
+      m[j].weight = (n * (l + 1)) / ((j + 1) * one);
+      n = t - (m[j].weight * zero * (l - j)) / (l + 1);
+    } else {
+      m[j].weight = (m[j].weight * (l + 1)) / (zero * (l - j));
+    }
+  }
+  for (let j = i; j < l; j++) {
+    m[j].feature = m[j + 1].feature;
+    m[j].zero = m[j + 1].zero;
+    m[j].one = m[j + 1].one;
+  }
+  m.pop();
+  return m;
+}
+
+// total weight of the path with element i unwound, without building it
+function unwoundSum(path: PathElement[], i: number): number {
+  const l = path.length - 1;
+  const { one, zero } = path[i];
+  let n = path[l].weight;
+  let total = 0;
+  for (let j = l - 1; j >= 0; j--) {
+    if (one !== 0) {
+      const t = (n * (l + 1)) / ((j + 1) * one);
+      total += t;
+      n = path[j].weight - (t * zero * (l - j)) / (l + 1);
+    } else {
+      total += (path[j].weight * (l + 1)) / (zero * (l - j));
+    }
+  }
+  return total;
+}
+
+// SHAP values of one tree, added into `phi`
+export function treeShap(root: CartNode, x: number[], phi: number[]): void {
+  const recurse = (node: CartNode, path: PathElement[], zero: number, one: number, feature: number) => {
+    let m = extendPath(path, zero, one, feature);
+    if (node.kind === "leaf") {
+      for (let i = 1; i < m.length; i++) {
+        phi[m[i].feature] += unwoundSum(m, i) * (m[i].one - m[i].zero) * node.value;
+      }
+      return;
+    }
+    const [hot, cold] = x[node.feature] <= node.threshold ? [node.left, node.right] : [node.right, node.left];
+    let inZero = 1;
+    let inOne = 1;
+    // a feature split on again: undo its earlier entry so it counts once
+    const k = m.findIndex((e, i) => i > 0 && e.feature === node.feature);
+    if (k > 0) {
+      inZero = m[k].zero;
+      inOne = m[k].one;
+      m = unwindPath(m, k);
+    }
+    const n = node.left.size + node.right.size;
+    const share = (c: CartNode) => (n > 0 ? c.size / n : 0.5);
+    recurse(hot, m, inZero * share(hot), inOne, node.feature);
+    recurse(cold, m, inZero * share(cold), 0, node.feature);
+  };
+  recurse(root, [], 1, 1, -1);
+}
+
+export function explainTrees(ensemble: TreeEnsemble, x: number[]): Explanation {
+  const phi = new Array<number>(x.length).fill(0);
+  let base = ensemble.offset;
+  let prediction = ensemble.offset;
+  for (const tree of ensemble.trees) {
+    const p = new Array<number>(x.length).fill(0);
+    treeShap(tree, x, p);
+    for (let f = 0; f < x.length; f++) phi[f] += ensemble.weight * p[f];
+    base += ensemble.weight * expectedValue(tree);
+    prediction += ensemble.weight * decisionPath(tree, x).leaf;
+  }
+  return { base, contributions: phi, prediction };
+}
+
+// null for models without CART trees
+export function explainPrediction(m: Model, x: number[]): Explanation | null {
+  const ensemble = treeEnsemble(m);
+  return ensemble ? explainTrees(ensemble, x) : null;
+}
@@ -0,0 +1,176 @@
+// Results for download: the data with fitted values, backtest predictions,
+// residuals and forecasts as CSV / XLSX, and a run report (model configuration
+// and metrics) as JSON or a self-contained HTML page.
+
+import type { BacktestOptions, Metrics } from "./backtest";
+import { formatCsv } from "./csv";
+import type { DataFrame } from "./data";
+import type { FeatureConfig } from "./features";
+import type { Interval } from "./intervals";
+
+export type Cell = number | string | Date | null;
+export type ResultsTable = { columns: string[]; rows: Cell[][] };
+
+export type ResultsInput = {
+  df: DataFrame;
+  target: string;
+  fitted: { row: number; value: number }[]; // in-sample predictions, on the row they predict
+  backtest: { row: number; value: number }[]; // out-of-sample predictions, likewise
+  forecast: number[]; // t+1.. after the last row
+  futureLabels: string[]; // timestamps (or row numbers) of the forecast steps
+  bands: Interval[] | null;
+};
+
+// one row per data row, then one per forecast step; result columns are named
+// after the target ("sales_fitted") so they can't clash with data columns
+export function resultsTable(r: ResultsInput): ResultsTable {
+  const { df, target } = r;
+  const extra = ["fitted", "residual", "backtest", "backtest_residual", "forecast", "forecast_lower", "forecast_upper"];
+  const columns = [...df.columns, ...extra.map((e) => `${target}_${e}`)];
+  const n = df.rows.length;
+  const fitted = new Array<number | null>(n).fill(null);
+  const backtest = new Array<number | null>(n).fill(null);
+  for (const f of r.fitted) if (f.row < n) fitted[f.row] = f.value;
+  for (const b of r.backtest) if (b.row < n) backtest[b.row] = b.value;
+
+  const rows: Cell[][] = df.rows.map((row, i) => {
+    const actual = typeof row[target] === "number" ? (row[target] as number) : null;
+    const resid = (p: number | null) => (p != null && actual != null ? actual - p : null);
+    return [
+      ...df.columns.map((c) => row[c] ?? null),
+      fitted[i],
+      resid(fitted[i]),
+      backtest[i],
+      resid(backtest[i]),
+      null,
+      null,
+      null,
+    ];
+  });
+  r.forecast.forEach((v, k) => {
+    const row: Cell[] = df.columns.map((c) => (c === df.datetimeKey ? r.futureLabels[k] ?? null : null));
+    const band = r.bands?.[k];
+    rows.push([...row, null, null, null, null, v, band?.lower ?? null, band?.upper ?? null]);
+  });
+  return { columns, rows };
+}
+
+const text = (v: Cell) => (v instanceof Date ? v.toISOString() : v);
+
+export function resultsCsv(t: ResultsTable): string {
+  return formatCsv([t.columns, ...t.rows.map((r) => r.map(text))]);
+}
+
+// ---------- Run report ----------
+export type RunReport = {
+  app: string;
+  generatedAt: string; // ISO timestamp
+  source: string | null; // data file name(s)
+  data: { rows: number; columns: string[]; datetimeKey: string | null; preprocessing: unknown };
+  target: string;
+  features: FeatureConfig;
+  model: {
+    description: string;
+    family: string;
+    params: unknown;
+    nFeatures: number;
+    featureNames: string[];
+    trainingRows: number;
+    trainedAt: string;
+  } | null;
+  backtest: { options: BacktestOptions; folds: number; metrics: Record<string, Metrics> } | null;
+  forecast: {
+    mode: string;
+    coverage: number | null; // of the prediction intervals, if any
+    steps: { label: string; value: number; lower: number | null; upper: number | null }[];
+  } | null;
+};
+
+// Results sheet plus a "Report" sheet of the run report's settings and metrics.
+export function resultsXlsx(t: ResultsTable, report: RunReport | null): ArrayBuffer {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const XLSX = require("xlsx");
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([t.columns, ...t.rows], { cellDates: true }), "Results");
+  if (report) {
+    const kv = flatten(report).filter(([k]) => !k.startsWith("forecast.steps"));
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["setting", "value"], ...kv]), "Report");
+  }
+  return XLSX.write(wb, { type: "array", bookType: "xlsx" });
+}
+
+// "a.b.c" -> value pairs for nested objects; arrays of primitives joined
+function flatten(v: unknown, prefix = ""): [string, string | number | null][] {
+  if (v == null || typeof v !== "object") {
+    return [[prefix, typeof v === "number" || typeof v === "string" ? v : v == null ? null : String(v)]];
+  }
+  if (Array.isArray(v) && v.every((x) => x == null || typeof x !== "object")) {
+    return [[prefix, v.join(", ")]];
+  }
+  return Object.entries(v).flatMap(([k, x]) => flatten(x, prefix ? `${prefix}.${k}` : k));
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function htmlTable(head: string[], rows: (string | number | null)[][]): string {
+  const cell = (v: string | number | null) =>
+    escapeHtml(v == null ? "" : typeof v === "number" ? (Number.isFinite(v) ? String(+v.toFixed(6)) : "–") : v);
+  return (
+    `<table><thead><tr>${head.map((h) => `<th>${escapeHtml(h)}</th>`).join("")}</tr></thead><tbody>` +
+    rows.map((r) => `<tr>${r.map((v) => `<td>${cell(v)}</td>`).join("")}</tr>`).join("") +
+    "</tbody></table>"
+  );
+}
+
+// a single HTML file with no external resources; `chartSvg` is inlined as is
+export function reportHtml(report: RunReport, chartSvg: string | null): string {
+  const sections: string[] = [];
+  sections.push(
+    htmlTable(
+      ["setting", "value"],
+      flatten({ source: report.source, target: report.target, data: report.data, model: report.model }).filter(
+        ([k]) => k !== "model.featureNames"
+      )
+    )
+  );
+  if (chartSvg) sections.push(`<h2>Chart</h2><div class="chart">${chartSvg}</div>`);
+  if (report.backtest) {
+    const metrics = Object.entries(report.backtest.metrics);
+    sections.push(
+      `<h2>Backtest (${report.backtest.folds} folds)</h2>` +
+        htmlTable(
+          ["", "n", "MAE", "RMSE", "MAPE %", "sMAPE %", "R²"],
+          metrics.map(([name, m]) => [name, m.n, m.mae, m.rmse, m.mape, m.smape, m.r2])
+        )
+    );
+  }
+  if (report.forecast) {
+    sections.push(
+      `<h2>Forecast (${escapeHtml(report.forecast.mode)})</h2>` +
+        htmlTable(
+          ["step", "value", "lower", "upper"],
+          report.forecast.steps.map((s) => [s.label, s.value, s.lower, s.upper])
+        )
+    );
+  }
+  sections.push(`<h2>Features</h2><pre>${escapeHtml(JSON.stringify(report.features, null, 2))}</pre>`);
+  if (report.model) {
+    sections.push(`<p>${report.model.featureNames.map(escapeHtml).join(", ")}</p>`);
+  }
+
+  const title = `${report.target} forecast – ${report.generatedAt.slice(0, 10)}`;
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+body{font-family:system-ui,sans-serif;background:#0b0c10;color:#e8eaed;max-width:980px;margin:24px auto;padding:0 16px}
+h1,h2{font-weight:700}h2{font-size:18px;margin-top:28px;color:#9aa0a6}
+table{border-collapse:collapse;width:100%;font-size:13px}th,td{padding:4px 8px;border-bottom:1px solid #2b2f36;text-align:left}
+pre{background:#111316;padding:12px;border-radius:10px;overflow:auto}.chart svg{max-width:100%;height:auto}
+</style></head><body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(report.app)} · generated ${escapeHtml(report.generatedAt)}</p>
+${sections.join("\n")}
+</body></html>
+`;
+}
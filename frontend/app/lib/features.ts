@@ -0,0 +1,432 @@
+// Time-series feature engineering: lags, rolling statistics, differences and
+// calendar encodings of a DataFrame, turned into supervised X(t) -> y(t+h) rows.
+
+import type { DataFrame } from "./data";
+
+export type RollingStat = "mean" | "std" | "min" | "max";
+export type CalendarFeature = "weekday" | "month" | "hour" | "dayOfYear" | "holiday";
+export type CategoricalEncoding = "onehot" | "target";
+
+export type FeatureConfig = {
+  lags: number[]; // step lags for the target and every included exogenous series
+  rollingWindows: number[]; // window lengths (steps) for rolling statistics
+  rollingStats: RollingStat[];
+  diffs: number[]; // s(k) - s(k - d)
+  pctChanges: number[]; // s(k) / s(k - d) - 1
+  derivedOnExo: boolean; // rolling/diff/pct for exogenous series too (not only the target)
+  calendar: CalendarFeature[]; // cyclic sin/cos encodings + holiday flag (needs a datetime column)
+  holidays: string[]; // YYYY-MM-DD, local dates
+  excludeExo: string[]; // numeric and categorical columns left out of the feature vector
+  categoricalEncoding: CategoricalEncoding;
+};
+
+export const DEFAULT_FEATURES: FeatureConfig = {
+  lags: [1, 2, 3],
+  rollingWindows: [],
+  rollingStats: ["mean"],
+  diffs: [],
+  pctChanges: [],
+  derivedOnExo: false,
+  calendar: ["weekday", "month"],
+  holidays: [],
+  excludeExo: [],
+  categoricalEncoding: "onehot",
+};
+
+const MAX_ONEHOT_LEVELS = 20; // rarer levels encode as all zeros
+const TARGET_SMOOTHING = 10; // weight (in rows) of the overall mean in a target encoding
+
+// one column of the feature vector; `at` reads cells through getters so the
+// same spec serves observed rows and extrapolated future rows
+export type FeatureSpec = {
+  name: string;
+  lookback: number; // how many rows before t the feature reads
+  at: (
+    t: number,
+    num: (rowIdx: number, col: string) => number,
+    date: (rowIdx: number) => Date | null
+  ) => number;
+};
+
+function sincos(value: number, period: number) {
+  const angle = (2 * Math.PI * value) / period;
+  return { sin: Math.sin(angle), cos: Math.cos(angle) };
+}
+
+function getDateParts(d: Date) {
+  const w = d.getDay();   // 0..6
+  const m = d.getMonth(); // 0..11
+  const h = d.getHours() + d.getMinutes() / 60; // 0..24
+  const doy =
+    (Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) -
+      Date.UTC(d.getFullYear(), 0, 1)) /
+    86400000; // 0..365
+  return { weekday: w, month: m, hour: h, dayOfYear: doy };
+}
+
+function localDateKey(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+function rollingStat(vals: number[], stat: RollingStat): number {
+  if (vals.some((v) => !Number.isFinite(v))) return NaN;
+  if (stat === "min") return Math.min(...vals);
+  if (stat === "max") return Math.max(...vals);
+  const m = vals.reduce((a, b) => a + b, 0) / vals.length;
+  if (stat === "mean") return m;
+  return Math.sqrt(vals.reduce((a, v) => a + (v - m) * (v - m), 0) / vals.length);
+}
+
+// Numeric series derived from categorical columns, keyed by name: a 0/1
+// indicator per frequent level ("col=level"), or the target mean of the level
+// ("col_te"), smoothed toward the overall mean and taken over earlier rows only,
+// so a row never sees its own or later targets.
+export function encodeCategoricals(
+  df: DataFrame,
+  target: string,
+  columns: string[],
+  encoding: CategoricalEncoding
+): Map<string, number[]> {
+  const out = new Map<string, number[]>();
+  const N = df.rows.length;
+  for (const c of columns) {
+    const cat = (k: number) => {
+      const v = df.rows[k][c];
+      return v == null ? null : String(v);
+    };
+    if (encoding === "onehot") {
+      const counts = new Map<string, number>();
+      for (let k = 0; k < N; k++) {
+        const v = cat(k);
+        if (v !== null) counts.set(v, (counts.get(v) ?? 0) + 1);
+      }
+      const levels = [...counts.keys()]
+        .sort((a, b) => counts.get(b)! - counts.get(a)! || (a < b ? -1 : a > b ? 1 : 0))
+        .slice(0, MAX_ONEHOT_LEVELS);
+      for (const level of levels) {
+        out.set(
+          `${c}=${level}`,
+          df.rows.map((_, k) => (cat(k) === level ? 1 : 0))
+        );
+      }
+    } else {
+      const sum = new Map<string, number>();
+      const count = new Map<string, number>();
+      let total = 0;
+      let n = 0;
+      const te = new Array<number>(N);
+      for (let k = 0; k < N; k++) {
+        const v = cat(k);
+        const prior = n ? total / n : NaN;
+        te[k] =
+          v === null
+            ? prior
+            : ((sum.get(v) ?? 0) + TARGET_SMOOTHING * prior) / ((count.get(v) ?? 0) + TARGET_SMOOTHING);
+        const y = df.rows[k][target];
+        if (typeof y !== "number" || !Number.isFinite(y)) continue;
+        total += y;
+        n++;
+        if (v !== null) {
+          sum.set(v, (sum.get(v) ?? 0) + y);
+          count.set(v, (count.get(v) ?? 0) + 1);
+        }
+      }
+      out.set(`${c}_te`, te);
+    }
+  }
+  return out;
+}
+
+// Feature layout for predicting target(t+h) from row t:
+//   exo(t), encoded categoricals(t), lags, rolling stats, diffs, pct changes, calendar.
+// The target's own value at t is never used (its latest input is t-1), while
+// exogenous series are read up to t.
+export function buildFeatureSpecs(
+  target: string,
+  exo: string[],
+  hasDatetime: boolean,
+  cfg: FeatureConfig,
+  encoded: string[] = [] // names of encodeCategoricals series
+): FeatureSpec[] {
+  const specs: FeatureSpec[] = [];
+  const lastOf = (s: string) => (s === target ? 1 : 0); // offset of the latest usable row
+
+  // base: current-time exogenous features (t)
+  for (const s of exo) specs.push({ name: `${s}(t)`, lookback: 0, at: (t, num) => num(t, s) });
+  for (const s of encoded) specs.push({ name: `${s}(t)`, lookback: 0, at: (t, num) => num(t, s) });
+
+  // lags for target and all exogenous
+  for (const l of cfg.lags) {
+    specs.push({ name: `${target}(t-${l})`, lookback: l, at: (t, num) => num(t - l, target) });
+    for (const s of exo) {
+      specs.push({ name: `${s}(t-${l})`, lookback: l, at: (t, num) => num(t - l, s) });
+    }
+  }
+
+  const derived = cfg.derivedOnExo ? [target, ...exo] : [target];
+  for (const s of derived) {
+    const o = lastOf(s);
+    for (const w of cfg.rollingWindows) {
+      for (const stat of cfg.rollingStats) {
+        specs.push({
+          name: `${s}_roll_${stat}(${w})`,
+          lookback: o + w - 1,
+          at: (t, num) =>
+            rollingStat(
+              Array.from({ length: w }, (_, i) => num(t - o - i, s)),
+              stat
+            ),
+        });
+      }
+    }
+    for (const d of cfg.diffs) {
+      specs.push({
+        name: `${s}_diff(${d})`,
+        lookback: o + d,
+        at: (t, num) => num(t - o, s) - num(t - o - d, s),
+      });
+    }
+    for (const d of cfg.pctChanges) {
+      specs.push({
+        name: `${s}_pct(${d})`,
+        lookback: o + d,
+        at: (t, num) => {
+          const prev = num(t - o - d, s);
+          return prev === 0 ? NaN : num(t - o, s) / prev - 1;
+        },
+      });
+    }
+  }
+
+  // datetime cyclic features (0 when the timestamp is missing)
+  if (hasDatetime) {
+    const cyclic = (
+      name: string,
+      part: (p: ReturnType<typeof getDateParts>) => number,
+      period: number
+    ) => {
+      const read = (dv: Date | null) => (dv ? sincos(part(getDateParts(dv)), period) : null);
+      specs.push({ name: `${name}_sin`, lookback: 0, at: (t, _n, date) => read(date(t))?.sin ?? 0 });
+      specs.push({ name: `${name}_cos`, lookback: 0, at: (t, _n, date) => read(date(t))?.cos ?? 0 });
+    };
+    if (cfg.calendar.includes("weekday")) cyclic("dow", (p) => p.weekday, 7);
+    if (cfg.calendar.includes("month")) cyclic("mon", (p) => p.month, 12);
+    if (cfg.calendar.includes("hour")) cyclic("hour", (p) => p.hour, 24);
+    if (cfg.calendar.includes("dayOfYear")) cyclic("doy", (p) => p.dayOfYear, 365.25);
+    if (cfg.calendar.includes("holiday")) {
+      const days = new Set(cfg.holidays);
+      specs.push({
+        name: "holiday",
+        lookback: 0,
+        at: (t, _n, date) => {
+          const dv = date(t);
+          return dv && days.has(localDateKey(dv)) ? 1 : 0;
+        },
+      });
+    }
+  }
+
+  return specs;
+}
+
+// median gap (ms) between consecutive timestamps; null if it can't be inferred
+export function inferCadenceMs(dates: (Date | null)[]): number | null {
+  const gaps: number[] = [];
+  for (let i = 1; i < dates.length; i++) {
+    const a = dates[i - 1];
+    const b = dates[i];
+    if (!a || !b) continue;
+    const g = +b - +a;
+    if (Number.isFinite(g) && g > 0) gaps.push(g);
+  }
+  if (!gaps.length) return null;
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)];
+}
+
+// natural seasonal period (in steps) for a sampling cadence
+export function seasonLengthFor(cadenceMs: number | null): number | null {
+  if (!cadenceMs) return null;
+  const HOUR = 3600 * 1000;
+  const DAY = 24 * HOUR;
+  const near = (unit: number) => Math.abs(cadenceMs - unit) / unit < 0.1;
+  if (near(HOUR)) return 24; // hourly -> daily cycle
+  if (near(DAY)) return 7; // daily -> weekly cycle
+  if (near(7 * DAY)) return 52; // weekly -> yearly cycle
+  if (cadenceMs > 27 * DAY && cadenceMs < 32 * DAY) return 12; // monthly -> yearly
+  if (cadenceMs > 88 * DAY && cadenceMs < 93 * DAY) return 4; // quarterly -> yearly
+  return null;
+}
+
+
+// supervised rows for horizon h; t[i] is the feature row of sample i
+export type Dataset = {
+  X: number[][];
+  y: number[];
+  t: number[];
+  skipped: number; // rows left out for a missing feature or target value
+};
+
+// data rows [start, end], inclusive: e.g. a training window picked on the chart
+export type RowWindow = { start: number; end: number };
+
+// the samples of `d` (built for horizon h) whose target row t + h lies in `window`
+export function selectRows(d: Dataset, window: RowWindow, h = 1): Dataset {
+  const keep = d.t.map((t, i) => (t + h >= window.start && t + h <= window.end ? i : -1)).filter((i) => i >= 0);
+  return { X: keep.map((i) => d.X[i]), y: keep.map((i) => d.y[i]), t: keep.map((i) => d.t[i]), skipped: d.skipped };
+}
+
+// values of exogenous series on future rows: entry k - 1 is the row of the
+// k-step-ahead forecast; null (or a missing entry) repeats the previous value
+export type FutureValues = Record<string, (number | null)[]>;
+
+export type FeatureSet = {
+  targetSeries: number[];
+  seasonLength: number | null;
+  featNames: string[];
+  makeNextX: () => number[];
+  buildDataset: (h: number) => Dataset;
+  forecastRecursive: (predict: (x: number[]) => number, H: number, scenario?: FutureValues) => number[];
+  futureLabels: (H: number) => string[];
+  maxLag: number;
+};
+
+export const EMPTY_FEATURE_SET: FeatureSet = {
+  targetSeries: [],
+  seasonLength: null,
+  featNames: [],
+  makeNextX: () => [],
+  buildDataset: () => ({ X: [], y: [], t: [], skipped: 0 }),
+  forecastRecursive: () => [],
+  futureLabels: () => [],
+  maxLag: 0,
+};
+
+// Build multivariate time-series features X(t) -> y(t+h) for `target`. Feature
+// rows are only materialised by buildDataset (cached per horizon), so the UI
+// can describe and forecast from a feature set without building the matrix.
+export function buildFeatures(df: DataFrame, target: string, features: FeatureConfig): FeatureSet {
+  const datetimeKey = df.datetimeKey;
+  const allSeries = df.numericCols;
+  const exo = allSeries.filter(
+    (c) => c !== target && !features.excludeExo.includes(c)
+  ); // exogenous series
+  const categorical = df.categoricalCols.filter((c) => !features.excludeExo.includes(c));
+  const encoded = encodeCategoricals(df, target, categorical, features.categoricalEncoding);
+  const encodedCols = [...encoded.keys()];
+
+  const specs = buildFeatureSpecs(target, exo, !!datetimeKey, features, encodedCols);
+  const featNames = specs.map((f) => f.name);
+
+  const maxLag = Math.max(0, ...specs.map((f) => f.lookback));
+  const N = df.rows.length;
+
+  // helper to read a numeric cell or encoded categorical (or NaN)
+  const getNum = (rowIdx: number, col: string): number => {
+    const enc = encoded.get(col);
+    if (enc) return enc[rowIdx] ?? NaN;
+    return typeof df.rows[rowIdx]?.[col] === "number" ? (df.rows[rowIdx][col] as number) : NaN;
+  };
+
+  const getDate = (rowIdx: number): Date | null => {
+    if (!datetimeKey) return null;
+    const dv = df.rows[rowIdx]?.[datetimeKey];
+    return dv instanceof Date && !isNaN(+dv) ? dv : null;
+  };
+
+  // compose feature vector for an index t (predicting y at t+1) from any cell source
+  const makeXFrom = (
+    t: number,
+    num: (rowIdx: number, col: string) => number,
+    date: (rowIdx: number) => Date | null
+  ): number[] => specs.map((f) => f.at(t, num, date));
+
+  const makeXAt = (t: number): number[] => makeXFrom(t, getNum, getDate);
+
+  // Build dataset for horizon h: use rows [maxLag .. N-1-h] as feature rows (predict y at t+h)
+  const datasets = new Map<number, Dataset>();
+  const buildDataset = (h: number): Dataset => {
+    const cached = datasets.get(h);
+    if (cached) return cached;
+    const X: number[][] = [];
+    const y: number[] = [];
+    const ts: number[] = []; // feature row index t of each sample
+    let skipped = 0;
+    for (let t = maxLag; t <= N - 1 - h; t++) {
+      const x = makeXAt(t);
+      const yAhead = getNum(t + h, target);
+      // drop rows with NaN
+      if (x.some((v) => !Number.isFinite(v)) || !Number.isFinite(yAhead)) {
+        skipped++;
+        continue;
+      }
+      X.push(x);
+      y.push(yAhead);
+      ts.push(t);
+    }
+    const d = { X, y, t: ts, skipped };
+    datasets.set(h, d);
+    return d;
+  };
+
+  const targetSeries = df.rows.map((_, i) => getNum(i, target));
+
+  // build "next" feature for prediction at N (use last available t = N-1)
+  const makeNextX = (): number[] => makeXAt(N - 1);
+
+  // future timestamps continue the series at its median cadence
+  const cadence = datetimeKey
+    ? inferCadenceMs(df.rows.map((_, i) => getDate(i)))
+    : null;
+  const seasonLength = seasonLengthFor(cadence);
+  const lastDate = getDate(N - 1);
+  const futureDate = (k: number): Date | null =>
+    lastDate && cadence ? new Date(+lastDate + k * cadence) : null;
+
+  const futureLabels = (H: number): string[] =>
+    Array.from({ length: H }, (_, i) => {
+      const d = futureDate(i + 1);
+      return d ? d.toISOString() : String(N + i + 1);
+    });
+
+  // recursive multi-step forecast: each prediction becomes the target value of a
+  // virtual row. Exogenous series take their `scenario` values there, if given;
+  // otherwise they and the categoricals are held at their last observed value.
+  const held = [...exo, ...encodedCols];
+  const forecastRecursive = (predict: (x: number[]) => number, H: number, scenario: FutureValues = {}): number[] => {
+    const future: Record<string, number[]> = { [target]: [] };
+    for (const s of held) future[s] = [];
+
+    const num = (rowIdx: number, col: string): number =>
+      rowIdx < N ? getNum(rowIdx, col) : future[col][rowIdx - N] ?? NaN;
+    const date = (rowIdx: number): Date | null =>
+      rowIdx < N ? getDate(rowIdx) : futureDate(rowIdx - N + 1);
+
+    const out: number[] = [];
+    for (let h = 1; h <= H; h++) {
+      const x = makeXFrom(N - 2 + h, num, date);
+      if (x.some((v) => !Number.isFinite(v))) break;
+      const yhat = predict(x);
+      out.push(yhat);
+      future[target].push(yhat);
+      for (const s of held) {
+        const v = scenario[s]?.[h - 1];
+        future[s].push(typeof v === "number" && Number.isFinite(v) ? v : future[s][h - 2] ?? getNum(N - 1, s));
+      }
+    }
+    return out;
+  };
+
+  return {
+    targetSeries,
+    seasonLength,
+    featNames,
+    makeNextX,
+    buildDataset,
+    forecastRecursive,
+    futureLabels,
+    maxLag,
+  };
+}
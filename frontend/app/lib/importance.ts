@@ -0,0 +1,49 @@
+// Model-agnostic permutation importance: how much the held-out error grows when
+// one feature column is shuffled (breaking its link to the target).
+
+import type { Predictor } from "./backtest";
+
+export type PermutationOptions = {
+  repeats: number; // shuffles per feature, averaged
+  rand: () => number;
+};
+
+function mse(actual: number[], predicted: number[]): number {
+  let s = 0;
+  for (let i = 0; i < actual.length; i++) s += (actual[i] - predicted[i]) ** 2;
+  return s / Math.max(1, actual.length);
+}
+
+// returns the mean increase in MSE per feature (can be slightly negative for useless features)
+export function permutationImportance(
+  model: Predictor,
+  X: number[][],
+  y: number[],
+  opts: PermutationOptions = { repeats: 3, rand: Math.random },
+  onFeature?: (done: number, total: number) => void
+): { baseline: number; importance: number[] } {
+  const nFeat = X[0]?.length ?? 0;
+  const baseline = mse(y, model.predictBatch(X));
+  const importance = new Array(nFeat).fill(0);
+
+  for (let f = 0; f < nFeat; f++) {
+    for (let r = 0; r < opts.repeats; r++) {
+      // Fisher-Yates over the column only
+      const col = X.map((row) => row[f]);
+      for (let i = col.length - 1; i > 0; i--) {
+        const j = Math.floor(opts.rand() * (i + 1));
+        [col[i], col[j]] = [col[j], col[i]];
+      }
+      const Xp = X.map((row, i) => {
+        const copy = row.slice();
+        copy[f] = col[i];
+        return copy;
+      });
+      importance[f] += mse(y, model.predictBatch(Xp)) - baseline;
+    }
+    importance[f] /= Math.max(1, opts.repeats);
+    onFeature?.(f + 1, nFeat);
+  }
+
+  return { baseline, importance };
+}
@@ -0,0 +1,36 @@
+// The ML core as one importable API: data loading, preprocessing, features,
+// models, evaluation and the job runner. None of it depends on React, React
+// Native or the DOM, so a Node script or a worker can use it directly:
+//
+//   import { parseCSV, buildFeatures, DEFAULT_FEATURES, fitCART } from "./lib";
+//   const df = parseCSV(fs.readFileSync("data.csv", "utf8"));
+//   const feats = buildFeatures(df, "item_a", DEFAULT_FEATURES);
+//   const { X, y } = feats.buildDataset(1);
+//   const next = fitCART(X, y).predictBatch([feats.makeNextX()])[0];
+//
+// Browser-only helpers stay out: chart images (lib/chartImage.ts) and the
+// worker client (lib/mlClient.ts).
+
+export * from "./anomaly";
+export * from "./backtest";
+export * from "./batch";
+export * from "./classical";
+export * from "./classify";
+export * from "./csv";
+export * from "./data";
+export * from "./eda";
+export * from "./explain";
+export * from "./export";
+export * from "./features";
+export * from "./importance";
+export * from "./intervals";
+export * from "./jobs";
+export * from "./join";
+export * from "./linear";
+export * from "./modelFile";
+export * from "./preprocess";
+export * from "./scenario";
+export * from "./schema";
+export * from "./trees";
+export * from "./tuning";
+export * from "./xgboost";
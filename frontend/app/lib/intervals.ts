@@ -0,0 +1,31 @@
+// Split-conformal prediction intervals from out-of-sample residuals.
+// Given n calibration scores |y - ŷ| the interval ŷ ± q, with q the
+// ceil((n + 1) * coverage)-th smallest score, covers a new point with
+// probability >= coverage when residuals are exchangeable.
+
+export type Interval = { lower: number; upper: number };
+
+export function conformalQuantile(absResiduals: number[], coverage: number): number {
+  const scores = absResiduals.filter((r) => Number.isFinite(r)).sort((a, b) => a - b);
+  const n = scores.length;
+  if (!n) return NaN;
+  const k = Math.ceil((n + 1) * coverage);
+  // too few calibration points for this coverage: the interval is unbounded
+  if (k > n) return Infinity;
+  return scores[Math.max(0, k - 1)];
+}
+
+// Calibration residuals are one step ahead; for step h the half-width is
+// scaled by sqrt(h), the error growth of a random walk.
+export function conformalIntervals(
+  path: number[],
+  absResiduals: number[],
+  coverage: number,
+  widen: (h: number) => number = Math.sqrt
+): Interval[] {
+  const q = conformalQuantile(absResiduals, coverage);
+  return path.map((v, i) => {
+    const w = q * widen(i + 1);
+    return { lower: v - w, upper: v + w };
+  });
+}
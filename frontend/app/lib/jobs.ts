@@ -0,0 +1,403 @@
+// Long-running ML work (parsing, feature building, training, evaluation) as
+// plain-data jobs. runJob only touches its JobState, so the same code runs in
+// the ML worker (lib/ml.worker.ts) and, where workers are unavailable, on the
+// main thread.
+
+import { AnomalyOptions, AnomalyResult, flagAnomalies, outOfFoldPredictions } from "./anomaly";
+import {
+  backtest,
+  BacktestOptions,
+  BacktestResult,
+  Metrics,
+  naiveForecast,
+  seasonalNaiveForecast,
+  walkForwardFolds,
+} from "./backtest";
+import { BatchOptions, BatchResult, forecastAll } from "./batch";
+import { featuresForFamily } from "./classical";
+import {
+  classBacktest,
+  ClassBacktestResult,
+  classDataset,
+  ClassifierFamily,
+  ClassifierParams,
+  ClassTarget,
+  fitClassifier,
+} from "./classify";
+import { DataFrame, parseDataFile, previewDataFile, RawTable, ReadOptions } from "./data";
+import { EdaOptions, EdaReport, exploreData } from "./eda";
+import { buildFeatures, FeatureConfig, FeatureSet, RowWindow, selectRows } from "./features";
+import { permutationImportance } from "./importance";
+import {
+  cartSearchSpace,
+  CartParams,
+  fitCART,
+  fitModel,
+  Model,
+  ModelFamily,
+  mulberry32,
+  Progress,
+  restoreModel,
+  SerializedModel,
+  serializeModel,
+  TrainParams,
+} from "./trees";
+import type { Schema } from "./schema";
+import { gridCandidates, randomCandidates, tune, TuneResult } from "./tuning";
+import type { XGBoostBackend } from "./xgboost";
+
+const MIN_TRAIN_ROWS = 20;
+
+type FeatureRequest = { target: string; features: FeatureConfig };
+
+export type Job =
+  | { type: "preview"; name: string; bytes: ArrayBuffer; read?: ReadOptions }
+  | { type: "parse"; name: string; bytes: ArrayBuffer; read?: ReadOptions; schema?: Schema }
+  | { type: "eda"; target: string | null; options: EdaOptions }
+  | (FeatureRequest & {
+      type: "train";
+      family: ModelFamily;
+      params: TrainParams;
+      directSteps: number; // > 0: also fit one model per step t+2..t+directSteps
+      window?: RowWindow | null; // fit only on samples whose target row lies in this window
+    })
+  | (FeatureRequest & { type: "backtest"; family: ModelFamily; params: TrainParams; options: BacktestOptions })
+  | (FeatureRequest & { type: "tune"; mode: "grid" | "random"; trials: number; options: BacktestOptions })
+  | (FeatureRequest & { type: "permutation"; family: ModelFamily; params: TrainParams; testFraction: number })
+  | (FeatureRequest & { type: "anomalies"; family: ModelFamily; params: TrainParams; options: AnomalyOptions })
+  | { type: "batch"; features: FeatureConfig; family: ModelFamily; params: TrainParams; options: BatchOptions }
+  | (FeatureRequest & { type: "leaderboard"; families: ModelFamily[]; params: TrainParams; options: BacktestOptions })
+  | {
+      type: "classify";
+      target: ClassTarget;
+      features: FeatureConfig;
+      family: ClassifierFamily;
+      params: ClassifierParams;
+      options: BacktestOptions;
+    };
+
+export type JobType = Job["type"];
+export type JobOf<T extends JobType> = Extract<Job, { type: T }>;
+
+// t[i] is the feature row of X row i, to place out-of-sample points on the chart
+export type BacktestRun = BacktestResult & { t: number[] };
+
+// best (lowest walk-forward RMSE) first
+export type LeaderboardEntry = { family: ModelFamily; metrics: Metrics; nFeatures: number };
+export type Leaderboard = { entries: LeaderboardEntry[]; rows: number };
+
+// walk-forward scores, then a model fit on every row predicts the next step
+export type ClassifyRun = {
+  classes: string[];
+  backtest: ClassBacktestResult;
+  next: number[] | null; // class probabilities after the last row; null if its features are incomplete
+  rows: number;
+  skipped: number;
+};
+
+export type JobResult = {
+  preview: RawTable;
+  parse: DataFrame;
+  eda: EdaReport;
+  train: { model: Model; direct: Model[]; rows: number; skipped: number };
+  backtest: BacktestRun;
+  tune: TuneResult<CartParams>;
+  permutation: { importance: number[]; heldOut: number };
+  anomalies: AnomalyResult;
+  batch: BatchResult;
+  leaderboard: Leaderboard;
+  classify: ClassifyRun;
+};
+
+// the dataset jobs run on, plus the feature set of the last request
+export type JobState = {
+  df: DataFrame | null;
+  features: { key: string; set: FeatureSet } | null;
+};
+
+export function createJobState(): JobState {
+  return { df: null, features: null };
+}
+
+export function setData(state: JobState, df: DataFrame | null) {
+  state.df = df;
+  state.features = null;
+}
+
+function featuresFor(state: JobState, req: FeatureRequest): FeatureSet {
+  if (!state.df) throw new Error("no dataset loaded.");
+  const key = JSON.stringify([req.target, req.features]);
+  if (state.features?.key !== key) {
+    state.features = { key, set: buildFeatures(state.df, req.target, req.features) };
+  }
+  return state.features.set;
+}
+
+// `xgb` is only available where the WASM module lives (the main thread)
+export function runJob<T extends JobType>(
+  state: JobState,
+  job: JobOf<T>,
+  xgb: XGBoostBackend | null,
+  onProgress: Progress
+): JobResult[T] {
+  const j = job as Job;
+  let out: JobResult[JobType];
+  switch (j.type) {
+    case "preview": {
+      const table = previewDataFile(j.name, j.bytes, j.read);
+      if (!table) throw new Error("unsupported file type.");
+      out = table;
+      break;
+    }
+    case "parse": {
+      const df = parseDataFile(j.name, j.bytes, j.read, j.schema, onProgress);
+      if (!df) throw new Error("unsupported file type.");
+      setData(state, df);
+      out = df;
+      break;
+    }
+    case "eda": {
+      if (!state.df) throw new Error("no dataset loaded.");
+      out = exploreData(state.df, j.target, j.options);
+      break;
+    }
+    case "train": {
+      const fs = featuresFor(state, j);
+      const dataset = (h: number) => (j.window ? selectRows(fs.buildDataset(h), j.window, h) : fs.buildDataset(h));
+      const { X, y, skipped } = dataset(1);
+      if (X.length < MIN_TRAIN_ROWS) {
+        const where = j.window ? " in the training window" : "";
+        throw new Error(`not enough rows to train${where} (need >= ${MIN_TRAIN_ROWS} after cleaning).`);
+      }
+      const steps = Math.max(1, j.directSteps);
+      const model = fitModel(j.family, X, y, j.params, xgb, (d, t) => onProgress(d / t, steps));
+      onProgress(1, steps);
+      // one model per step ahead; stop where the shifted target runs out of rows
+      const direct: Model[] = j.directSteps > 0 ? [model] : [];
+      for (let h = 2; h <= j.directSteps; h++) {
+        const d = dataset(h);
+        if (d.X.length < MIN_TRAIN_ROWS) break;
+        direct.push(fitModel(j.family, d.X, d.y, j.params, xgb, (k, t) => onProgress(h - 1 + k / t, steps)));
+        onProgress(h, steps);
+      }
+      out = { model, direct, rows: X.length, skipped };
+      break;
+    }
+    case "backtest": {
+      const { targetSeries, seasonLength, buildDataset } = featuresFor(state, j);
+      const { X, y, t } = buildDataset(1);
+      const baselines = {
+        naive: naiveForecast(targetSeries, t),
+        seasonal: seasonLength ? seasonalNaiveForecast(targetSeries, t, seasonLength) : null,
+      };
+      const nFolds = walkForwardFolds(y.length, j.options).length;
+      let fold = 0;
+      const res = backtest(
+        X,
+        y,
+        (XX, yy) => fitModel(j.family, XX, yy, j.params, xgb, (d, total) => onProgress(fold + d / total, nFolds)),
+        baselines,
+        j.options,
+        (done) => {
+          fold = done;
+          onProgress(done, nFolds);
+        }
+      );
+      if (!res.folds.length) {
+        throw new Error(`not enough rows (each fold needs >= ${j.options.minTrain} training rows).`);
+      }
+      out = { ...res, t };
+      break;
+    }
+    case "tune": {
+      // CART hyperparameters scored by walk-forward CV error
+      const { X, y } = featuresFor(state, j).buildDataset(1);
+      const space = cartSearchSpace(y);
+      const candidates =
+        j.mode === "grid" ? gridCandidates(space) : randomCandidates(space, j.trials, mulberry32(7));
+      const noBaselines = { naive: y.map(() => NaN), seasonal: null };
+      const res = tune(
+        candidates,
+        (p) => backtest(X, y, (XX, yy) => fitCART(XX, yy, p), noBaselines, j.options).model.rmse,
+        onProgress
+      );
+      if (!res) throw new Error("not enough rows for walk-forward cross-validation.");
+      out = res;
+      break;
+    }
+    case "permutation": {
+      // refit on the older rows, then shuffle each feature on the held-out recent rows
+      const { X, y } = featuresFor(state, j).buildDataset(1);
+      const cut = Math.floor(X.length * (1 - j.testFraction));
+      if (cut < MIN_TRAIN_ROWS || X.length - cut < 5) {
+        throw new Error("not enough rows to hold out data for permutation importance.");
+      }
+      const holdoutModel = fitModel(j.family, X.slice(0, cut), y.slice(0, cut), j.params, xgb, (d, t) =>
+        onProgress(d / t, 2)
+      );
+      const { importance } = permutationImportance(
+        holdoutModel,
+        X.slice(cut),
+        y.slice(cut),
+        { repeats: 3, rand: mulberry32(11) },
+        (d, t) => onProgress(1 + d / t, 2)
+      );
+      out = { importance, heldOut: X.length - cut };
+      break;
+    }
+    case "anomalies": {
+      // the target first, then (scope "all") every other numeric series as its
+      // own target; series too short to fit are left out
+      const df = state.df;
+      if (!df) throw new Error("no dataset loaded.");
+      const series =
+        j.options.scope === "all" ? [j.target, ...df.numericCols.filter((c) => c !== j.target)] : [j.target];
+      const res: AnomalyResult = { threshold: j.options.threshold, scored: {}, anomalies: [] };
+      series.forEach((s, k) => {
+        const fs = s === j.target ? featuresFor(state, j) : buildFeatures(df, s, j.features);
+        const { X, y, t } = fs.buildDataset(1);
+        if (X.length < MIN_TRAIN_ROWS) {
+          if (s === j.target) throw new Error(`not enough rows to score (need >= ${MIN_TRAIN_ROWS} after cleaning).`);
+          return;
+        }
+        let fold = 0;
+        const pred = outOfFoldPredictions(
+          X,
+          y,
+          (XX, yy) =>
+            fitModel(j.family, XX, yy, j.params, xgb, (d, total) =>
+              onProgress(k + (fold + d / total) / j.options.folds, series.length)
+            ),
+          j.options.folds,
+          (done) => {
+            fold = done;
+          }
+        );
+        // X row i predicts the value on data row t[i] + 1
+        const rows = t.map((ti) => ti + 1);
+        res.scored[s] = pred.filter(Number.isFinite).length;
+        res.anomalies.push(...flagAnomalies(s, rows, y, pred, j.options.threshold));
+        onProgress(k + 1, series.length);
+      });
+      out = res;
+      break;
+    }
+    case "leaderboard": {
+      // Each family is backtested on its own feature rows (classical models read
+      // a window of the target), restricted to the time steps every family has,
+      // so all are scored on the same test rows.
+      const df = state.df;
+      if (!df) throw new Error("no dataset loaded.");
+      const columns = [...df.numericCols, ...df.categoricalCols];
+      const sets = j.families.map((f) => {
+        const cfg = featuresForFamily(f, j.features, columns, j.params.classical.season);
+        return buildFeatures(df, j.target, cfg).buildDataset(1);
+      });
+      const counts = new Map<number, number>();
+      for (const d of sets) for (const t of d.t) counts.set(t, (counts.get(t) ?? 0) + 1);
+      const shared = (t: number) => counts.get(t) === sets.length;
+      const nFolds = walkForwardFolds(sets[0]?.t.filter(shared).length ?? 0, j.options).length;
+      let rows = 0;
+      const entries: LeaderboardEntry[] = [];
+      j.families.forEach((family, k) => {
+        const keep = sets[k].t.map((t, i) => (shared(t) ? i : -1)).filter((i) => i >= 0);
+        const X = keep.map((i) => sets[k].X[i]);
+        const y = keep.map((i) => sets[k].y[i]);
+        rows = y.length;
+        const noBaselines = { naive: y.map(() => NaN), seasonal: null };
+        let fold = 0;
+        const res = backtest(
+          X,
+          y,
+          (XX, yy) =>
+            fitModel(family, XX, yy, j.params, xgb, (d, total) =>
+              onProgress(k * nFolds + fold + d / total, j.families.length * nFolds)
+            ),
+          noBaselines,
+          j.options,
+          (done) => {
+            fold = done;
+            onProgress(k * nFolds + done, j.families.length * nFolds);
+          }
+        );
+        if (res.folds.length) entries.push({ family, metrics: res.model, nFeatures: X[0]?.length ?? 0 });
+      });
+      if (!entries.length) {
+        throw new Error(`not enough rows (each fold needs >= ${j.options.minTrain} training rows).`);
+      }
+      const rmse = (e: LeaderboardEntry) => (Number.isFinite(e.metrics.rmse) ? e.metrics.rmse : Infinity);
+      entries.sort((a, b) => rmse(a) - rmse(b));
+      out = { entries, rows };
+      break;
+    }
+    case "classify": {
+      if (!state.df) throw new Error("no dataset loaded.");
+      const { fs, classes, X, y, current, skipped } = classDataset(state.df, j.target, j.features);
+      if (X.length < MIN_TRAIN_ROWS) {
+        throw new Error(`not enough rows to train (need >= ${MIN_TRAIN_ROWS} after cleaning).`);
+      }
+      const nFolds = walkForwardFolds(y.length, j.options).length;
+      const steps = nFolds + 1;
+      let fold = 0;
+      const fit = (XX: number[][], yy: number[], step: () => number) =>
+        fitClassifier(j.family, XX, yy, classes.length, j.params, 42, (d, total) =>
+          onProgress(step() + d / total, steps)
+        );
+      const res = classBacktest(
+        X,
+        y,
+        current,
+        classes,
+        (XX, yy) => fit(XX, yy, () => fold),
+        j.options,
+        (done) => {
+          fold = done;
+          onProgress(done, steps);
+        }
+      );
+      if (!res.folds.length) {
+        throw new Error(`not enough rows (each fold needs >= ${j.options.minTrain} training rows).`);
+      }
+      const model = fit(X, y, () => nFolds);
+      const x = fs.makeNextX();
+      const next = x.every(Number.isFinite) ? model.predictProba([x])[0] : null;
+      onProgress(steps, steps);
+      out = { classes, backtest: res, next, rows: X.length, skipped };
+      break;
+    }
+    case "batch": {
+      if (!state.df) throw new Error("no dataset loaded.");
+      out = forecastAll(state.df, j.features, j.family, j.params, j.options, xgb, onProgress);
+      break;
+    }
+  }
+  return out as JobResult[T];
+}
+
+// ---------- Worker messages ----------
+export type WorkerRequest =
+  | { kind: "data"; df: DataFrame | null }
+  | { kind: "job"; id: number; job: Job };
+
+export type WorkerResponse =
+  | { kind: "progress"; id: number; done: number; total: number }
+  | { kind: "done"; id: number; result: unknown }
+  | { kind: "error"; id: number; message: string };
+
+// models carry closures, so they cross the worker boundary serialized
+export function encodeResult(type: JobType, result: unknown): unknown {
+  if (type !== "train") return result;
+  const r = result as JobResult["train"];
+  return { ...r, model: serializeModel(r.model), direct: r.direct.map(serializeModel) };
+}
+
+export function decodeResult<T extends JobType>(type: T, data: unknown): JobResult[T] {
+  if (type !== "train") return data as JobResult[T];
+  const r = data as { model: SerializedModel; direct: SerializedModel[]; rows: number; skipped: number };
+  const out: JobResult["train"] = {
+    ...r,
+    model: restoreModel(r.model),
+    direct: r.direct.map(restoreModel),
+  };
+  return out as JobResult[T];
+}
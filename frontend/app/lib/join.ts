@@ -0,0 +1,94 @@
+// Joining a second table (another sheet or file) onto the loaded one by their
+// datetime columns, matching each row to the nearest timestamp within a
+// tolerance.
+
+import type { DataFrame, Row } from "./data";
+
+export type JoinHow = "inner" | "left"; // left: keep unmatched rows of the loaded table
+
+export type JoinOptions = {
+  how: JoinHow;
+  toleranceMs: number; // 0: exact timestamps only
+};
+
+export const DEFAULT_JOIN: JoinOptions = { how: "left", toleranceMs: 0 };
+
+function timeOf(row: Row, key: string): number | null {
+  const v = row[key];
+  return v instanceof Date && !isNaN(+v) ? +v : null;
+}
+
+// index into `times` (ascending) of the value nearest `t`, earlier on ties
+function nearest(times: number[], t: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < t) lo = mid + 1;
+    else hi = mid;
+  }
+  if (lo === times.length) return lo - 1;
+  if (lo > 0 && t - times[lo - 1] <= times[lo] - t) return lo - 1;
+  return lo;
+}
+
+// Columns of `right` are appended (its datetime column dropped), renamed with a
+// "_2", "_3"... suffix where they clash with existing names.
+export function joinOnTime(
+  left: DataFrame,
+  right: DataFrame,
+  opts: JoinOptions
+): { df: DataFrame; matched: number } {
+  const lk = left.datetimeKey;
+  const rk = right.datetimeKey;
+  if (!lk || !rk) throw new Error("both tables need a datetime column to join on.");
+
+  const taken = new Set(Object.keys(left.schema));
+  const renamed = new Map<string, string>();
+  for (const c of right.columns) {
+    if (c === rk) continue;
+    let name = c;
+    for (let k = 2; taken.has(name); k++) name = `${c}_${k}`;
+    taken.add(name);
+    renamed.set(c, name);
+  }
+
+  const timed = right.rows
+    .map((r) => ({ r, t: timeOf(r, rk) }))
+    .filter((x): x is { r: Row; t: number } => x.t !== null)
+    .sort((a, b) => a.t - b.t);
+  const times = timed.map((x) => x.t);
+
+  let matched = 0;
+  const rows: Row[] = [];
+  for (const row of left.rows) {
+    const t = timeOf(row, lk);
+    const i = t === null || !times.length ? -1 : nearest(times, t);
+    const hit = i >= 0 && Math.abs(times[i] - (t as number)) <= opts.toleranceMs ? timed[i].r : null;
+    if (!hit && opts.how === "inner") continue;
+    if (hit) matched++;
+    const out: Row = { ...row };
+    renamed.forEach((name, c) => {
+      out[name] = hit ? hit[c] ?? null : null;
+    });
+    rows.push(out);
+  }
+
+  const added = [...renamed.values()];
+  const schema = { ...left.schema };
+  renamed.forEach((name, c) => {
+    schema[name] = right.schema[c];
+  });
+  const rename = (cols: string[]) => cols.filter((c) => renamed.has(c)).map((c) => renamed.get(c)!);
+  return {
+    df: {
+      columns: [...left.columns, ...added],
+      rows,
+      numericCols: [...left.numericCols, ...rename(right.numericCols)],
+      categoricalCols: [...left.categoricalCols, ...rename(right.categoricalCols)],
+      datetimeKey: lk,
+      schema,
+    },
+    matched,
+  };
+}
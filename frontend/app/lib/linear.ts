@@ -0,0 +1,147 @@
+// Penalized linear regression on the same feature rows as the trees: ridge
+// (L2, closed form) and lasso (L1, coordinate descent). Unlike a tree, a linear
+// model extrapolates, so it can follow a trend beyond the training range.
+//
+// Features are standardized before fitting so one penalty suits all of them;
+// the coefficients are mapped back to raw feature units afterwards.
+
+export type LinearModel = {
+  type: "ridge" | "lasso";
+  nFeatures: number;
+  intercept: number;
+  coef: number[];
+  predictBatch: (X: number[][]) => number[];
+};
+
+export type LinearParams = {
+  alpha: number; // penalty on standardized features; ridge scales it against the summed, lasso the mean squared error
+};
+
+export const DEFAULT_RIDGE: LinearParams = { alpha: 1 };
+export const DEFAULT_LASSO: LinearParams = { alpha: 0.01 };
+
+const LASSO_MAX_ITER = 1000;
+const LASSO_TOL = 1e-6;
+
+export function linearModel(type: LinearModel["type"], intercept: number, coef: number[]): LinearModel {
+  return {
+    type,
+    nFeatures: coef.length,
+    intercept,
+    coef,
+    predictBatch: (XX: number[][]) => XX.map((x) => coef.reduce((s, c, j) => s + c * x[j], intercept)),
+  };
+}
+
+type Standardized = { Z: Float64Array[]; mean: number[]; sd: number[]; yMean: number; yc: Float64Array };
+
+// column-major standardized features (constant columns stay all-zero) and centered y
+function standardize(X: number[][], y: number[]): Standardized {
+  const n = X.length;
+  const p = X[0]?.length ?? 0;
+  const mean = new Array<number>(p).fill(0);
+  const sd = new Array<number>(p).fill(0);
+  const Z: Float64Array[] = [];
+  for (let j = 0; j < p; j++) {
+    let m = 0;
+    for (let i = 0; i < n; i++) m += X[i][j];
+    m /= n;
+    let v = 0;
+    for (let i = 0; i < n; i++) v += (X[i][j] - m) ** 2;
+    const s = Math.sqrt(v / n);
+    const col = new Float64Array(n);
+    if (s > 0) for (let i = 0; i < n; i++) col[i] = (X[i][j] - m) / s;
+    mean[j] = m;
+    sd[j] = s;
+    Z.push(col);
+  }
+  const yMean = y.reduce((a, b) => a + b, 0) / Math.max(1, n);
+  return { Z, mean, sd, yMean, yc: Float64Array.from(y, (v) => v - yMean) };
+}
+
+function unstandardize(type: LinearModel["type"], s: Standardized, w: number[]): LinearModel {
+  const coef = w.map((wj, j) => (s.sd[j] > 0 ? wj / s.sd[j] : 0));
+  const intercept = s.yMean - coef.reduce((a, c, j) => a + c * s.mean[j], 0);
+  return linearModel(type, intercept, coef);
+}
+
+// solves A w = b in place by Gaussian elimination with partial pivoting
+function solve(A: number[][], b: number[]): number[] {
+  const p = b.length;
+  for (let k = 0; k < p; k++) {
+    let piv = k;
+    for (let i = k + 1; i < p; i++) if (Math.abs(A[i][k]) > Math.abs(A[piv][k])) piv = i;
+    [A[k], A[piv]] = [A[piv], A[k]];
+    [b[k], b[piv]] = [b[piv], b[k]];
+    const d = A[k][k];
+    if (d === 0) continue;
+    for (let i = k + 1; i < p; i++) {
+      const f = A[i][k] / d;
+      if (f === 0) continue;
+      for (let j = k; j < p; j++) A[i][j] -= f * A[k][j];
+      b[i] -= f * b[k];
+    }
+  }
+  const w = new Array<number>(p).fill(0);
+  for (let k = p - 1; k >= 0; k--) {
+    let s = b[k];
+    for (let j = k + 1; j < p; j++) s -= A[k][j] * w[j];
+    w[k] = A[k][k] !== 0 ? s / A[k][k] : 0;
+  }
+  return w;
+}
+
+// minimizes |y - Xw|^2 + alpha |w|^2: (Z'Z + alpha I) w = Z'y
+export function fitRidge(X: number[][], y: number[], params: LinearParams = DEFAULT_RIDGE): LinearModel {
+  const s = standardize(X, y);
+  const n = y.length;
+  const p = s.Z.length;
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let j = 0; j < p; j++) {
+    const row = new Array<number>(p).fill(0);
+    for (let k = 0; k <= j; k++) {
+      let dot = 0;
+      for (let i = 0; i < n; i++) dot += s.Z[j][i] * s.Z[k][i];
+      row[k] = dot;
+    }
+    A.push(row);
+    let dot = 0;
+    for (let i = 0; i < n; i++) dot += s.Z[j][i] * s.yc[i];
+    b.push(dot);
+  }
+  for (let j = 0; j < p; j++) {
+    for (let k = j + 1; k < p; k++) A[j][k] = A[k][j];
+    A[j][j] += Math.max(params.alpha, 1e-8);
+  }
+  return unstandardize("ridge", s, solve(A, b));
+}
+
+// minimizes (1/2n)|y - Xw|^2 + alpha |w|_1 by cyclic coordinate descent; with
+// standardized columns each update is a soft-threshold of the partial residual
+export function fitLasso(X: number[][], y: number[], params: LinearParams = DEFAULT_LASSO): LinearModel {
+  const s = standardize(X, y);
+  const n = y.length;
+  const p = s.Z.length;
+  const w = new Array<number>(p).fill(0);
+  const r = Float64Array.from(s.yc); // residual y - Zw
+  for (let iter = 0; iter < LASSO_MAX_ITER; iter++) {
+    let maxStep = 0;
+    for (let j = 0; j < p; j++) {
+      if (!(s.sd[j] > 0)) continue;
+      const z = s.Z[j];
+      let rho = 0;
+      for (let i = 0; i < n; i++) rho += z[i] * r[i];
+      rho = rho / n + w[j]; // columns have mean square 1
+      const next = Math.sign(rho) * Math.max(0, Math.abs(rho) - params.alpha);
+      const step = next - w[j];
+      if (step !== 0) {
+        for (let i = 0; i < n; i++) r[i] -= step * z[i];
+        w[j] = next;
+        maxStep = Math.max(maxStep, Math.abs(step));
+      }
+    }
+    if (maxStep < LASSO_TOL) break;
+  }
+  return unstandardize("lasso", s, w);
+}
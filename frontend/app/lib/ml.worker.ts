@@ -0,0 +1,30 @@
+// ML worker entry: holds the current dataset and runs jobs off the UI thread.
+// Progress is throttled so a fast loop doesn't flood the main thread.
+
+import { createJobState, encodeResult, runJob, setData, WorkerRequest, WorkerResponse } from "./jobs";
+
+const PROGRESS_INTERVAL_MS = 100;
+const state = createJobState();
+
+const post = (msg: WorkerResponse) => self.postMessage(msg);
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  if (msg.kind === "data") {
+    setData(state, msg.df);
+    return;
+  }
+  const { id, job } = msg;
+  let last = 0;
+  try {
+    const result = runJob(state, job, null, (done, total) => {
+      const now = Date.now();
+      if (now - last < PROGRESS_INTERVAL_MS) return;
+      last = now;
+      post({ kind: "progress", id, done, total });
+    });
+    post({ kind: "done", id, result: encodeResult(job.type, result) });
+  } catch (err: any) {
+    post({ kind: "error", id, message: err?.message ?? String(err) });
+  }
+};
@@ -0,0 +1,177 @@
+// Runs jobs (lib/jobs.ts) in the ML worker, one at a time, with progress and
+// cancel. Without a worker (native, tests) or for XGBoost, whose models live
+// in the main thread's WASM heap, jobs run inline instead; inline jobs can only
+// be cancelled before they start.
+
+import type { DataFrame } from "./data";
+import {
+  createJobState,
+  decodeResult,
+  JobOf,
+  JobResult,
+  JobType,
+  runJob,
+  setData,
+  WorkerRequest,
+  WorkerResponse,
+} from "./jobs";
+import { createMLWorker } from "./mlWorker";
+import type { Progress } from "./trees";
+import type { XGBoostBackend } from "./xgboost";
+
+const readsData = (type: JobType) => type !== "parse" && type !== "preview";
+
+export class JobCancelled extends Error {
+  constructor() {
+    super("Cancelled.");
+    this.name = "JobCancelled";
+  }
+}
+
+type RunOptions = {
+  onProgress?: Progress;
+  xgb?: XGBoostBackend | null; // forces an inline run
+};
+
+type Pending = {
+  id: number;
+  type: JobType;
+  onProgress?: Progress;
+  resolve: (result: JobResult[JobType]) => void;
+  reject: (err: Error) => void;
+  inline: boolean; // running on the main thread: cancel flags it instead of ending the worker
+  retryInline: () => void;
+};
+
+export class MLClient {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private synced: DataFrame | null = null; // dataset the worker holds
+  private local = createJobState();
+  private pending: Pending | null = null;
+  private nextId = 1;
+  private inlineCancelled = false;
+
+  get busy(): boolean {
+    return this.pending !== null;
+  }
+
+  // `df` is the dataset the job reads; parse jobs replace it, preview jobs ignore it
+  run<T extends JobType>(job: JobOf<T>, df: DataFrame | null, opts: RunOptions = {}): Promise<JobResult[T]> {
+    if (this.pending) return Promise.reject(new Error("another job is still running."));
+    const worker = opts.xgb ? null : this.getWorker();
+    return new Promise<JobResult[T]>((resolve, reject) => {
+      const id = this.nextId++;
+      const p: Pending = {
+        id,
+        type: job.type,
+        onProgress: opts.onProgress,
+        // onMessage decodes the result for this job's type
+        resolve: (result) => resolve(result as JobResult[T]),
+        reject,
+        inline: false,
+        retryInline: () => {
+          p.inline = true;
+          this.runInline(job, df, opts, id).then(resolve, reject);
+        },
+      };
+      this.pending = p;
+      if (!worker) {
+        p.retryInline();
+        return;
+      }
+      if (readsData(job.type) && df !== this.synced) {
+        this.post({ kind: "data", df });
+        this.synced = df;
+      }
+      this.post({ kind: "job", id, job });
+    });
+  }
+
+  cancel() {
+    const p = this.pending;
+    if (!p) return;
+    if (p.inline) {
+      this.inlineCancelled = true;
+      return;
+    }
+    // the only way to stop a synchronous loop in a worker; the next job starts a fresh one
+    this.worker?.terminate();
+    this.worker = null;
+    this.synced = null;
+    this.pending = null;
+    p.reject(new JobCancelled());
+  }
+
+  dispose() {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+    let w: Worker | null = null;
+    try {
+      w = createMLWorker();
+    } catch {
+      // e.g. a SecurityError from `new Worker`: as with no worker at all
+    }
+    if (!w) {
+      this.workerFailed = true;
+      return null;
+    }
+    w.onmessage = (e: MessageEvent<WorkerResponse>) => this.onMessage(e.data);
+    // e.g. the worker script failed to load: finish the job inline and stay inline
+    w.onerror = () => {
+      w.terminate();
+      this.worker = null;
+      this.workerFailed = true;
+      this.pending?.retryInline();
+    };
+    this.worker = w;
+    return w;
+  }
+
+  private post(msg: WorkerRequest) {
+    this.worker?.postMessage(msg);
+  }
+
+  private onMessage(msg: WorkerResponse) {
+    const p = this.pending;
+    if (!p || p.id !== msg.id) return;
+    if (msg.kind === "progress") {
+      p.onProgress?.(msg.done, msg.total);
+      return;
+    }
+    this.pending = null;
+    if (msg.kind === "error") {
+      p.reject(new Error(msg.message));
+      return;
+    }
+    const result = decodeResult(p.type, msg.result);
+    if (p.type === "parse") this.synced = result as DataFrame;
+    p.resolve(result);
+  }
+
+  private async runInline<T extends JobType>(
+    job: JobOf<T>,
+    df: DataFrame | null,
+    opts: RunOptions,
+    id: number
+  ): Promise<JobResult[T]> {
+    this.inlineCancelled = false;
+    try {
+      // let the UI paint its "working" state before the main thread blocks
+      await new Promise((r) => setTimeout(r, 0));
+      if (this.inlineCancelled) throw new JobCancelled();
+      if (readsData(job.type) && this.local.df !== df) setData(this.local, df);
+      return runJob(this.local, job, opts.xgb ?? null, (done, total) => {
+        if (this.inlineCancelled) throw new JobCancelled();
+        opts.onProgress?.(done, total);
+      });
+    } finally {
+      if (this.pending?.id === id) this.pending = null;
+    }
+  }
+}
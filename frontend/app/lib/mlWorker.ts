@@ -0,0 +1,4 @@
+// Native has no Web Workers; jobs run inline (see mlWorker.web.ts).
+export function createMLWorker(): Worker | null {
+  return null;
+}
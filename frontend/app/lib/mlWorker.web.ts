@@ -0,0 +1,7 @@
+// Metro bundles ml.worker.ts as a separate script for this `new Worker(new URL(...))`
+// form. The base is the page URL, not `import.meta.url`: the main bundle loads
+// as a classic script, where `import.meta` is a syntax error.
+export function createMLWorker(): Worker | null {
+  if (typeof Worker === "undefined") return null;
+  return new Worker(new URL("./ml.worker", window.location.href));
+}
@@ -0,0 +1,179 @@
+// Trained models saved as versioned JSON: the model with the target, columns
+// and feature config it was trained with, checked on load against the data it
+// is applied to. The last few saved models are kept in browser storage.
+
+import type { DataFrame } from "./data";
+import { buildFeatureSpecs, DEFAULT_FEATURES, encodeCategoricals, FeatureConfig } from "./features";
+import type { CartNode, ModelFamily, SerializedModel } from "./trees";
+
+export const MODEL_FILE_FORMAT = "client_side_ml/model";
+export const MODEL_FILE_VERSION = 1;
+const RECENT_MODELS_KEY = "client_side_ml/recent_models";
+const MAX_RECENT_MODELS = 5;
+
+export type TrainMeta = {
+  family: ModelFamily;
+  params: unknown; // hyperparameters of that family
+  rows: number;
+  trainedAt: string; // ISO timestamp
+  source: string | null; // name of the data file
+};
+
+export type ModelFile = {
+  format: typeof MODEL_FILE_FORMAT;
+  version: number;
+  name: string;
+  target: string;
+  columns: string[]; // exogenous columns the features read
+  datetimeKey: string | null;
+  features: FeatureConfig;
+  featNames: string[];
+  nFeatures: number;
+  model: SerializedModel;
+  direct?: SerializedModel[]; // per-step models of a direct multi-step forecast
+  conformal?: number[]; // out-of-sample |residuals| for prediction intervals
+  training: TrainMeta;
+};
+
+function isCartNode(n: any, nFeatures: number): n is CartNode {
+  if (!n || typeof n !== "object") return false;
+  if (n.kind === "leaf") return typeof n.value === "number";
+  return (
+    n.kind === "split" &&
+    Number.isInteger(n.feature) &&
+    n.feature >= 0 &&
+    n.feature < nFeatures &&
+    typeof n.threshold === "number" &&
+    isCartNode(n.left, nFeatures) &&
+    isCartNode(n.right, nFeatures)
+  );
+}
+
+function isSerializedModel(m: any, nFeatures: number): m is SerializedModel {
+  if (!m || m.nFeatures !== nFeatures) return false;
+  const trees = (t: any) => Array.isArray(t) && t.every((n) => isCartNode(n, nFeatures));
+  if (m.type === "cart") return isCartNode(m.root, nFeatures);
+  if (m.type === "forest") return trees(m.trees);
+  if (m.type === "gbm") {
+    return typeof m.base === "number" && typeof m.learningRate === "number" && trees(m.trees);
+  }
+  if (m.type === "ridge" || m.type === "lasso") {
+    return (
+      typeof m.intercept === "number" &&
+      Array.isArray(m.coef) &&
+      m.coef.length === nFeatures &&
+      m.coef.every((c: any) => typeof c === "number")
+    );
+  }
+  const season = Number.isInteger(m.season) && m.season >= 1 && m.season <= nFeatures;
+  if (m.type === "holtwinters") return season && [m.alpha, m.beta, m.gamma].every((v) => typeof v === "number");
+  if (m.type === "snaive") return season;
+  return false;
+}
+
+// parse + structurally validate; throws with a readable reason
+export function parseModelFile(text: string): ModelFile {
+  let f: any;
+  try {
+    f = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file.");
+  }
+  if (f?.format !== MODEL_FILE_FORMAT) throw new Error("Not a model file from this app.");
+  if (typeof f.version !== "number" || f.version > MODEL_FILE_VERSION) {
+    throw new Error(
+      `Model file version ${f.version} is newer than this app supports (${MODEL_FILE_VERSION}).`
+    );
+  }
+  if (typeof f.target !== "string" || !Array.isArray(f.columns) || !Array.isArray(f.featNames)) {
+    throw new Error("Model file is missing target, columns or feature names.");
+  }
+  if (f.featNames.length !== f.nFeatures) {
+    throw new Error(`Model file lists ${f.featNames.length} feature names for ${f.nFeatures} features.`);
+  }
+  if (!isSerializedModel(f.model, f.nFeatures)) throw new Error("Model file has a malformed model.");
+  if (f.direct && !(Array.isArray(f.direct) && f.direct.every((m: any) => isSerializedModel(m, f.nFeatures)))) {
+    throw new Error("Model file has malformed direct-forecast models.");
+  }
+  if (f.conformal && !(Array.isArray(f.conformal) && f.conformal.every((r: any) => typeof r === "number"))) {
+    throw new Error("Model file has malformed calibration residuals.");
+  }
+  // fill config keys added after the file was written
+  return { ...f, features: { ...DEFAULT_FEATURES, ...f.features } };
+}
+
+// check that `df` can produce exactly the features the model was trained on;
+// returns the feature config to apply, or the reasons it can't be used
+export function checkModelFile(
+  file: ModelFile,
+  df: DataFrame
+): { features: FeatureConfig; problems: string[] } {
+  const problems: string[] = [];
+  if (!df.numericCols.includes(file.target)) {
+    problems.push(`Target column "${file.target}" is missing or not numeric.`);
+  }
+  const available = [...df.numericCols, ...df.categoricalCols];
+  const missing = file.columns.filter((c) => !available.includes(c));
+  if (missing.length) problems.push(`Missing exogenous column(s): ${missing.join(", ")}.`);
+
+  const features: FeatureConfig = {
+    ...file.features,
+    // calendar features only exist when the model was trained with a datetime column
+    calendar: file.datetimeKey ? file.features.calendar : [],
+    excludeExo: available.filter((c) => c !== file.target && !file.columns.includes(c)),
+  };
+  if (file.datetimeKey && features.calendar.length && !df.datetimeKey) {
+    problems.push(
+      `The model uses calendar features from "${file.datetimeKey}" but this data has no datetime column.`
+    );
+  }
+  if (problems.length) return { features, problems };
+
+  const exo = df.numericCols.filter((c) => c !== file.target && file.columns.includes(c));
+  const categorical = df.categoricalCols.filter((c) => file.columns.includes(c));
+  const encoded = [...encodeCategoricals(df, file.target, categorical, features.categoricalEncoding).keys()];
+  const names = buildFeatureSpecs(file.target, exo, !!df.datetimeKey, features, encoded).map((f) => f.name);
+  if (names.length !== file.nFeatures) {
+    problems.push(`The model expects ${file.nFeatures} features but this data produces ${names.length}.`);
+    return { features, problems };
+  }
+  const diffs = names
+    .map((n, i) => (n !== file.featNames[i] ? `#${i + 1} is "${n}" here but "${file.featNames[i]}" in the model` : ""))
+    .filter(Boolean);
+  if (diffs.length) problems.push(`Feature order differs: ${diffs.slice(0, 3).join("; ")}.`);
+  return { features, problems };
+}
+
+export function readRecentModels(): ModelFile[] {
+  try {
+    const raw = globalThis.localStorage?.getItem(RECENT_MODELS_KEY);
+    const list: unknown[] = raw ? JSON.parse(raw) : [];
+    // re-validate: entries may come from an older or newer app version
+    return list.flatMap((m) => {
+      try {
+        return [parseModelFile(JSON.stringify(m))];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+// newest first; drops the oldest entries when storage is full
+export function storeRecentModel(file: ModelFile): ModelFile[] {
+  const list = [file, ...readRecentModels().filter((m) => m.name !== file.name)].slice(
+    0,
+    MAX_RECENT_MODELS
+  );
+  while (list.length) {
+    try {
+      globalThis.localStorage?.setItem(RECENT_MODELS_KEY, JSON.stringify(list));
+      return list;
+    } catch {
+      list.pop();
+    }
+  }
+  return [];
+}
@@ -0,0 +1,225 @@
+// Cleaning between loading and feature building: duplicate timestamps,
+// resampling to a regular frequency (keyed on DataFrame.datetimeKey) and
+// per-column imputation of missing numeric values, with a report of what
+// changed.
+
+import type { DataFrame, Row } from "./data";
+import { inferCadenceMs, seasonLengthFor } from "./features";
+
+export type Imputation = "none" | "ffill" | "linear" | "seasonal";
+export type DuplicatePolicy = "keep" | "first" | "last" | "mean";
+export type Frequency = "none" | "hour" | "day" | "week";
+export type Aggregation = "mean" | "sum" | "last";
+
+export type PreprocessConfig = {
+  duplicates: DuplicatePolicy; // rows sharing a timestamp (when not resampling)
+  frequency: Frequency;
+  aggregation: Aggregation; // numeric values within one period; other columns keep the last
+  impute: Imputation; // for every numeric column...
+  imputeByColumn: Record<string, Imputation>; // ...unless set here
+};
+
+export const DEFAULT_PREPROCESS: PreprocessConfig = {
+  duplicates: "keep",
+  frequency: "none",
+  aggregation: "mean",
+  impute: "none",
+  imputeByColumn: {},
+};
+
+export type PreprocessReport = {
+  rowsIn: number;
+  rowsOut: number;
+  noTimestamp: number; // rows dropped for a missing timestamp
+  merged: number; // rows merged into another of the same timestamp or period
+  added: number; // empty periods inserted by resampling
+  missing: Record<string, number>; // missing numeric cells before imputation
+  imputed: Record<string, number>; // of those, cells filled
+};
+
+const MAX_RESAMPLED_ROWS = 1_000_000;
+const HOUR_MS = 3600 * 1000;
+
+// ---------- Timestamps ----------
+function timeOf(row: Row, key: string): number | null {
+  const v = row[key];
+  return v instanceof Date && !isNaN(+v) ? +v : null;
+}
+
+// start of the period holding `t`; days and weeks (from Monday) in local time
+function periodStart(t: number, f: Frequency): number {
+  if (f === "hour") return Math.floor(t / HOUR_MS) * HOUR_MS;
+  const d = new Date(t);
+  const p = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  if (f === "week") p.setDate(p.getDate() - ((p.getDay() + 6) % 7));
+  return +p;
+}
+
+function nextPeriod(t: number, f: Frequency): number {
+  if (f === "hour") return t + HOUR_MS;
+  const d = new Date(t);
+  d.setDate(d.getDate() + (f === "week" ? 7 : 1));
+  return +d;
+}
+
+// one row for a group of rows: numeric columns aggregated, others the last non-null value
+function mergeRows(group: Row[], df: DataFrame, agg: Aggregation, time: Date): Row {
+  const out: Row = {};
+  for (const c of df.columns) {
+    if (c === df.datetimeKey) {
+      out[c] = time;
+      continue;
+    }
+    const vals = group.map((r) => r[c]).filter((v) => v != null);
+    if (!df.numericCols.includes(c) || agg === "last") {
+      out[c] = vals.length ? vals[vals.length - 1] : null;
+      continue;
+    }
+    const nums = vals as number[];
+    const sum = nums.reduce((a, b) => a + b, 0);
+    out[c] = !nums.length ? null : agg === "sum" ? sum : sum / nums.length;
+  }
+  return out;
+}
+
+// ---------- Imputation ----------
+// Fills nulls in place and returns how many were filled. "linear" interpolates
+// between the nearest observed values (by time where both have a timestamp);
+// "seasonal" uses the column mean at the same position in the season (e.g. the
+// same weekday for daily data), or the overall mean when no season is known.
+// Leading and trailing gaps stay missing for ffill and linear.
+function impute(
+  values: (number | null)[],
+  method: Imputation,
+  times: (number | null)[],
+  season: number | null
+): number {
+  let filled = 0;
+  const n = values.length;
+  if (method === "ffill") {
+    let last: number | null = null;
+    for (let i = 0; i < n; i++) {
+      if (values[i] == null) {
+        if (last != null) {
+          values[i] = last;
+          filled++;
+        }
+      } else last = values[i];
+    }
+  } else if (method === "linear") {
+    let prev = -1;
+    for (let i = 0; i < n; i++) {
+      if (values[i] == null) continue;
+      if (prev >= 0 && i - prev > 1) {
+        const a = values[prev] as number;
+        const b = values[i] as number;
+        const ta = times[prev];
+        const tb = times[i];
+        for (let k = prev + 1; k < i; k++) {
+          const tk = times[k];
+          const w =
+            ta != null && tb != null && tk != null && tb > ta ? (tk - ta) / (tb - ta) : (k - prev) / (i - prev);
+          values[k] = a + w * (b - a);
+          filled++;
+        }
+      }
+      prev = i;
+    }
+  } else if (method === "seasonal") {
+    const period = season ?? 1;
+    const sums = new Array<number>(period).fill(0);
+    const counts = new Array<number>(period).fill(0);
+    for (let i = 0; i < n; i++) {
+      const v = values[i];
+      if (v == null) continue;
+      sums[i % period] += v;
+      counts[i % period]++;
+    }
+    for (let i = 0; i < n; i++) {
+      if (values[i] != null || !counts[i % period]) continue;
+      values[i] = sums[i % period] / counts[i % period];
+      filled++;
+    }
+  }
+  return filled;
+}
+
+// ---------- Pipeline ----------
+export function preprocess(df: DataFrame, cfg: PreprocessConfig): { df: DataFrame; report: PreprocessReport } {
+  const key = df.datetimeKey;
+  let rows = df.rows;
+  let noTimestamp = 0;
+  let merged = 0;
+  let added = 0;
+
+  const byTime = !!key && (cfg.duplicates !== "keep" || cfg.frequency !== "none");
+  if (key && byTime) {
+    const timed = rows
+      .map((r) => ({ r, t: timeOf(r, key) }))
+      .filter((x): x is { r: Row; t: number } => x.t !== null);
+    noTimestamp = rows.length - timed.length;
+    timed.sort((a, b) => a.t - b.t); // stable: duplicates keep their file order
+
+    // consecutive rows of one timestamp (or one period when resampling)
+    const bucket = (t: number) => (cfg.frequency === "none" ? t : periodStart(t, cfg.frequency));
+    const groups: { t: number; rows: Row[] }[] = [];
+    for (const { r, t } of timed) {
+      const b = bucket(t);
+      const g = groups[groups.length - 1];
+      if (g && g.t === b) g.rows.push(r);
+      else groups.push({ t: b, rows: [r] });
+    }
+    merged = timed.length - groups.length;
+
+    if (cfg.frequency === "none") {
+      rows = groups.map((g) =>
+        cfg.duplicates === "first"
+          ? g.rows[0]
+          : cfg.duplicates === "last"
+          ? g.rows[g.rows.length - 1]
+          : mergeRows(g.rows, df, "mean", new Date(g.t))
+      );
+    } else {
+      const out: Row[] = [];
+      let slot = groups.length ? groups[0].t : 0;
+      for (const g of groups) {
+        for (; slot < g.t; slot = nextPeriod(slot, cfg.frequency)) {
+          out.push(mergeRows([], df, cfg.aggregation, new Date(slot)));
+          added++;
+          if (out.length > MAX_RESAMPLED_ROWS) {
+            throw new Error(`resampling makes more than ${MAX_RESAMPLED_ROWS} rows; choose a coarser frequency.`);
+          }
+        }
+        out.push(mergeRows(g.rows, df, cfg.aggregation, new Date(g.t)));
+        slot = nextPeriod(g.t, cfg.frequency);
+      }
+      rows = out;
+    }
+  }
+
+  // imputation works on copies of the numeric columns, then rebuilds changed rows
+  const times = rows.map((r) => (key ? timeOf(r, key) : null));
+  const season = seasonLengthFor(key ? inferCadenceMs(times.map((t) => (t === null ? null : new Date(t)))) : null);
+  const missing: Record<string, number> = {};
+  const imputed: Record<string, number> = {};
+  const filledCols: { c: string; values: (number | null)[] }[] = [];
+  for (const c of df.numericCols) {
+    const values = rows.map((r) => (typeof r[c] === "number" ? (r[c] as number) : null));
+    missing[c] = values.filter((v) => v === null).length;
+    const method = cfg.imputeByColumn[c] ?? cfg.impute;
+    imputed[c] = missing[c] && method !== "none" ? impute(values, method, times, season) : 0;
+    if (imputed[c]) filledCols.push({ c, values });
+  }
+  if (filledCols.length) {
+    rows = rows.map((r, i) => {
+      const out = { ...r };
+      for (const { c, values } of filledCols) out[c] = values[i];
+      return out;
+    });
+  }
+
+  return {
+    df: rows === df.rows ? df : { ...df, rows },
+    report: { rowsIn: df.rows.length, rowsOut: rows.length, noTimestamp, merged, added, missing, imputed },
+  };
+}
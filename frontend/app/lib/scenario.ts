@@ -0,0 +1,49 @@
+// What-if forecasts: named scenarios of future values for exogenous series (a
+// planned price, a promotion flag), each run through the recursive forecast.
+// Step k of a scenario is the value on the row of the k-step-ahead forecast; a
+// blank step repeats the one before, so a scenario only needs its changes. As
+// X(t) predicts y(t+1), a step's value moves the forecast from the next step on,
+// and an H-step forecast reads steps 1..H-1.
+
+import { sniffCsv, SNIFF_BYTES } from "./csv";
+import { parseDataFile } from "./data";
+import type { FeatureSet, FutureValues } from "./features";
+
+export type Scenario = { name: string; values: FutureValues };
+export type ScenarioRun = { name: string; forecast: number[] };
+
+// no values: every exogenous series held at its last observation
+export const BASELINE_SCENARIO: Scenario = { name: "baseline", values: {} };
+
+export function runScenarios(
+  fs: FeatureSet,
+  predict: (x: number[]) => number,
+  horizon: number,
+  scenarios: Scenario[]
+): ScenarioRun[] {
+  return scenarios.map((s) => ({ name: s.name, forecast: fs.forecastRecursive(predict, horizon, s.values) }));
+}
+
+// a scenario from an uploaded table: one row per future step, in order, and a
+// column per exogenous series to set; other columns (e.g. dates) are ignored,
+// as are rows past `steps`
+export function scenarioFromFile(
+  scenarioName: string,
+  fileName: string,
+  bytes: ArrayBuffer,
+  series: string[],
+  steps: number
+): Scenario {
+  const csv = fileName.toLowerCase().endsWith(".csv")
+    ? sniffCsv(new Uint8Array(bytes, 0, Math.min(bytes.byteLength, SNIFF_BYTES)))
+    : undefined;
+  const df = parseDataFile(fileName, bytes, { csv });
+  if (!df) throw new Error("unsupported file type.");
+  const columns = series.filter((s) => df.numericCols.includes(s));
+  if (!columns.length) throw new Error(`no numeric column named after an exogenous series (${series.join(", ")}).`);
+  const values: FutureValues = {};
+  for (const c of columns) {
+    values[c] = df.rows.slice(0, steps).map((r) => (typeof r[c] === "number" ? (r[c] as number) : null));
+  }
+  return { name: scenarioName, values };
+}
@@ -0,0 +1,168 @@
+// Column types of an imported table. Each column is numeric, categorical,
+// datetime (with an explicit format and timezone) or ignored; types not set by
+// the user are inferred from the values, strictly: a column is numeric only if
+// every non-missing value is a number, and datetime only if every value
+// matches one of the supported formats.
+
+import { DecimalSeparator, parseNumber } from "./csv";
+
+export type ColumnType = "numeric" | "categorical" | "datetime" | "ignore";
+
+export type DatetimeFormat =
+  | "iso" // YYYY-MM-DD[ HH:mm[:ss[.SSS]]][Z|±HH:MM]
+  | "YYYY/MM/DD"
+  | "DD/MM/YYYY"
+  | "MM/DD/YYYY"
+  | "DD.MM.YYYY"
+  | "YYYYMMDD"
+  | "unix_s"
+  | "unix_ms"
+  | "excel"; // spreadsheet serial day number (1900 date system)
+
+export type ColumnSpec = {
+  type: ColumnType;
+  format?: DatetimeFormat; // datetime only; "iso" if unset
+  timezone?: string; // datetime only: "local" (default), "UTC" or a fixed offset like "+09:00"
+};
+
+export type Schema = Record<string, ColumnSpec>;
+
+export const COLUMN_TYPES: ColumnType[] = ["numeric", "categorical", "datetime", "ignore"];
+export const DATETIME_FORMATS: DatetimeFormat[] = [
+  "iso",
+  "YYYY/MM/DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "DD.MM.YYYY",
+  "YYYYMMDD",
+  "unix_s",
+  "unix_ms",
+  "excel",
+];
+
+// cell values before typing: strings from CSV, numbers and dates from XLSX
+export type RawValue = string | number | Date | null;
+
+const MISSING = new Set(["", "na", "n/a", "nan", "null", "none", "-", "?"]);
+
+export function isMissing(v: RawValue): boolean {
+  return v == null || (typeof v === "string" && MISSING.has(v.trim().toLowerCase()));
+}
+
+// ---------- Datetimes ----------
+const TIME = "(?:[T ](\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.(\\d{1,3})\\d*)?)?)?";
+const ZONE = "(Z|[+-]\\d{2}:?\\d{2})?";
+
+// date part of each text format; groups are always year, month, day
+const DATE_PATTERNS: Partial<Record<DatetimeFormat, { re: RegExp; order: [number, number, number] }>> = {
+  iso: { re: new RegExp(`^(\\d{4})-(\\d{1,2})-(\\d{1,2})${TIME}\\s*${ZONE}$`), order: [1, 2, 3] },
+  "YYYY/MM/DD": { re: new RegExp(`^(\\d{4})/(\\d{1,2})/(\\d{1,2})${TIME}$`), order: [1, 2, 3] },
+  "DD/MM/YYYY": { re: new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${TIME}$`), order: [3, 2, 1] },
+  "MM/DD/YYYY": { re: new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${TIME}$`), order: [3, 1, 2] },
+  "DD.MM.YYYY": { re: new RegExp(`^(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})${TIME}$`), order: [3, 2, 1] },
+  YYYYMMDD: { re: /^(\d{4})(\d{2})(\d{2})$/, order: [1, 2, 3] },
+};
+
+// minutes east of UTC for "±HH:MM" / "±HHMM" / "Z"; null for local time
+function offsetMinutes(zone: string): number | null {
+  if (zone === "local") return null;
+  if (zone === "Z" || zone.toUpperCase() === "UTC") return 0;
+  const m = /^([+-])(\d{2}):?(\d{2})$/.exec(zone);
+  if (!m) return null;
+  return (m[1] === "-" ? -1 : 1) * (Number(m[2]) * 60 + Number(m[3]));
+}
+
+export function isValidTimezone(zone: string): boolean {
+  return zone === "local" || offsetMinutes(zone) !== null;
+}
+
+// Spreadsheet serial dates count days from 1899-12-30 (1900 system, which
+// keeps Lotus 1-2-3's phantom 1900-02-29 as day 60) or from 1904-01-01. The
+// result is wall-clock time in `timezone`.
+export function excelSerialToDate(serial: number, date1904 = false, timezone = "local"): Date | null {
+  if (!Number.isFinite(serial) || serial < 0) return null;
+  let days = Math.floor(serial);
+  const ms = Math.round((serial - days) * 86400000);
+  if (!date1904 && days < 60) days++; // before the phantom leap day
+  const [y, mo, d] = date1904 ? [1904, 0, 1] : [1899, 11, 30];
+  const offset = offsetMinutes(timezone);
+  if (offset === null) return new Date(y, mo, d + days, 0, 0, 0, ms);
+  return new Date(Date.UTC(y, mo, d + days, 0, 0, 0, ms) - offset * 60000);
+}
+
+// null if `v` doesn't match the format or names a day that doesn't exist
+export function parseDatetime(v: RawValue, format: DatetimeFormat = "iso", timezone = "local"): Date | null {
+  if (v instanceof Date) return isNaN(+v) ? null : v;
+  if (v == null) return null;
+  if (format === "unix_s" || format === "unix_ms" || format === "excel") {
+    const n = typeof v === "number" ? v : parseNumber(v, ".");
+    if (format === "excel") return excelSerialToDate(n, false, timezone);
+    return Number.isFinite(n) ? new Date(format === "unix_s" ? n * 1000 : n) : null;
+  }
+  const p = DATE_PATTERNS[format];
+  const m = p && p.re.exec(String(v).trim());
+  if (!p || !m) return null;
+
+  const [y, mo, d] = p.order.map((i) => Number(m[i]));
+  const h = Number(m[4] ?? 0);
+  const mi = Number(m[5] ?? 0);
+  const s = Number(m[6] ?? 0);
+  const ms = Number((m[7] ?? "0").padEnd(3, "0"));
+  if (mo < 1 || mo > 12 || d < 1 || h > 23 || mi > 59 || s > 59) return null;
+  // Date.UTC rolls over out-of-range days (Feb 30 -> Mar 2); reject those
+  const utc = Date.UTC(y, mo - 1, d, h, mi, s, ms);
+  if (new Date(utc).getUTCDate() !== d) return null;
+
+  // a zone in the value itself wins over the column's timezone
+  const offset = offsetMinutes(m[8] ?? timezone);
+  if (offset === null) return new Date(y, mo - 1, d, h, mi, s, ms);
+  return new Date(utc - offset * 60000);
+}
+
+// ---------- Inference ----------
+const INFERRED_FORMATS: DatetimeFormat[] = ["iso", "YYYY/MM/DD", "DD/MM/YYYY", "MM/DD/YYYY", "DD.MM.YYYY"];
+
+export function inferColumn(values: RawValue[], decimal: DecimalSeparator): ColumnSpec {
+  const present = values.filter((v) => !isMissing(v));
+  if (!present.length) return { type: "ignore" };
+  if (present.every((v) => v instanceof Date)) return { type: "datetime" };
+  if (present.every((v) => typeof v === "number" || (typeof v === "string" && !isNaN(parseNumber(v, decimal))))) {
+    return { type: "numeric" };
+  }
+  const format = INFERRED_FORMATS.find((f) => present.every((v) => parseDatetime(v, f) !== null));
+  if (format) return { type: "datetime", format };
+  return { type: "categorical" };
+}
+
+// user-set types win; the rest are inferred
+export function inferSchema(
+  columns: string[],
+  rows: RawValue[][],
+  decimal: DecimalSeparator,
+  overrides: Schema = {}
+): Schema {
+  const schema: Schema = {};
+  columns.forEach((c, i) => {
+    schema[c] = overrides[c] ?? inferColumn(rows.map((r) => r[i] ?? null), decimal);
+  });
+  return schema;
+}
+
+// ---------- Typing ----------
+export function typeValue(v: RawValue, spec: ColumnSpec, decimal: DecimalSeparator): number | string | Date | null {
+  if (isMissing(v)) return null;
+  switch (spec.type) {
+    case "numeric": {
+      if (typeof v === "number") return Number.isFinite(v) ? v : null;
+      if (v instanceof Date) return null;
+      const n = parseNumber(v as string, decimal);
+      return Number.isFinite(n) ? n : null;
+    }
+    case "datetime":
+      return parseDatetime(v, spec.format, spec.timezone);
+    case "categorical":
+      return v instanceof Date ? v.toISOString() : String(v).trim();
+    case "ignore":
+      return null;
+  }
+}
@@ -0,0 +1,619 @@
+// Tree models: a CART regressor and the random forest / gradient boosting
+// ensembles built on it, plus the plain-object form used to save models and to
+// send them between the ML worker and the UI. The Model union also covers the
+// linear (lib/linear.ts) and classical (lib/classical.ts) families, so every
+// family trains through fitModel and predicts through predictBatch.
+//
+// Split search works on presorted typed-array columns: each feature's rows are
+// sorted once per fit, and every node keeps its rows in that order by stable
+// partitioning, so finding a split is a linear sweep with running sums instead
+// of a sort per node and feature.
+
+import {
+  ClassicalParams,
+  fitHoltWinters,
+  fitSeasonalNaive,
+  HoltWintersModel,
+  holtWintersModel,
+  SeasonalNaiveModel,
+  seasonalNaiveModel,
+} from "./classical";
+import { fitLasso, fitRidge, LinearModel, linearModel, LinearParams } from "./linear";
+import type { SearchSpace } from "./tuning";
+import type { XGBoostBackend, XGBoostModel, XGBoostParams } from "./xgboost";
+
+export type CartNode =
+  | {
+      kind: "leaf";
+      value: number;
+      size: number;
+      depth: number;
+    }
+  | {
+      kind: "split";
+      feature: number; // index in feature vector
+      threshold: number;
+      left: CartNode;
+      right: CartNode;
+      size: number;
+      depth: number;
+      gain?: number; // impurity decrease, n * (var(parent) - weighted var(children)); absent in older files
+    };
+
+export type Model =
+  | {
+      type: "cart";
+      nFeatures: number;
+      root: CartNode;
+      predictBatch: (X: number[][]) => number[];
+    }
+  | {
+      type: "forest";
+      nFeatures: number;
+      trees: CartNode[]; // averaged
+      predictBatch: (X: number[][]) => number[];
+    }
+  | {
+      type: "gbm";
+      nFeatures: number;
+      base: number; // initial prediction (mean of y)
+      learningRate: number;
+      trees: CartNode[]; // summed residual trees, each scaled by learningRate
+      predictBatch: (X: number[][]) => number[];
+    }
+  | XGBoostModel
+  | LinearModel
+  | HoltWintersModel
+  | SeasonalNaiveModel;
+
+export type ModelFamily = Model["type"];
+
+export type CartParams = {
+  maxDepth: number;
+  minLeaf: number;
+  nThresholds: number; // quantile candidates per feature; 0 = exact search over all values
+  minGain: number; // minimum variance reduction (squared target units) to split
+};
+
+export type ForestParams = {
+  nTrees: number;
+  maxDepth: number;
+  minLeaf: number;
+  featureFraction: number; // share of features tried at each split
+  sampleFraction: number; // bootstrap sample size relative to n
+};
+
+export type BoostParams = {
+  rounds: number;
+  learningRate: number;
+  maxDepth: number;
+  minLeaf: number;
+  subsample: number; // share of rows (without replacement) per round
+  earlyStopping: number; // patience in rounds, 0 = off
+  validFraction: number; // time-ordered tail used for early stopping
+};
+
+export type TrainParams = {
+  cart: CartParams;
+  forest: ForestParams;
+  boost: BoostParams;
+  xgboost: XGBoostParams;
+  ridge: LinearParams;
+  lasso: LinearParams;
+  classical: ClassicalParams; // Holt-Winters and seasonal naive
+};
+
+// called after each unit of work (tree, boosting round, ...)
+export type Progress = (done: number, total: number) => void;
+
+export const DEFAULT_CART: CartParams = {
+  maxDepth: 4,
+  minLeaf: 8,
+  nThresholds: 9,
+  minGain: 1e-12,
+};
+
+export const DEFAULT_FOREST: ForestParams = {
+  nTrees: 100,
+  maxDepth: 8,
+  minLeaf: 3,
+  featureFraction: 0.5,
+  sampleFraction: 1,
+};
+
+export const DEFAULT_BOOST: BoostParams = {
+  rounds: 200,
+  learningRate: 0.1,
+  maxDepth: 3,
+  minLeaf: 5,
+  subsample: 0.8,
+  earlyStopping: 20,
+  validFraction: 0.2,
+};
+
+function variance(arr: ArrayLike<number>): number {
+  const n = arr.length;
+  if (n === 0) return 0;
+  let s = 0;
+  for (let i = 0; i < n; i++) s += arr[i];
+  const m = s / n;
+  let q = 0;
+  for (let i = 0; i < n; i++) q += (arr[i] - m) * (arr[i] - m);
+  return q / n;
+}
+
+// ---------- CART (decision tree regressor) ----------
+// column-major copy of X with each feature's row order; non-finite values sort
+// last and always go right of a split
+export type SortedColumns = {
+  nRows: number;
+  cols: Float64Array[]; // cols[f][row]
+  order: Int32Array[]; // order[f]: rows by ascending cols[f]
+};
+
+export function presort(X: number[][]): SortedColumns {
+  const n = X.length;
+  const nFeat = X[0]?.length ?? 0;
+  const cols: Float64Array[] = [];
+  const order: Int32Array[] = [];
+  for (let f = 0; f < nFeat; f++) {
+    const col = new Float64Array(n);
+    const finite: number[] = [];
+    const rest: number[] = [];
+    for (let i = 0; i < n; i++) {
+      col[i] = X[i][f];
+      (Number.isFinite(col[i]) ? finite : rest).push(i);
+    }
+    // Array#sort is stable, so ties keep row order
+    finite.sort((a, b) => col[a] - col[b]);
+    const idx = new Int32Array(n);
+    idx.set(finite);
+    idx.set(rest, finite.length);
+    cols.push(col);
+    order.push(idx);
+  }
+  return { nRows: n, cols, order };
+}
+
+// Per feature, the sample positions of `rows` in ascending value order: group
+// samples by data row, then walk the presorted rows.
+export function sortedSamples(data: SortedColumns, rows: Int32Array): Int32Array[] {
+  const m = rows.length;
+  const byRowStart = new Int32Array(data.nRows + 1);
+  for (let p = 0; p < m; p++) byRowStart[rows[p] + 1]++;
+  for (let r = 0; r < data.nRows; r++) byRowStart[r + 1] += byRowStart[r];
+  const byRow = new Int32Array(m);
+  const fill = byRowStart.slice(0, data.nRows);
+  for (let p = 0; p < m; p++) byRow[fill[rows[p]]++] = p;
+
+  const pos: Int32Array[] = [];
+  for (let f = 0; f < data.cols.length; f++) {
+    const order = data.order[f];
+    const arr = new Int32Array(m);
+    let k = 0;
+    for (let i = 0; i < order.length; i++) {
+      const r = order[i];
+      for (let j = byRowStart[r]; j < byRowStart[r + 1]; j++) arr[k++] = byRow[j];
+    }
+    pos.push(arr);
+  }
+  return pos;
+}
+
+// Splits a node's positions [lo, hi) at x[feature] <= threshold and returns the
+// left size. The stable partition of every feature's order keeps both children
+// sorted.
+export function sampleSplitter(data: SortedColumns, rows: Int32Array, pos: Int32Array[]) {
+  const goLeft = new Uint8Array(rows.length);
+  const scratch = new Int32Array(rows.length);
+  return (lo: number, hi: number, feature: number, threshold: number): number => {
+    const col = data.cols[feature];
+    for (let k = lo; k < hi; k++) {
+      const p = pos[0][k];
+      goLeft[p] = col[rows[p]] <= threshold ? 1 : 0;
+    }
+    let nL = 0;
+    for (const arr of pos) {
+      let l = lo;
+      let r = 0;
+      for (let k = lo; k < hi; k++) {
+        const p = arr[k];
+        if (goLeft[p]) arr[l++] = p;
+        else scratch[r++] = p;
+      }
+      arr.set(scratch.subarray(0, r), l);
+      nL = l - lo;
+    }
+    return nL;
+  };
+}
+
+// Grow a tree on a sample of the presorted rows. `rows[p]` is the data row of
+// sample p (repeats allowed, e.g. a bootstrap) and `target[p]` its target.
+export function growTree(
+  data: SortedColumns,
+  rows: Int32Array,
+  target: Float64Array,
+  params: CartParams = DEFAULT_CART,
+  maxFeatures = Infinity, // features tried per split (random subset when < nFeat)
+  rand: () => number = Math.random
+): CartNode {
+  const { maxDepth, minLeaf } = params;
+  const { cols } = data;
+  const nFeat = cols.length;
+  const m = rows.length;
+  const pos = sortedSamples(data, rows);
+  const split = sampleSplitter(data, rows, pos);
+
+  const leaf = (lo: number, hi: number, depth: number): CartNode => {
+    const n = hi - lo;
+    let s = 0;
+    if (nFeat) for (let k = lo; k < hi; k++) s += target[pos[0][k]];
+    else for (let p = 0; p < m; p++) s += target[p];
+    return { kind: "leaf", value: s / Math.max(1, n), size: n, depth };
+  };
+
+  const build = (lo: number, hi: number, depth: number): CartNode => {
+    const n = hi - lo;
+    if (n <= minLeaf || depth >= maxDepth || !nFeat) return leaf(lo, hi, depth);
+
+    // sums of targets centred on the node mean (keeps the variance sweep stable)
+    const members = pos[0];
+    let mean = 0;
+    for (let k = lo; k < hi; k++) mean += target[members[k]];
+    mean /= n;
+    let qAll = 0;
+    for (let k = lo; k < hi; k++) qAll += (target[members[k]] - mean) ** 2;
+    const parentVar = qAll / n;
+    // sAll is 0 after centring
+    const gainAt = (nL: number, sL: number, qL: number) => {
+      const nR = n - nL;
+      const sR = -sL;
+      const qR = qAll - qL;
+      return parentVar - (nL / n) * (qL / nL - (sL / nL) ** 2) - (nR / n) * (qR / nR - (sR / nR) ** 2);
+    };
+
+    let bestGain = 0;
+    let bestFeat = -1;
+    let bestThr = 0;
+
+    for (const f of sampleFeatures(nFeat, maxFeatures, rand)) {
+      const arr = pos[f];
+      const col = cols[f];
+      // non-finite values sit at the end of the order
+      let end = hi;
+      while (end > lo && !Number.isFinite(col[rows[arr[end - 1]]])) end--;
+      const nFinite = end - lo;
+      if (!nFinite) continue;
+
+      let sL = 0;
+      let qL = 0;
+      if (params.nThresholds <= 0) {
+        // exact search: sweep every boundary between distinct sorted values
+        for (let k = lo; k < end - 1; k++) {
+          const d = target[arr[k]] - mean;
+          sL += d;
+          qL += d * d;
+          const thr = col[rows[arr[k]]];
+          if (thr === col[rows[arr[k + 1]]]) continue;
+          const nL = k - lo + 1;
+          if (nL < minLeaf || n - nL < minLeaf) continue;
+          const gain = gainAt(nL, sL, qL);
+          if (gain > bestGain) {
+            bestGain = gain;
+            bestFeat = f;
+            bestThr = thr;
+          }
+        }
+        continue;
+      }
+
+      // candidate thresholds are the node's quantiles (nThresholds + 1 bins);
+      // x <= thr goes left, so the sweep takes every tie of the threshold
+      const bins = params.nThresholds + 1;
+      let k = lo;
+      for (let q = 1; q < bins; q++) {
+        const thr = col[rows[arr[lo + Math.floor((q * nFinite) / bins)]]];
+        while (k < end && col[rows[arr[k]]] <= thr) {
+          const d = target[arr[k]] - mean;
+          sL += d;
+          qL += d * d;
+          k++;
+        }
+        const nL = k - lo;
+        if (nL < minLeaf || n - nL < minLeaf) continue;
+        const gain = gainAt(nL, sL, qL);
+        if (gain > bestGain) {
+          bestGain = gain;
+          bestFeat = f;
+          bestThr = thr;
+        }
+      }
+    }
+
+    if (bestGain <= params.minGain || bestFeat < 0) return leaf(lo, hi, depth);
+
+    const nL = split(lo, hi, bestFeat, bestThr);
+
+    return {
+      kind: "split",
+      feature: bestFeat,
+      threshold: bestThr,
+      left: build(lo, lo + nL, depth + 1),
+      right: build(lo + nL, hi, depth + 1),
+      size: n,
+      depth,
+      gain: bestGain * n,
+    };
+  };
+
+  return build(0, m, 0);
+}
+
+export function buildCART(
+  X: number[][],
+  y: number[],
+  params: CartParams = DEFAULT_CART,
+  maxFeatures = Infinity,
+  rand: () => number = Math.random
+): CartNode {
+  const rows = new Int32Array(y.length);
+  for (let i = 0; i < rows.length; i++) rows[i] = i;
+  return growTree(presort(X), rows, Float64Array.from(y), params, maxFeatures, rand);
+}
+
+// partial Fisher-Yates: k distinct feature indices out of nFeat
+export function sampleFeatures(nFeat: number, k: number, rand: () => number): number[] {
+  const idx = Array.from({ length: nFeat }, (_, i) => i);
+  if (k >= nFeat) return idx;
+  for (let i = 0; i < k; i++) {
+    const j = i + Math.floor(rand() * (nFeat - i));
+    [idx[i], idx[j]] = [idx[j], idx[i]];
+  }
+  return idx.slice(0, k);
+}
+
+export function predictTree(node: CartNode, x: number[]): number {
+  if (node.kind === "leaf") return node.value;
+  return x[node.feature] <= node.threshold
+    ? predictTree(node.left, x)
+    : predictTree(node.right, x);
+}
+
+// model constructors: shared by training and by loading saved model files
+export function cartModel(root: CartNode, nFeatures: number): Model {
+  return {
+    type: "cart",
+    nFeatures,
+    root,
+    predictBatch: (XX: number[][]) => XX.map((r) => predictTree(root, r)),
+  };
+}
+
+export function forestModel(trees: CartNode[], nFeatures: number): Model {
+  const predictOne = (x: number[]) =>
+    trees.reduce((s, t) => s + predictTree(t, x), 0) / Math.max(1, trees.length);
+  return {
+    type: "forest",
+    nFeatures,
+    trees,
+    predictBatch: (XX: number[][]) => XX.map(predictOne),
+  };
+}
+
+export function gbmModel(base: number, learningRate: number, trees: CartNode[], nFeatures: number): Model {
+  const predictOne = (x: number[]) =>
+    trees.reduce((s, t) => s + learningRate * predictTree(t, x), base);
+  return {
+    type: "gbm",
+    nFeatures,
+    base,
+    learningRate,
+    trees,
+    predictBatch: (XX: number[][]) => XX.map(predictOne),
+  };
+}
+
+export function fitCART(X: number[][], y: number[], params: CartParams = DEFAULT_CART): Model {
+  const root = buildCART(X, y, params);
+  return cartModel(root, X[0]?.length ?? 0);
+}
+
+// ---------- Ensembles (random forest / gradient boosting on the CART core) ----------
+// small seeded PRNG so retraining on the same data gives the same ensemble
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function fitForest(
+  X: number[][],
+  y: number[],
+  p: ForestParams,
+  seed = 42,
+  onProgress?: Progress
+): Model {
+  const rand = mulberry32(seed);
+  const n = y.length;
+  const nFeat = X[0]?.length ?? 0;
+  const mtry = Math.max(1, Math.round(nFeat * p.featureFraction));
+  const m = Math.max(1, Math.round(n * p.sampleFraction));
+  const data = presort(X);
+  const cart = { ...DEFAULT_CART, maxDepth: p.maxDepth, minLeaf: p.minLeaf };
+
+  const trees: CartNode[] = [];
+  for (let k = 0; k < p.nTrees; k++) {
+    // bootstrap rows (with replacement)
+    const rows = new Int32Array(m);
+    const yb = new Float64Array(m);
+    for (let i = 0; i < m; i++) {
+      rows[i] = Math.floor(rand() * n);
+      yb[i] = y[rows[i]];
+    }
+    trees.push(growTree(data, rows, yb, cart, mtry, rand));
+    onProgress?.(k + 1, p.nTrees);
+  }
+
+  return forestModel(trees, nFeat);
+}
+
+// fit `rounds` residual trees; returns the trees and, when a validation set is
+// given, how many rounds gave the lowest validation MSE
+function boostRounds(
+  X: number[][],
+  y: number[],
+  p: BoostParams,
+  rounds: number,
+  rand: () => number,
+  valid?: { X: number[][]; y: number[] },
+  onRound?: (r: number) => void
+) {
+  const n = y.length;
+  const base = y.reduce((a, b) => a + b, 0) / Math.max(1, n);
+  const F = new Float64Array(n).fill(base);
+  const Fv = new Float64Array(valid ? valid.y.length : 0).fill(base);
+  const data = presort(X);
+  const cart = { ...DEFAULT_CART, maxDepth: p.maxDepth, minLeaf: p.minLeaf };
+  const trees: CartNode[] = [];
+  let bestLoss = Infinity;
+  let bestRounds = 0;
+
+  for (let r = 0; r < rounds; r++) {
+    const idx: number[] = [];
+    for (let i = 0; i < n; i++) if (rand() < p.subsample) idx.push(i);
+    if (idx.length <= p.minLeaf) for (let i = 0; i < n; i++) idx.push(i);
+    const rows = Int32Array.from(idx);
+    const resid = new Float64Array(rows.length);
+    for (let k = 0; k < rows.length; k++) resid[k] = y[rows[k]] - F[rows[k]];
+
+    const tree = growTree(data, rows, resid, cart);
+    trees.push(tree);
+    for (let i = 0; i < n; i++) F[i] += p.learningRate * predictTree(tree, X[i]);
+    onRound?.(r + 1);
+
+    if (valid) {
+      let loss = 0;
+      for (let i = 0; i < valid.y.length; i++) {
+        Fv[i] += p.learningRate * predictTree(tree, valid.X[i]);
+        loss += (valid.y[i] - Fv[i]) ** 2;
+      }
+      loss /= Math.max(1, valid.y.length);
+      if (loss < bestLoss - 1e-12) {
+        bestLoss = loss;
+        bestRounds = r + 1;
+      } else if (p.earlyStopping > 0 && r + 1 - bestRounds >= p.earlyStopping) {
+        break;
+      }
+    }
+  }
+
+  return { base, trees, bestRounds: valid ? bestRounds : trees.length };
+}
+
+export function fitBoosting(
+  X: number[][],
+  y: number[],
+  p: BoostParams,
+  seed = 42,
+  onProgress?: Progress
+): Model {
+  const n = y.length;
+  const nValid = p.earlyStopping > 0 ? Math.floor(n * p.validFraction) : 0;
+
+  // early stopping picks the round count on the most recent rows, then the
+  // final ensemble is refit on everything with that many rounds
+  let rounds = p.rounds;
+  let probed = 0;
+  if (nValid > 0 && n - nValid > p.minLeaf) {
+    const cut = n - nValid;
+    const probe = boostRounds(
+      X.slice(0, cut),
+      y.slice(0, cut),
+      p,
+      p.rounds,
+      mulberry32(seed),
+      { X: X.slice(cut), y: y.slice(cut) },
+      (r) => onProgress?.(r, 2 * p.rounds)
+    );
+    rounds = Math.max(1, probe.bestRounds);
+    probed = p.rounds;
+  }
+
+  // progress counts the probe as if it ran all rounds
+  const { base, trees } = boostRounds(X, y, p, rounds, mulberry32(seed), undefined, (r) =>
+    onProgress?.(probed + r, probed + rounds)
+  );
+  return gbmModel(base, p.learningRate, trees, X[0]?.length ?? 0);
+}
+
+// `xgb` is the loaded WASM backend; without it "xgboost" falls back to CART
+export function fitModel(
+  family: ModelFamily,
+  X: number[][],
+  y: number[],
+  params: TrainParams,
+  xgb: XGBoostBackend | null = null,
+  onProgress?: Progress
+): Model {
+  if (family === "forest") return fitForest(X, y, params.forest, 42, onProgress);
+  if (family === "gbm") return fitBoosting(X, y, params.boost, 42, onProgress);
+  if (family === "xgboost" && xgb) return xgb.train(X, y, params.xgboost);
+  if (family === "ridge") return fitRidge(X, y, params.ridge);
+  if (family === "lasso") return fitLasso(X, y, params.lasso);
+  if (family === "holtwinters") return fitHoltWinters(X, y, params.classical);
+  if (family === "snaive") return fitSeasonalNaive(X, y, params.classical);
+  return fitCART(X, y, params.cart);
+}
+
+// tuning grid; min gain is scaled to the target's variance
+export function cartSearchSpace(y: number[]): SearchSpace<CartParams> {
+  const v = variance(y);
+  return {
+    maxDepth: [2, 3, 4, 5, 6, 8],
+    minLeaf: [2, 4, 8, 16],
+    nThresholds: [9, 19, 0],
+    minGain: [1e-12, 1e-3 * v, 1e-2 * v],
+  };
+}
+
+// ---------- Plain-object models (files, worker messages) ----------
+export type SerializedModel =
+  | { type: "cart"; nFeatures: number; root: CartNode }
+  | { type: "forest"; nFeatures: number; trees: CartNode[] }
+  | { type: "gbm"; nFeatures: number; base: number; learningRate: number; trees: CartNode[] }
+  | { type: "ridge" | "lasso"; nFeatures: number; intercept: number; coef: number[] }
+  | { type: "holtwinters"; nFeatures: number; season: number; alpha: number; beta: number; gamma: number }
+  | { type: "snaive"; nFeatures: number; season: number };
+
+export function serializeModel(m: Model): SerializedModel {
+  if (m.type === "cart") return { type: "cart", nFeatures: m.nFeatures, root: m.root };
+  if (m.type === "forest") return { type: "forest", nFeatures: m.nFeatures, trees: m.trees };
+  if (m.type === "gbm") {
+    const { nFeatures, base, learningRate, trees } = m;
+    return { type: "gbm", nFeatures, base, learningRate, trees };
+  }
+  if (m.type === "ridge" || m.type === "lasso") {
+    return { type: m.type, nFeatures: m.nFeatures, intercept: m.intercept, coef: m.coef };
+  }
+  if (m.type === "holtwinters") {
+    const { nFeatures, season, alpha, beta, gamma } = m;
+    return { type: "holtwinters", nFeatures, season, alpha, beta, gamma };
+  }
+  if (m.type === "snaive") return { type: "snaive", nFeatures: m.nFeatures, season: m.season };
+  throw new Error("XGBoost models live in the WASM heap and can't be exported; use a JS model family.");
+}
+
+export function restoreModel(s: SerializedModel): Model {
+  if (s.type === "cart") return cartModel(s.root, s.nFeatures);
+  if (s.type === "forest") return forestModel(s.trees, s.nFeatures);
+  if (s.type === "gbm") return gbmModel(s.base, s.learningRate, s.trees, s.nFeatures);
+  if (s.type === "holtwinters") return holtWintersModel(s.season, s.alpha, s.beta, s.gamma, s.nFeatures);
+  if (s.type === "snaive") return seasonalNaiveModel(s.season, s.nFeatures);
+  return linearModel(s.type, s.intercept, s.coef);
+}
@@ -0,0 +1,73 @@
+// Hyperparameter search: grid or random candidates scored by a caller-supplied
+// objective (lower is better), e.g. the RMSE of a walk-forward backtest.
+
+// allowed values per parameter
+export type SearchSpace<P> = { [K in keyof P]: P[K][] };
+
+export type Trial<P> = { params: P; score: number };
+
+export type TuneResult<P> = {
+  best: P;
+  bestScore: number;
+  trials: Trial<P>[]; // sorted, best first
+};
+
+// every combination of the allowed values
+export function gridCandidates<P extends object>(space: SearchSpace<P>): P[] {
+  const keys = Object.keys(space) as (keyof P)[];
+  let out: Partial<P>[] = [{}];
+  for (const k of keys) {
+    const next: Partial<P>[] = [];
+    for (const partial of out) {
+      for (const v of space[k]) next.push({ ...partial, [k]: v });
+    }
+    out = next;
+  }
+  return out as P[];
+}
+
+// up to n distinct combinations drawn uniformly from the grid
+export function randomCandidates<P extends object>(
+  space: SearchSpace<P>,
+  n: number,
+  rand: () => number = Math.random
+): P[] {
+  const keys = Object.keys(space) as (keyof P)[];
+  const total = keys.reduce((acc, k) => acc * space[k].length, 1);
+  const want = Math.min(n, total);
+  const seen = new Set<string>();
+  const out: P[] = [];
+  while (out.length < want) {
+    const p = {} as P;
+    for (const k of keys) {
+      const vals = space[k];
+      p[k] = vals[Math.floor(rand() * vals.length)];
+    }
+    const key = JSON.stringify(p);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(p);
+  }
+  return out;
+}
+
+// candidates whose score is not finite (e.g. a failed fit) never win
+export function tune<P>(
+  candidates: P[],
+  score: (p: P) => number,
+  onTrial?: (done: number, total: number) => void
+): TuneResult<P> | null {
+  const trials: Trial<P>[] = candidates.map((params, i) => {
+    const trial = { params, score: score(params) };
+    onTrial?.(i + 1, candidates.length);
+    return trial;
+  });
+  trials.sort((a, b) => {
+    const sa = Number.isFinite(a.score) ? a.score : Infinity;
+    const sb = Number.isFinite(b.score) ? b.score : Infinity;
+    return sa - sb;
+  });
+  const best = trials[0];
+  if (!best || !Number.isFinite(best.score)) return null;
+  return { best: best.params, bestScore: best.score, trials };
+}
@@ -0,0 +1,324 @@
+// XGBoost backend built on the vendored WebAssembly module
+// (public/vendor/xgboost/lib/xgboost.wasm).
+//
+// The .wasm was produced by an old Emscripten toolchain and ships without its
+// JS glue, so this file provides the small runtime it imports (memory layout,
+// heap growth, a few libc syscalls and no-op pthread stubs) and wraps the C
+// entry points exported by the module:
+//   create_model(float* X, float* y, int rows, int cols) -> handle
+//   set_param(handle, char* key, char* value)
+//   train_full_model(handle, int rounds)
+//   predict_one(handle, float* x, int cols, float* out) -> n outputs
+//   free_memory_model(handle)
+// Nothing here depends on React or the DOM, so it runs unchanged under Node/Jest.
+
+export type XGBoostParams = {
+  rounds: number;
+  maxDepth: number;
+  eta: number; // learning rate
+  subsample: number;
+  colsampleByTree: number;
+  minChildWeight: number;
+  lambda: number; // L2 regularisation on leaf weights
+  seed: number;
+};
+
+export const DEFAULT_XGBOOST: XGBoostParams = {
+  rounds: 100,
+  maxDepth: 4,
+  eta: 0.1,
+  subsample: 0.8,
+  colsampleByTree: 0.8,
+  minChildWeight: 1,
+  lambda: 1,
+  seed: 42,
+};
+
+export type XGBoostModel = {
+  type: "xgboost";
+  nFeatures: number;
+  params: XGBoostParams;
+  predictBatch: (X: number[][]) => number[];
+  dispose: () => void; // frees the booster inside the wasm heap
+};
+
+export type XGBoostBackend = {
+  train: (X: number[][], y: number[], params?: Partial<XGBoostParams>) => XGBoostModel;
+};
+
+type Exports = {
+  _malloc: (n: number) => number;
+  _free: (p: number) => void;
+  _create_model: (X: number, y: number, rows: number, cols: number) => number;
+  _set_param: (h: number, key: number, value: number) => void;
+  _train_full_model: (h: number, rounds: number) => void;
+  _predict_one: (h: number, x: number, cols: number, out: number) => number;
+  _free_memory_model: (h: number) => void;
+  establishStackSpace?: (top: number, max: number) => void;
+  runPostSets?: () => void;
+  [name: string]: unknown;
+};
+
+// ---------- Memory layout ----------
+// Static data of the module ends below 100 KiB; leave headroom, then the
+// stack (5 MiB, Emscripten's default) and the sbrk heap above it.
+const PAGE = 65536;
+const INITIAL_PAGES = 256; // the module imports a 16 MiB memory
+const TABLE_SIZE = 2400;
+const STATIC_BASE = 1024;
+const STATIC_TOP = 1 << 20;
+const DYNAMICTOP_PTR = STATIC_TOP - 16;
+const STACKTOP = STATIC_TOP;
+const STACK_MAX = STACKTOP + 5 * (1 << 20);
+const DYNAMIC_BASE = STACK_MAX;
+
+// create_model builds its DMatrix with missing = -1, so an exact -1 would be
+// read as a missing value. Nudge it to the nearest float32 towards zero.
+const MISSING_SENTINEL = -1;
+const NOT_MISSING = -0.99999994;
+
+class XGBoostError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XGBoostError";
+  }
+}
+
+export async function instantiateXGBoost(bytes: BufferSource): Promise<XGBoostBackend> {
+  const memory = new WebAssembly.Memory({ initial: INITIAL_PAGES });
+  const table = new WebAssembly.Table({
+    initial: TABLE_SIZE,
+    maximum: TABLE_SIZE,
+    element: "anyfunc",
+  });
+  new Int32Array(memory.buffer)[DYNAMICTOP_PTR >> 2] = DYNAMIC_BASE;
+
+  const u8 = () => new Uint8Array(memory.buffer);
+  const i32 = () => new Int32Array(memory.buffer);
+  const f32 = () => new Float32Array(memory.buffer);
+
+  let ex: Exports | null = null;
+  let log = "";
+
+  const abort = (what: string) => (...args: unknown[]) => {
+    throw new XGBoostError(`${what}${args.length ? ` (${args.join(", ")})` : ""}`);
+  };
+
+  const env: Record<string, unknown> = {
+    memory,
+    table,
+    memoryBase: STATIC_BASE,
+    tableBase: 0,
+    DYNAMICTOP_PTR,
+    STACKTOP,
+    STACK_MAX,
+    ___dso_handle: 0,
+
+    abort: abort("abort"),
+    _abort: abort("abort"),
+    _exit: abort("exit"),
+    ___assert_fail: abort("assertion failed"),
+    ___cxa_throw: (..._args: unknown[]) => {
+      throw new XGBoostError(`XGBoost error: ${log.trim().split("\n").pop() ?? "unknown"}`);
+    },
+    ___cxa_pure_virtual: abort("pure virtual call"),
+    abortOnCannotGrowMemory: abort("out of memory"),
+    ___cxa_allocate_exception: (size: number) => ex!._malloc(size),
+    __ZSt18uncaught_exceptionv: () => 0,
+    ___cxa_atexit: () => 0,
+    ___cxa_thread_atexit: () => 0,
+
+    // sbrk moved DYNAMICTOP past the end of memory: grow to fit
+    enlargeMemory: () => {
+      const need = i32()[DYNAMICTOP_PTR >> 2];
+      const have = memory.buffer.byteLength;
+      if (need > have) memory.grow(Math.ceil((need - have) / PAGE) + 16);
+      return 1;
+    },
+    getTotalMemory: () => memory.buffer.byteLength,
+    _emscripten_memcpy_big: (dst: number, src: number, n: number) => {
+      u8().copyWithin(dst, src, src + n);
+      return dst;
+    },
+
+    // writev: collect stdout/stderr so errors can be reported
+    ___syscall146: (_which: number, varargs: number) => {
+      const h = i32();
+      const iov = h[(varargs + 4) >> 2];
+      const cnt = h[(varargs + 8) >> 2];
+      let written = 0;
+      for (let i = 0; i < cnt; i++) {
+        const ptr = h[(iov + i * 8) >> 2];
+        const len = h[(iov + i * 8 + 4) >> 2];
+        log += String.fromCharCode(...u8().subarray(ptr, ptr + len));
+        written += len;
+      }
+      if (log.length > 4096) log = log.slice(-4096);
+      return written;
+    },
+    // no filesystem: open/stat/getdents fail with ENOSYS, the rest succeed
+    ___syscall5: () => -38,
+    ___syscall195: () => -38,
+    ___syscall197: () => -38,
+    ___syscall220: () => -38,
+    ___syscall6: () => 0,
+    ___syscall54: () => 0,
+    ___syscall91: () => 0,
+    ___syscall140: () => 0,
+    ___syscall145: () => 0,
+    ___syscall221: () => 0,
+    ___map_file: () => -1,
+    ___setErrNo: () => 0,
+    ___lock: () => {},
+    ___unlock: () => {},
+    _getenv: () => 0,
+
+    // single-threaded: thread creation fails (EAGAIN), sync primitives are no-ops
+    _pthread_create: () => 11,
+    _pthread_join: () => 0,
+    _pthread_once: () => 0,
+    _pthread_key_create: () => 0,
+    _pthread_getspecific: () => 0,
+    _pthread_setspecific: () => 0,
+    _pthread_cond_wait: () => 0,
+    _pthread_cond_signal: () => 0,
+    _pthread_cond_destroy: () => 0,
+    _pthread_mutex_destroy: () => 0,
+
+    _time: (ptr: number) => {
+      const t = Math.floor(Date.now() / 1000);
+      if (ptr) i32()[ptr >> 2] = t;
+      return t;
+    },
+    _clock_gettime: (_clk: number, tp: number) => {
+      const ms = Date.now();
+      i32()[tp >> 2] = Math.floor(ms / 1000);
+      i32()[(tp + 4) >> 2] = (ms % 1000) * 1e6;
+      return 0;
+    },
+    _localtime_r: (_t: number, tm: number) => tm,
+    _strftime_l: () => 0,
+  };
+
+  const { instance } = (await WebAssembly.instantiate(bytes, {
+    env,
+    global: { NaN, Infinity },
+  } as WebAssembly.Imports)) as unknown as WebAssembly.WebAssemblyInstantiatedSource;
+  ex = instance.exports as unknown as Exports;
+
+  ex.establishStackSpace?.(STACKTOP, STACK_MAX);
+  ex.runPostSets?.();
+  // static constructors: the iostream init (__GLOBAL__I_*) first, then per-file ones
+  const ctors = Object.keys(ex).filter((k) => k.startsWith("__GLOBAL__"));
+  ctors.sort((a, b) => Number(b.startsWith("__GLOBAL__I_")) - Number(a.startsWith("__GLOBAL__I_")));
+  for (const k of ctors) (ex[k] as () => void)();
+
+  const api = ex;
+
+  const cString = (s: string): number => {
+    const p = api._malloc(s.length + 1);
+    const h = u8();
+    for (let i = 0; i < s.length; i++) h[p + i] = s.charCodeAt(i) & 0xff;
+    h[p + s.length] = 0;
+    return p;
+  };
+
+  const writeFloats = (ptr: number, values: ArrayLike<number>, offset = 0) => {
+    const h = f32();
+    const base = (ptr >> 2) + offset;
+    for (let i = 0; i < values.length; i++) {
+      const v = values[i];
+      h[base + i] = v === MISSING_SENTINEL ? NOT_MISSING : v;
+    }
+  };
+
+  // FinalizationRegistry frees boosters that were dropped without dispose()
+  const registry =
+    typeof FinalizationRegistry !== "undefined"
+      ? new FinalizationRegistry<number>((h) => api._free_memory_model(h))
+      : null;
+
+  const train = (
+    X: number[][],
+    y: number[],
+    overrides: Partial<XGBoostParams> = {}
+  ): XGBoostModel => {
+    const rows = X.length;
+    const cols = X[0]?.length ?? 0;
+    if (!rows || !cols || y.length !== rows) {
+      throw new XGBoostError("XGBoost needs a non-empty X with one label per row.");
+    }
+    const params = { ...DEFAULT_XGBOOST, ...overrides };
+
+    const xPtr = api._malloc(rows * cols * 4);
+    const yPtr = api._malloc(rows * 4);
+    for (let i = 0; i < rows; i++) writeFloats(xPtr, X[i], i * cols);
+    f32().set(y, yPtr >> 2);
+
+    const handle = api._create_model(xPtr, yPtr, rows, cols);
+    api._free(xPtr);
+    api._free(yPtr);
+
+    const baseScore = y.reduce((a, b) => a + b, 0) / rows;
+    const settings: [string, string | number][] = [
+      ["objective", "reg:linear"],
+      ["silent", 1],
+      ["nthread", 1],
+      ["base_score", baseScore],
+      ["max_depth", params.maxDepth],
+      ["eta", params.eta],
+      ["subsample", params.subsample],
+      ["colsample_bytree", params.colsampleByTree],
+      ["min_child_weight", params.minChildWeight],
+      ["lambda", params.lambda],
+      ["seed", params.seed],
+    ];
+    for (const [k, v] of settings) {
+      const kp = cString(k);
+      const vp = cString(String(v));
+      api._set_param(handle, kp, vp);
+      api._free(kp);
+      api._free(vp);
+    }
+    api._train_full_model(handle, params.rounds);
+
+    let disposed = false;
+    const model: XGBoostModel = {
+      type: "xgboost",
+      nFeatures: cols,
+      params,
+      predictBatch: (XX: number[][]) => {
+        if (disposed) throw new XGBoostError("XGBoost model was disposed.");
+        const xp = api._malloc(cols * 4);
+        const out = api._malloc(16);
+        try {
+          return XX.map((r) => {
+            writeFloats(xp, r);
+            api._predict_one(handle, xp, cols, out);
+            return f32()[out >> 2];
+          });
+        } finally {
+          api._free(xp);
+          api._free(out);
+        }
+      },
+      dispose: () => {
+        if (disposed) return;
+        disposed = true;
+        registry?.unregister(model);
+        api._free_memory_model(handle);
+      },
+    };
+    registry?.register(model, handle, model);
+    return model;
+  };
+
+  return { train };
+}
+
+// browser entry point: fetch the .wasm shipped under public/
+export async function loadXGBoost(url: string): Promise<XGBoostBackend> {
+  const res = await fetch(url);
+  if (!res.ok) throw new XGBoostError(`Failed to fetch ${url}: ${res.status}`);
+  return instantiateXGBoost(await res.arrayBuffer());
+}
@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   Platform,
   Text,
@@ -8,316 +8,245 @@ import {
   ScrollView,
   Linking,
   TouchableOpacity,
+  TextInput,
 } from "react-native";
-
-
-const LAGS = [1, 2, 3];                 // use 1~3 step lags
-const USE_DATETIME_FEATURES = true;     // add cyclic time features if datetime column exists
-
-function sincos(value: number, period: number) {
-  const angle = (2 * Math.PI * value) / period;
-  return { sin: Math.sin(angle), cos: Math.cos(angle) };
-}
-
-function getDateParts(d: Date) {
-  const w = d.getDay();   // 0..6
-  const m = d.getMonth(); // 0..11
-  return { weekday: w, month: m };
-}
-
-// --- Recharts (Web only) ---
-let Recharts: any = {};
-if (Platform.OS === "web") {
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  Recharts = require("recharts");
-}
-const {
-  ResponsiveContainer,
-  LineChart,
+import { CanvasChart } from "../components/CanvasChart";
+import { ClassMetricsTable, ConfusionTable, RocChart } from "../components/ClassificationViews";
+import {
+  ColumnSummaryTable,
+  CorrelationHeatmap,
+  CorrelogramChart,
+  DecompositionCharts,
+} from "../components/EdaViews";
+import { ForecastTable } from "../components/ForecastTable";
+import { formatNum } from "../components/format";
+import {
+  Area,
+  Bar,
+  Brush,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
   Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
   XAxis,
   YAxis,
-  CartesianGrid,
-  Tooltip,
-  Legend,
-} = Recharts;
-
-// --- XLSX (Web only) ---
-let XLSX: any = null;
-if (Platform.OS === "web") {
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  XLSX = require("xlsx");
-}
+} from "../components/recharts";
+import { ScenarioEditor } from "../components/ScenarioEditor";
+import { TextField } from "../components/TextField";
+import { Anomaly, AnomalyOptions, AnomalyResult, AnomalyScope, DEFAULT_ANOMALY, median } from "../lib/anomaly";
+import { BacktestOptions, DEFAULT_BACKTEST, Metrics } from "../lib/backtest";
+import { BatchMode, BatchResult } from "../lib/batch";
+import { ClassicalParams, classicalWindow, DEFAULT_CLASSICAL, featuresForFamily, isClassical } from "../lib/classical";
+import { chartSvg, svgToPng } from "../lib/chartImage";
+import { ChartScale, scaleTransform } from "../lib/chartScale";
+import { downsampleRows } from "../lib/downsample";
+import {
+  ClassifierFamily,
+  ClassifierParams,
+  ClassTarget,
+  DEFAULT_CLASSIFIER,
+  describeClassTarget,
+  SplitCriterion,
+  ThresholdOp,
+} from "../lib/classify";
+import { CsvOptions, DecimalSeparator, ENCODINGS, sniffCsv, SNIFF_BYTES } from "../lib/csv";
+import { DataFrame, previewCSV, RawTable, Row, SheetOptions, toDataFrame } from "../lib/data";
+import { DEFAULT_EDA, EdaOptions, EdaReport } from "../lib/eda";
+import {
+  buildFeatures,
+  CalendarFeature,
+  CategoricalEncoding,
+  DEFAULT_FEATURES,
+  EMPTY_FEATURE_SET,
+  FeatureConfig,
+  inferCadenceMs,
+  RollingStat,
+  RowWindow,
+  seasonLengthFor,
+} from "../lib/features";
+import { reportHtml, resultsCsv, resultsTable, resultsXlsx, RunReport } from "../lib/export";
+import { DecisionPath, decisionPath, Explanation, explainPrediction, treeEnsemble } from "../lib/explain";
+import { conformalIntervals } from "../lib/intervals";
+import { BacktestRun, ClassifyRun, Job, JobType, Leaderboard } from "../lib/jobs";
+import { DEFAULT_JOIN, JoinHow, JoinOptions, joinOnTime } from "../lib/join";
+import { DEFAULT_LASSO, DEFAULT_RIDGE, LinearParams } from "../lib/linear";
+import { JobCancelled, MLClient } from "../lib/mlClient";
+import {
+  checkModelFile,
+  MODEL_FILE_FORMAT,
+  MODEL_FILE_VERSION,
+  ModelFile,
+  parseModelFile,
+  readRecentModels,
+  storeRecentModel,
+  TrainMeta,
+} from "../lib/modelFile";
+import {
+  Aggregation,
+  DEFAULT_PREPROCESS,
+  DuplicatePolicy,
+  Frequency,
+  Imputation,
+  preprocess,
+  PreprocessConfig,
+  PreprocessReport,
+} from "../lib/preprocess";
+import { BASELINE_SCENARIO, runScenarios, Scenario, scenarioFromFile, ScenarioRun } from "../lib/scenario";
+import { COLUMN_TYPES, ColumnSpec, DATETIME_FORMATS, isValidTimezone, Schema } from "../lib/schema";
+import {
+  BoostParams,
+  CartNode,
+  CartParams,
+  DEFAULT_BOOST,
+  DEFAULT_CART,
+  DEFAULT_FOREST,
+  ForestParams,
+  Model,
+  ModelFamily,
+  restoreModel,
+  serializeModel,
+  TrainParams,
+} from "../lib/trees";
+import { TuneResult } from "../lib/tuning";
+import {
+  DEFAULT_XGBOOST,
+  loadXGBoost,
+  XGBoostBackend,
+  XGBoostParams,
+} from "../lib/xgboost";
 
 // ---------- Types ----------
-type Row = { [key: string]: number | string | Date | null };
-type DataFrame = {
-  columns: string[]; // includes 'datetime' if present
-  rows: Row[]; // parsed rows (objects with keys = columns)
-  numericCols: string[]; // numeric columns only (exclude 'datetime')
-  datetimeKey?: string; // detected datetime column name (if any)
-};
+// recursive: one t+1 model, predictions fed back into the lag features
+// direct: one model per step ahead, each trained on X(t) -> y(t+h)
+type ForecastMode = "recursive" | "direct";
+// svg: Recharts over a downsampled copy of the rows; canvas: every row, drawn
+// as a min/max envelope per pixel column
+type ChartRenderer = "svg" | "canvas";
+
+// ---------- Model labels ----------
+function describeCart(p: CartParams): string {
+  const thr = p.nThresholds > 0 ? `${p.nThresholds} thresholds` : "exact splits";
+  return `depth ${p.maxDepth}, min leaf ${p.minLeaf}, ${thr}, min gain ${p.minGain.toPrecision(3)}`;
+}
 
-type CartNode =
-  | {
-      kind: "leaf";
-      value: number;
-      size: number;
-      depth: number;
-    }
-  | {
-      kind: "split";
-      feature: number; // index in feature vector
-      threshold: number;
-      left: CartNode;
-      right: CartNode;
-      size: number;
-      depth: number;
-    };
+function describeModel(m: Model): string {
+  if (m.type === "forest") return `random forest (${m.trees.length} trees)`;
+  if (m.type === "gbm") return `gradient boosting (${m.trees.length} rounds)`;
+  if (m.type === "xgboost") return `XGBoost (${m.params.rounds} rounds)`;
+  if (m.type === "ridge" || m.type === "lasso") {
+    const used = m.coef.filter((c) => c !== 0).length;
+    return `${m.type} regression (${used} of ${m.coef.length} coefficients non-zero)`;
+  }
+  if (m.type === "holtwinters") {
+    const w = [m.alpha, m.beta, m.gamma].map((v) => v.toFixed(2)).join("/");
+    return `Holt-Winters (season ${m.season}, α/β/γ ${w})`;
+  }
+  if (m.type === "snaive") return `seasonal naive (season ${m.season})`;
+  return "CART";
+}
 
-type Model = {
-  type: "cart";
-  nFeatures: number;
-  root: CartNode;
-  predictBatch: (X: number[][]) => number[];
-};
+// ---------- XGBoost (WASM, web only) ----------
+const XGBOOST_WASM_URL = `${process.env.EXPO_BASE_URL ?? ""}/vendor/xgboost/lib/xgboost.wasm`;
+let xgboostLoading: Promise<XGBoostBackend> | null = null;
 
-// ---------- CSV Parsing ----------
-function parseCSV(text: string): DataFrame {
-  const lines = text
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter((l) => l.length > 0);
-  if (lines.length < 2) return { columns: [], rows: [], numericCols: [] };
-
-  const header = lines[0].split(",").map((h) => h.trim());
-  const rows: Row[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const parts = splitCsvLine(lines[i], header.length);
-    const row: Row = {};
-    header.forEach((h, idx) => {
-      row[h] = coerce(parts[idx]);
+// load once per page; a failed load is forgotten so the next Train retries
+function getXGBoost(): Promise<XGBoostBackend> {
+  if (Platform.OS !== "web" || typeof WebAssembly === "undefined") {
+    return Promise.reject(new Error("WebAssembly is not available on this platform"));
+  }
+  if (!xgboostLoading) {
+    xgboostLoading = loadXGBoost(XGBOOST_WASM_URL).catch((err) => {
+      xgboostLoading = null;
+      throw err;
     });
-    rows.push(row);
   }
-
-  // detect datetime-like column
-  const datetimeKey = header.find(
-    (h) =>
-      h.toLowerCase() === "datetime" ||
-      h.toLowerCase() === "date" ||
-      h.toLowerCase() === "time"
-  );
-
-  const numericCols = header.filter((h) => {
-    if (datetimeKey && h === datetimeKey) return false;
-    // consider numeric if more than half of values are numbers
-    let nNum = 0;
-    for (const r of rows) if (typeof r[h] === "number") nNum++;
-    return nNum >= Math.max(1, Math.floor(rows.length * 0.5));
-  });
-
-  return { columns: header, rows, numericCols, datetimeKey };
+  return xgboostLoading;
 }
 
-function splitCsvLine(line: string, nCols: number): string[] {
-  const out: string[] = [];
-  let cur = "";
-  let inQuotes = false;
-  for (let i = 0; i < line.length; i++) {
-    const c = line[i];
-    if (c === '"' && (i === 0 || line[i - 1] !== "\\")) {
-      inQuotes = !inQuotes;
-      continue;
-    }
-    if (c === "," && !inQuotes) {
-      out.push(cur);
-      cur = "";
-    } else {
-      cur += c;
-    }
+// resolve the family actually trained: "xgboost" degrades to CART when the module can't load
+async function prepareFamily(
+  family: ModelFamily,
+  onStatus: (s: string) => void
+): Promise<{ fam: ModelFamily; xgb: XGBoostBackend | null; note: string }> {
+  if (family !== "xgboost") return { fam: family, xgb: null, note: "" };
+  onStatus("Loading XGBoost (WASM)...");
+  try {
+    return { fam: family, xgb: await getXGBoost(), note: "" };
+  } catch (err: any) {
+    const note = ` XGBoost unavailable (${err?.message ?? String(err)}); fell back to CART.`;
+    return { fam: "cart", xgb: null, note };
   }
-  out.push(cur);
-  while (out.length < nCols) out.push("");
-  return out;
-}
-
-function coerce(v: string | undefined): number | string | Date | null {
-  if (v == null) return null;
-  const t = v.trim();
-  if (t === "") return null;
-
-  // ISO-like date?
-  const maybeDate = new Date(t);
-  if (!isNaN(+maybeDate) && /[-T:\/]/.test(t)) return maybeDate;
-
-  const n = Number(t);
-  if (!isNaN(n)) return n;
-  return t;
 }
 
-// ---------- XLSX Parsing (SheetJS) ----------
-async function parseXLSX(file: File): Promise<DataFrame> {
-  if (!XLSX) throw new Error("XLSX not available on this platform");
-  const buf = await file.arrayBuffer();
-  const wb = XLSX.read(buf, { type: "array" });
-
-  // Choose first sheet
-  const first = wb.SheetNames[0];
-  const ws = wb.Sheets[first];
-
-  // to_json with header
-  const json: any[] = XLSX.utils.sheet_to_json(ws, { raw: true, defval: null });
-
-  if (!json.length) return { columns: [], rows: [], numericCols: [] };
-
-  // Columns from keys
-  const columns = Array.from(
-    new Set(json.flatMap((r) => Object.keys(r as object)))
-  );
-
-  // Normalize & coerce
-  const rows: Row[] = json.map((r) => {
-    const out: Row = {};
-    for (const c of columns) {
-      const v = (r as any)[c];
-      if (typeof v === "string") {
-        out[c] = coerce(v);
-      } else if (typeof v === "number") {
-        out[c] = v;
-      } else if (v && v instanceof Date) {
-        out[c] = v;
-      } else {
-        out[c] = v ?? null;
-      }
-    }
-    return out;
-  });
-
-  // detect datetime
-  const datetimeKey = columns.find(
-    (h) =>
-      h.toLowerCase() === "datetime" ||
-      h.toLowerCase() === "date" ||
-      h.toLowerCase() === "time"
-  );
-
-  const numericCols = columns.filter((h) => {
-    if (datetimeKey && h === datetimeKey) return false;
-    let nNum = 0;
-    for (const r of rows) if (typeof r[h] === "number") nNum++;
-    return nNum >= Math.max(1, Math.floor(rows.length * 0.5));
-  });
-
-  return { columns, rows, numericCols, datetimeKey };
+// ---------- Model inspection ----------
+function modelTrees(m: Model): CartNode[] | null {
+  return treeEnsemble(m)?.trees ?? null;
 }
 
-// ---------- CART (tiny decision tree regressor) ----------
-function variance(arr: number[]): number {
-  if (arr.length === 0) return 0;
-  const m = arr.reduce((a, b) => a + b, 0) / arr.length;
-  return arr.reduce((s, v) => s + (v - m) * (v - m), 0) / arr.length;
+// mean decrease in impurity, summed over all splits and normalised to 1
+function impurityImportance(m: Model): number[] | null {
+  const trees = modelTrees(m);
+  if (!trees) return null;
+  const imp = new Array(m.nFeatures).fill(0);
+  const walk = (n: CartNode) => {
+    if (n.kind === "leaf") return;
+    imp[n.feature] += n.gain ?? 0;
+    walk(n.left);
+    walk(n.right);
+  };
+  trees.forEach(walk);
+  const total = imp.reduce((a, b) => a + b, 0);
+  return total > 0 ? imp.map((v) => v / total) : imp;
 }
 
-function buildCART(
-  X: number[][],
-  y: number[],
-  depth = 0,
-  maxDepth = 4,
-  minLeaf = 8
-): CartNode {
-  const n = y.length;
-  if (n <= minLeaf || depth >= maxDepth) {
-    const val = y.reduce((a, b) => a + b, 0) / Math.max(1, n);
-    return { kind: "leaf", value: val, size: n, depth };
-  }
-
-  const parentVar = variance(y);
-  let bestGain = 0;
-  let bestFeat = -1;
-  let bestThr = 0;
-  let bestLeftIdx: number[] = [];
-  let bestRightIdx: number[] = [];
-
-  const nFeat = X[0]?.length ?? 0;
-
-  for (let f = 0; f < nFeat; f++) {
-    // try candidate thresholds as quantiles (10 bins)
-    const vals = X.map((row) => row[f]).filter((v) => Number.isFinite(v));
-    if (!vals.length) continue;
-    const sorted = [...vals].sort((a, b) => a - b);
-    const candidates: number[] = [];
-    for (let q = 1; q < 10; q++) {
-      const idx = Math.floor((q * sorted.length) / 10);
-      if (idx >= 0 && idx < sorted.length) candidates.push(sorted[idx]);
-    }
-    for (const thr of candidates) {
-      const L: number[] = [];
-      const R: number[] = [];
-      const Li: number[] = [];
-      const Ri: number[] = [];
-      for (let i = 0; i < n; i++) {
-        const v = X[i][f];
-        if (v <= thr) {
-          L.push(y[i]);
-          Li.push(i);
-        } else {
-          R.push(y[i]);
-          Ri.push(i);
-        }
-      }
-      if (L.length < minLeaf || R.length < minLeaf) continue;
-      const gain =
-        parentVar -
-        (L.length / n) * variance(L) -
-        (R.length / n) * variance(R);
-      if (gain > bestGain) {
-        bestGain = gain;
-        bestFeat = f;
-        bestThr = thr;
-        bestLeftIdx = Li;
-        bestRightIdx = Ri;
-      }
-    }
+// ---------- Browser storage ----------
+const SCHEMAS_KEY = "client_side_ml/schemas";
+const MAX_SAVED_SCHEMAS = 20;
+
+// column types set on import, remembered per header (the column names in order)
+function readSavedSchema(columns: string[]): Schema {
+  try {
+    const raw = globalThis.localStorage?.getItem(SCHEMAS_KEY);
+    const list: { columns: string[]; schema: Schema }[] = raw ? JSON.parse(raw) : [];
+    const key = JSON.stringify(columns);
+    return list.find((e) => JSON.stringify(e.columns) === key)?.schema ?? {};
+  } catch {
+    return {};
   }
+}
 
-  if (bestGain <= 1e-12 || bestFeat < 0) {
-    const val = y.reduce((a, b) => a + b, 0) / Math.max(1, n);
-    return { kind: "leaf", value: val, size: n, depth };
+function storeSavedSchema(columns: string[], schema: Schema) {
+  try {
+    const raw = globalThis.localStorage?.getItem(SCHEMAS_KEY);
+    const key = JSON.stringify(columns);
+    const list: { columns: string[]; schema: Schema }[] = (raw ? JSON.parse(raw) : []).filter(
+      (e: { columns: string[] }) => JSON.stringify(e.columns) !== key
+    );
+    if (Object.keys(schema).length) list.unshift({ columns, schema });
+    globalThis.localStorage?.setItem(SCHEMAS_KEY, JSON.stringify(list.slice(0, MAX_SAVED_SCHEMAS)));
+  } catch {
+    // storage full or unavailable: the types just aren't remembered
   }
-
-  const XL = bestLeftIdx.map((i) => X[i]);
-  const XR = bestRightIdx.map((i) => X[i]);
-  const yL = bestLeftIdx.map((i) => y[i]);
-  const yR = bestRightIdx.map((i) => y[i]);
-
-  return {
-    kind: "split",
-    feature: bestFeat,
-    threshold: bestThr,
-    left: buildCART(XL, yL, depth + 1, maxDepth, minLeaf),
-    right: buildCART(XR, yR, depth + 1, maxDepth, minLeaf),
-    size: n,
-    depth,
-  };
 }
 
-function predictTree(node: CartNode, x: number[]): number {
-  if (node.kind === "leaf") return node.value;
-  return x[node.feature] <= node.threshold
-    ? predictTree(node.left, x)
-    : predictTree(node.right, x);
+// web only: save a file through a temporary <a download>
+function downloadBlob(filename: string, blob: Blob) {
+  if (Platform.OS !== "web") return;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
-function fitCART(X: number[][], y: number[]): Model {
-  const root = buildCART(X, y);
-  return {
-    type: "cart",
-    nFeatures: X[0]?.length ?? 0,
-    root,
-    predictBatch: (XX: number[][]) => XX.map((r) => predictTree(root, r)),
-  };
+function downloadText(filename: string, text: string, mime = "application/json") {
+  downloadBlob(filename, new Blob([text], { type: mime }));
 }
 
 // ---------- Color palette ----------
@@ -343,17 +272,243 @@ function colorFor(idx: number) {
   return PALETTE[idx % PALETTE.length];
 }
 
+const FAMILY_LABEL: Record<ModelFamily, string> = {
+  cart: "Decision Tree",
+  forest: "Random Forest",
+  gbm: "Gradient Boosting",
+  xgboost: "XGBoost (WASM)",
+  ridge: "Ridge",
+  lasso: "Lasso",
+  holtwinters: "Holt-Winters",
+  snaive: "Seasonal naive",
+};
+
+const CLASSIFIER_LABEL: Record<ClassifierFamily, string> = {
+  tree: "Decision tree",
+  forest: "Random forest",
+};
+const CRITERION_LABEL: Record<SplitCriterion, string> = {
+  gini: "Gini",
+  entropy: "entropy",
+};
+const THRESHOLD_OPS: ThresholdOp[] = [">", ">=", "<", "<="];
+
+const CALENDAR_LABEL: Record<CalendarFeature, string> = {
+  weekday: "day of week",
+  month: "month",
+  hour: "hour of day",
+  dayOfYear: "day of year",
+  holiday: "holiday flag",
+};
+
+function toggleIn<T>(list: T[], v: T): T[] {
+  return list.includes(v) ? list.filter((x) => x !== v) : [...list, v];
+}
+
+// status line for a failed or cancelled job
+function failure(what: string, err: any): string {
+  return err instanceof JobCancelled ? "Cancelled." : `${what}: ${err?.message ?? String(err)}`;
+}
+
+// chart key for the forecast path (kept apart from user column names)
+const FORECAST_KEY = "__forecast";
+const OOS_KEY = "__oos";
+const BAND_KEY = "__band"; // [lower, upper] of the prediction interval
+const ANOMALY_KEY = "__anomaly:"; // + series name: the flagged value
+const BATCH_KEY = "__batch:"; // + series name: its forecast from "Forecast all series"
+const SCENARIO_KEY = "__scenario:"; // + scenario name: the target's forecast under it
+const MAX_SCENARIO_STEPS = 60; // editable steps per series; longer plans are uploaded
+const SCENARIO_COLORS = ["#e8eaed", "#f9ab00", "#12b5cb", "#ff8bcb", "#a142f4", "#34a853"];
+const BATCH_MODE_LABEL: Record<BatchMode, string> = {
+  local: "one model per series",
+  global: "one global model",
+};
+const ANOMALY_THRESHOLDS = [2.5, 3, 3.5, 5];
+const ANOMALY_SCOPE_LABEL: Record<AnomalyScope, string> = {
+  target: "target only",
+  all: "every numeric series",
+};
+const COVERAGE_LEVELS = [0.8, 0.9, 0.95, 0.99];
+const SCALE_LABEL: Record<ChartScale, string> = {
+  shared: "shared axis",
+  axes: "axis per series",
+  zscore: "z-score",
+  index: "index (first = 100)",
+};
+// the chart plots at most this many points of the zoomed range, the overview
+// under it fewer (see lib/downsample.ts)
+const MAX_CHART_POINTS = 2000;
+const OVERVIEW_POINTS = 500;
+// from this many rows on, the chart can also be drawn on a canvas
+const LARGE_SERIES_ROWS = 20000;
+const RENDERER_LABEL: Record<ChartRenderer, string> = {
+  svg: "SVG (downsampled)",
+  canvas: "canvas (every row)",
+};
+const DELIMITER_LABEL: [string, string][] = [
+  [",", ","],
+  [";", ";"],
+  ["\t", "Tab"],
+  ["|", "|"],
+];
+const DECIMAL_LABEL: [DecimalSeparator, string][] = [
+  [".", "1.5"],
+  [",", "1,5"],
+];
+
+const ENCODING_LABEL: Record<CategoricalEncoding, string> = {
+  onehot: "one-hot",
+  target: "target mean",
+};
+
+const IMPUTATION_LABEL: Record<Imputation, string> = {
+  none: "leave missing",
+  ffill: "forward fill",
+  linear: "linear",
+  seasonal: "seasonal mean",
+};
+const DUPLICATE_LABEL: Record<DuplicatePolicy, string> = {
+  keep: "keep all",
+  first: "first",
+  last: "last",
+  mean: "mean",
+};
+const FREQUENCY_LABEL: Record<Frequency, string> = {
+  none: "as is",
+  hour: "hourly",
+  day: "daily",
+  week: "weekly",
+};
+const AGGREGATIONS: Aggregation[] = ["mean", "sum", "last"];
+
+// e.g. "120 -> 96 rows: 3 without a timestamp dropped, 21 merged. Imputed 5 of 8 missing values."
+function describePreprocess(r: PreprocessReport): string {
+  const changes = [
+    r.noTimestamp ? `${r.noTimestamp} without a timestamp dropped` : "",
+    r.merged ? `${r.merged} merged` : "",
+    r.added ? `${r.added} empty periods added` : "",
+  ].filter(Boolean);
+  const sum = (m: Record<string, number>) => Object.values(m).reduce((a, b) => a + b, 0);
+  const missing = sum(r.missing);
+  const imputed = sum(r.imputed);
+  return (
+    `${r.rowsIn} -> ${r.rowsOut} rows${changes.length ? `: ${changes.join(", ")}` : ""}. ` +
+    (missing ? `Imputed ${imputed} of ${missing} missing values.` : "No missing values.")
+  );
+}
+
+// a file waiting for its CSV dialect and column types to be confirmed on a preview
+type PendingImport = {
+  name: string;
+  bytes: ArrayBuffer;
+  csv: CsvOptions | null; // null for spreadsheets
+  sheet: SheetOptions; // spreadsheets only
+  table: RawTable | null; // spreadsheet preview rows; CSV previews are re-read as `csv` changes
+};
+const MAX_HORIZON = 365;
+
 // ---------- HomeScreen ----------
 export default function HomeScreen() {
   const { width, height } = useWindowDimensions();
-  const [df, setDf] = useState<DataFrame | null>(null);
+  const [loadedDf, setLoadedDf] = useState<DataFrame | null>(null);
+  const [prepConfig, setPrepConfig] = useState<PreprocessConfig>(DEFAULT_PREPROCESS);
   const [visible, setVisible] = useState<Record<string, boolean>>({});
   const [target, setTarget] = useState<string | null>(null);
   const [model, setModel] = useState<Model | null>(null);
   const [prediction, setPrediction] = useState<number | null>(null);
+  const [horizon, setHorizon] = useState<number>(1);
+  const [forecastMode, setForecastMode] = useState<ForecastMode>("recursive");
+  const [directModels, setDirectModels] = useState<Model[]>([]);
+  const [forecast, setForecast] = useState<number[] | null>(null);
+  const [family, setFamily] = useState<ModelFamily>("cart");
+  const [cartParams, setCartParams] = useState<CartParams>(DEFAULT_CART);
+  const [tuneMode, setTuneMode] = useState<"grid" | "random">("random");
+  const [tuneTrials, setTuneTrials] = useState<number>(30);
+  const [tuneResult, setTuneResult] = useState<TuneResult<CartParams> | null>(null);
+  const [forestParams, setForestParams] = useState<ForestParams>(DEFAULT_FOREST);
+  const [boostParams, setBoostParams] = useState<BoostParams>(DEFAULT_BOOST);
+  const [xgbParams, setXgbParams] = useState<XGBoostParams>(DEFAULT_XGBOOST);
+  const [ridgeParams, setRidgeParams] = useState<LinearParams>(DEFAULT_RIDGE);
+  const [lassoParams, setLassoParams] = useState<LinearParams>(DEFAULT_LASSO);
+  const [classicalParams, setClassicalParams] = useState<ClassicalParams>(DEFAULT_CLASSICAL);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [features, setFeatures] = useState<FeatureConfig>(DEFAULT_FEATURES);
+  const [btOptions, setBtOptions] = useState<BacktestOptions>(DEFAULT_BACKTEST);
+  const [backtestResult, setBacktestResult] = useState<BacktestRun | null>(null);
+  const [showOOS, setShowOOS] = useState<boolean>(true);
   const [status, setStatus] = useState<string>("");
+  const [sourceName, setSourceName] = useState<string | null>(null);
+  const [trainMeta, setTrainMeta] = useState<TrainMeta | null>(null);
+  const [recentModels, setRecentModels] = useState<ModelFile[]>([]);
+  const [permImportance, setPermImportance] = useState<number[] | null>(null);
+  const [treeIndex, setTreeIndex] = useState<number>(0);
+  // the prediction to explain: 0 = the next step, else the data row (1-based) it predicts
+  const [explainRow, setExplainRow] = useState<number>(0);
+  const [coverage, setCoverage] = useState<number>(0.8);
+  const [loadedCalibration, setLoadedCalibration] = useState<number[] | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importSchema, setImportSchema] = useState<Schema | null>(null);
+  const [joinOptions, setJoinOptions] = useState<JoinOptions>(DEFAULT_JOIN);
+  const [anomalyOptions, setAnomalyOptions] = useState<AnomalyOptions>(DEFAULT_ANOMALY);
+  const [anomalyResult, setAnomalyResult] = useState<AnomalyResult | null>(null);
+  const [batchMode, setBatchMode] = useState<BatchMode>("local");
+  const [batchResult, setBatchResult] = useState<BatchResult | null>(null);
+  // set: predict a class (a categorical column or a rule over `target`) instead of a value
+  const [classTarget, setClassTarget] = useState<ClassTarget | null>(null);
+  const [classifierFamily, setClassifierFamily] = useState<ClassifierFamily>("tree");
+  const [classifierParams, setClassifierParams] = useState<ClassifierParams>(DEFAULT_CLASSIFIER);
+  const [classifyResult, setClassifyResult] = useState<ClassifyRun | null>(null);
+  const [chartScale, setChartScale] = useState<ChartScale>("shared");
+  // rows train fits on (by target row), picked by dragging across the chart
+  const [trainWindow, setTrainWindow] = useState<RowWindow | null>(null);
+  const [pickingWindow, setPickingWindow] = useState<boolean>(false);
+  const [dragWindow, setDragWindow] = useState<{ from: number; to: number } | null>(null);
+  // rows of the chart on display (set with the overview's brush); null = all
+  const [zoom, setZoom] = useState<RowWindow | null>(null);
+  const [renderer, setRenderer] = useState<ChartRenderer>("svg");
+  const [edaOptions, setEdaOptions] = useState<EdaOptions>(DEFAULT_EDA);
+  const [edaReport, setEdaReport] = useState<EdaReport | null>(null);
+  // what-if: future values of exogenous series, each forecast recursively
+  const [scenarios, setScenarios] = useState<Scenario[]>([BASELINE_SCENARIO]);
+  const [scenarioIndex, setScenarioIndex] = useState<number>(0);
+  const [scenarioRuns, setScenarioRuns] = useState<ScenarioRun[] | null>(null);
+
+  // cleaning applied on top of the loaded data; everything downstream reads `df`
+  const prepared = useMemo(() => {
+    if (!loadedDf) return null;
+    try {
+      return { ...preprocess(loadedDf, prepConfig), error: null };
+    } catch (err: any) {
+      return { df: loadedDf, report: null, error: failure("Preprocessing skipped", err) };
+    }
+  }, [loadedDf, prepConfig]);
+  const df = prepared?.df ?? null;
+
+  // parsing, training and evaluation run in a Web Worker where available
+  const [ml] = useState(() => new MLClient());
+  useEffect(() => () => ml.dispose(), [ml]);
+
+  const runML = useCallback(
+    async <T extends JobType>(label: string, job: Extract<Job, { type: T }>, xgb: XGBoostBackend | null = null) => {
+      setBusy(true);
+      setStatus(`${label}...`);
+      try {
+        return await ml.run(job, df, {
+          xgb,
+          onProgress: (done, total) => setStatus(`${label}... ${Math.floor((100 * done) / total)}%`),
+        });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [ml, df]
+  );
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const modelInputRef = useRef<HTMLInputElement | null>(null);
+  const chartRef = useRef<View | null>(null);
+  const scenarioInputRef = useRef<HTMLInputElement | null>(null);
   const accept = ".csv, .xlsx, .xls";
 
   const onPickFile = useCallback(() => {
@@ -364,152 +519,650 @@ export default function HomeScreen() {
     }
   }, []);
 
-  const onFileChange = useCallback(async (e: any) => {
-    try {
-      const file: File | undefined = e.target?.files?.[0];
-      if (!file) return;
-      const name = (file.name || "").toLowerCase();
+  const commitData = useCallback((parsed: DataFrame, name: string) => {
+    // default visibility on
+    const vis: Record<string, boolean> = {};
+    for (let i = 0; i < parsed.numericCols.length; i++) {
+      vis[parsed.numericCols[i]] = true;
+    }
 
-      setStatus("Parsing...");
-      let parsed: DataFrame;
+    setLoadedDf(parsed);
+    setSourceName(name || null);
+    setVisible(vis);
+    // keep the target if it's still there (e.g. after a join), else the first numeric column
+    setTarget((t) => (t && parsed.numericCols.includes(t) ? t : parsed.numericCols[0] ?? null));
+    setClassTarget((c) =>
+      c && (c.kind === "category" ? parsed.categoricalCols : parsed.numericCols).includes(c.column) ? c : null
+    );
+    setModel(null);
+    setTrainMeta(null);
+    setLoadedCalibration(null);
+    setDirectModels([]);
+    setPrediction(null);
+    setForecast(null);
+    setStatus("Loaded.");
+  }, []);
 
-      if (name.endsWith(".csv")) {
-        const text = await file.text();
-        parsed = parseCSV(text);
-      } else if (name.endsWith(".xlsx") || name.endsWith(".xls")) {
-        parsed = await parseXLSX(file);
-      } else {
-        setStatus("Unsupported file type. Please select CSV/XLSX.");
-        return;
-      }
+  const onFileChange = useCallback(
+    async (e: any) => {
+      try {
+        const file: File | undefined = e.target?.files?.[0];
+        if (!file) return;
+        if (!/\.(csv|xlsx|xls)$/i.test(file.name || "")) {
+          setStatus("Unsupported file type. Please select CSV/XLSX.");
+          return;
+        }
 
-      // default visibility on
-      const vis: Record<string, boolean> = {};
-      for (let i = 0; i < parsed.numericCols.length; i++) {
-        vis[parsed.numericCols[i]] = true;
+        // confirm the sniffed CSV dialect and the inferred column types before parsing the whole file
+        const bytes = await file.arrayBuffer();
+        if (/\.csv$/i.test(file.name)) {
+          const head = new Uint8Array(bytes, 0, Math.min(bytes.byteLength, SNIFF_BYTES));
+          setPendingImport({ name: file.name, bytes, csv: sniffCsv(head), sheet: {}, table: null });
+        } else {
+          const table = await runML("Reading", { type: "preview", name: file.name, bytes });
+          setPendingImport({ name: file.name, bytes, csv: null, sheet: {}, table });
+        }
+        setImportSchema(null);
+        setStatus("Check the import preview, then load.");
+      } catch (err: any) {
+        setStatus(failure("Parse error", err));
       }
+    },
+    [runML]
+  );
 
-      setDf(parsed);
-      setVisible(vis);
-      // auto-select first numeric column as target
-      setTarget(parsed.numericCols[0] ?? null);
-      setModel(null);
-      setPrediction(null);
-      setStatus("Loaded.");
-    } catch (err: any) {
-      setStatus(`Parse error: ${err?.message ?? String(err)}`);
+  const previewTable = useMemo(() => {
+    if (!pendingImport) return null;
+    if (!pendingImport.csv) return pendingImport.table;
+    try {
+      return previewCSV(pendingImport.bytes, pendingImport.csv);
+    } catch {
+      return null; // e.g. an encoding this platform cannot decode
     }
+  }, [pendingImport]);
+
+  // column types set in the preview, else the ones remembered for this header
+  const schemaOverrides = useMemo(
+    () => importSchema ?? (previewTable ? readSavedSchema(previewTable.columns) : {}),
+    [importSchema, previewTable]
+  );
+
+  const importPreview = useMemo(
+    () => (previewTable?.columns.length ? toDataFrame(previewTable, schemaOverrides) : null),
+    [previewTable, schemaOverrides]
+  );
+
+  const setImportOption = useCallback((patch: Partial<CsvOptions>) => {
+    setPendingImport((p) => (p?.csv ? { ...p, csv: { ...p.csv, ...patch } } : p));
   }, []);
 
+  // workbooks: re-read the preview from another sheet or header row
+  const selectSheet = useCallback(
+    async (patch: SheetOptions) => {
+      if (!pendingImport) return;
+      const { name, bytes } = pendingImport;
+      const sheet = { ...pendingImport.sheet, ...patch };
+      try {
+        const table = await runML("Reading", { type: "preview", name, bytes, read: { sheet } });
+        setPendingImport((p) => (p && p.bytes === bytes ? { ...p, sheet, table } : p));
+        setImportSchema(null);
+        setStatus("Check the import preview, then load.");
+      } catch (err: any) {
+        setStatus(failure("Parse error", err));
+      }
+    },
+    [pendingImport, runML]
+  );
+
+  const setColumnSpec = useCallback(
+    (column: string, spec: ColumnSpec | null) => {
+      const schema = { ...schemaOverrides };
+      if (spec) schema[column] = spec;
+      else delete schema[column];
+      setImportSchema(schema);
+    },
+    [schemaOverrides]
+  );
+
+  // "replace" loads the previewed table; "join" adds its columns to the loaded data by time
+  const confirmImport = useCallback(
+    async (mode: "replace" | "join") => {
+      if (!pendingImport) return;
+      const { name, bytes, csv, sheet, table } = pendingImport;
+      const sheets = table?.source?.sheets ?? [];
+      const label = table?.source ? `${name} [${table.source.sheet}]` : name;
+      try {
+        const parsed = await runML("Parsing", {
+          type: "parse",
+          name,
+          bytes,
+          read: { csv: csv ?? undefined, sheet },
+          schema: schemaOverrides,
+        });
+        if (previewTable) storeSavedSchema(previewTable.columns, schemaOverrides);
+        // workbooks stay open so more sheets can be joined
+        if (sheets.length < 2) setPendingImport(null);
+        if (mode === "replace" || !loadedDf) {
+          commitData(parsed, label);
+          return;
+        }
+        const { df: joined, matched } = joinOnTime(loadedDf, parsed, joinOptions);
+        commitData(joined, `${sourceName ?? "data"} + ${label}`);
+        setStatus(`Joined ${label}: ${matched} of ${loadedDf.rows.length} rows matched, ${joined.rows.length} kept.`);
+      } catch (err: any) {
+        setStatus(failure(mode === "join" ? "Join failed" : "Parse error", err));
+      }
+    },
+    [pendingImport, previewTable, schemaOverrides, runML, commitData, loadedDf, joinOptions, sourceName]
+  );
+
   const toggleSeries = useCallback((key: string) => {
     setVisible((prev) => ({ ...prev, [key]: !prev[key] }));
   }, []);
 
-    // ----- Build multivariate time-series features: X(t) -> y(t+1) -----
-    const Xy = useMemo(() => {
-    if (!df || !target) {
-        return {
-        X: [] as number[][],
-        y: [] as number[],
-        featNames: [] as string[],
-        makeNextX: () => [] as number[],
-        maxLag: 0,
-        };
-    }
+  const trainParams = useMemo<TrainParams>(
+    () => ({
+      cart: cartParams,
+      forest: forestParams,
+      boost: boostParams,
+      xgboost: xgbParams,
+      ridge: ridgeParams,
+      lasso: lassoParams,
+      classical: classicalParams,
+    }),
+    [cartParams, forestParams, boostParams, xgbParams, ridgeParams, lassoParams, classicalParams]
+  );
 
-    const datetimeKey = df.datetimeKey;
-    const allSeries = df.numericCols;
-    const exo = allSeries.filter((c) => c !== target); // exogenous series
+  // classical models default to the natural season of the data's cadence
+  useEffect(() => {
+    if (!df?.datetimeKey) return;
+    const key = df.datetimeKey;
+    const season = seasonLengthFor(inferCadenceMs(df.rows.map((r) => (r[key] instanceof Date ? (r[key] as Date) : null))));
+    if (season) setClassicalParams((p) => ({ ...p, season }));
+  }, [df]);
 
-    const featNames: string[] = [];
+  // the feature config a family trains on (classical models: a window of the target)
+  const featuresFor = useCallback(
+    (fam: ModelFamily, season = classicalParams.season) =>
+      df ? featuresForFamily(fam, features, [...df.numericCols, ...df.categoricalCols], season) : features,
+    [df, features, classicalParams.season]
+  );
 
-    // base: current-time exogenous features (t)
-    for (const s of exo) featNames.push(`${s}(t)`);
+  // those of the current model, else of the selected family
+  const modelFeatures = useMemo(() => {
+    const fam = model && trainMeta ? trainMeta.family : family;
+    return featuresFor(fam, model && "season" in model ? model.season : undefined);
+  }, [model, trainMeta, family, featuresFor]);
 
-    // lags for target and all exogenous
-    for (const l of LAGS) {
-        featNames.push(`${target}(t-${l})`);
-        for (const s of exo) featNames.push(`${s}(t-${l})`);
-    }
+  // ----- Time-series features: X(t) -> y(t+h); rows are built by the worker -----
+  const Xy = useMemo(
+    () => (df && target ? buildFeatures(df, target, modelFeatures) : EMPTY_FEATURE_SET),
+    [df, target, modelFeatures]
+  );
+
+
+  // calibration residuals: the latest backtest, else those saved with a loaded model
+  const calibration = useMemo(
+    () =>
+      backtestResult
+        ? backtestResult.oos.map((o) => Math.abs(o.actual - o.predicted))
+        : loadedCalibration,
+    [backtestResult, loadedCalibration]
+  );
 
-    // datetime cyclic features
-    if (USE_DATETIME_FEATURES && datetimeKey) {
-        featNames.push("dow_sin", "dow_cos", "mon_sin", "mon_cos");
+  const train = useCallback(async () => {
+    if (!df || !target) {
+      setStatus("Load data and choose a target first.");
+      return;
     }
+    const { fam, xgb, note } = await prepareFamily(family, setStatus);
 
-    const maxLag = Math.max(0, ...LAGS);
-    const X: number[][] = [];
-    const y: number[] = [];
+    let res;
+    try {
+      res = await runML(
+        `Training ${FAMILY_LABEL[fam]}`,
+        {
+          type: "train",
+          target,
+          features: featuresFor(fam),
+          family: fam,
+          params: trainParams,
+          // classical models always forecast recursively
+          directSteps: forecastMode === "direct" && !isClassical(fam) ? horizon : 0,
+          window: trainWindow,
+        },
+        xgb
+      );
+    } catch (err: any) {
+      setStatus(failure("Training failed", err));
+      return;
+    }
+    const m = res.model;
+    setModel(m);
+    setDirectModels(res.direct);
+    setPrediction(null);
+    setForecast(null);
+    setLoadedCalibration(null);
+    const familyParams = {
+      cart: trainParams.cart,
+      forest: trainParams.forest,
+      gbm: trainParams.boost,
+      xgboost: trainParams.xgboost,
+      ridge: trainParams.ridge,
+      lasso: trainParams.lasso,
+      holtwinters: trainParams.classical,
+      snaive: trainParams.classical,
+    }[fam];
+    setTrainMeta({
+      family: fam,
+      params: familyParams,
+      rows: res.rows,
+      trainedAt: new Date().toISOString(),
+      source: sourceName,
+    });
 
-    // helper to read a numeric cell (or NaN)
-    const getNum = (rowIdx: number, col: string): number =>
-        typeof df.rows[rowIdx]?.[col] === "number" ? (df.rows[rowIdx][col] as number) : NaN;
+    const skipped = res.skipped ? ` ${res.skipped} rows with missing values were left out.` : "";
+    if (res.direct.length) {
+      const n = res.direct.length;
+      setStatus(
+        `Trained ${n} direct ${FAMILY_LABEL[fam]} models (t+1..t+${n}) with ${m.nFeatures} features.${skipped}${note}`
+      );
+      return;
+    }
+    const rows = trainWindow ? `${res.rows} rows of the training window` : `${res.rows} rows`;
+    setStatus(`Trained ${describeModel(m)} with ${m.nFeatures} features on ${rows}.${skipped}${note}`);
+  }, [
+    df,
+    target,
+    featuresFor,
+    runML,
+    forecastMode,
+    horizon,
+    family,
+    trainParams,
+    sourceName,
+    trainWindow,
+  ]);
+
+  // ----- Model files -----
+  const saveModel = useCallback(() => {
+    if (!df || !target || !model || !trainMeta) {
+      setStatus("Train a model first.");
+      return;
+    }
+    let file: ModelFile;
+    try {
+      const stamp = trainMeta.trainedAt.replace(/[:.]/g, "-");
+      file = {
+        format: MODEL_FILE_FORMAT,
+        version: MODEL_FILE_VERSION,
+        name: `${target}-${trainMeta.family}-${stamp}`,
+        target,
+        columns: [...df.numericCols, ...df.categoricalCols].filter(
+          (c) => c !== target && !modelFeatures.excludeExo.includes(c)
+        ),
+        datetimeKey: df.datetimeKey ?? null,
+        features: modelFeatures,
+        featNames: Xy.featNames,
+        nFeatures: model.nFeatures,
+        model: serializeModel(model),
+        ...(directModels.length ? { direct: directModels.map(serializeModel) } : {}),
+        ...(calibration?.length ? { conformal: calibration } : {}),
+        training: trainMeta,
+      };
+    } catch (err: any) {
+      setStatus(`Can't save model: ${err?.message ?? String(err)}`);
+      return;
+    }
+    downloadText(`${file.name}.json`, JSON.stringify(file));
+    const stored = storeRecentModel(file);
+    setRecentModels(stored);
+    setStatus(
+      stored.some((m) => m.name === file.name)
+        ? `Saved model ${file.name}.`
+        : `Saved model ${file.name} (too large to keep in browser storage).`
+    );
+  }, [df, target, model, directModels, trainMeta, modelFeatures, Xy, calibration]);
+
+  const applyModelFile = useCallback(
+    (file: ModelFile) => {
+      if (!df) {
+        setStatus("Load the dataset first, then load the model.");
+        return;
+      }
+      const { features: f, problems } = checkModelFile(file, df);
+      if (problems.length) {
+        setStatus(`Can't use model ${file.name} with this data: ${problems.join(" ")}`);
+        return;
+      }
+      setTarget(file.target);
+      // a classical model's window is rebuilt from its season; keep the user's config
+      if (!isClassical(file.training.family)) setFeatures(f);
+      setModel(restoreModel(file.model));
+      setDirectModels(file.direct?.map(restoreModel) ?? []);
+      if (file.direct?.length) {
+        setForecastMode("direct");
+        setHorizon(file.direct.length);
+      }
+      setTrainMeta(file.training);
+      setLoadedCalibration(file.conformal ?? null);
+      setPrediction(null);
+      setForecast(null);
+      setStatus(
+        `Loaded model ${file.name} (${FAMILY_LABEL[file.training.family]}, trained on ${file.training.rows} rows).`
+      );
+    },
+    [df]
+  );
 
-    // compose feature vector for an index t (predicting y at t+1)
-    const makeXAt = (t: number): number[] => {
-        const row: number[] = [];
+  const onPickModelFile = useCallback(() => {
+    if (Platform.OS === "web") {
+      if (!modelInputRef.current) return;
+      modelInputRef.current.value = "";
+      modelInputRef.current.click();
+    }
+  }, []);
 
-        // current-time exogenous at t
-        for (const s of exo) row.push(getNum(t, s));
+  const onModelFileChange = useCallback(
+    async (e: any) => {
+      const file: File | undefined = e.target?.files?.[0];
+      if (!file) return;
+      try {
+        applyModelFile(parseModelFile(await file.text()));
+      } catch (err: any) {
+        setStatus(`Model load error: ${err?.message ?? String(err)}`);
+      }
+    },
+    [applyModelFile]
+  );
 
-        // lags for target & exogenous
-        for (const l of LAGS) {
-        row.push(getNum(t - l, target)); // target lag
-        for (const s of exo) row.push(getNum(t - l, s)); // exo lag
-        }
+  useEffect(() => setRecentModels(readRecentModels()), []);
 
-        // datetime features at t
-        if (USE_DATETIME_FEATURES && datetimeKey) {
-        const dv = df.rows[t]?.[datetimeKey];
-        if (dv instanceof Date && !isNaN(+dv)) {
-            const { weekday, month } = getDateParts(dv);
-            const d = sincos(weekday, 7);
-            const m = sincos(month, 12);
-            row.push(d.sin, d.cos, m.sin, m.cos);
-        } else {
-            row.push(0, 0, 0, 0); // fallback
-        }
-        }
+  // ----- Model inspection -----
+  const mdi = useMemo(() => (model ? impurityImportance(model) : null), [model]);
+  const trees = useMemo(() => (model ? modelTrees(model) : null), [model]);
 
-        return row;
-    };
+  useEffect(() => {
+    setPermImportance(null);
+    setTreeIndex(0);
+  }, [model]);
 
-    // Build dataset: use rows [maxLag .. N-2] as feature rows (predict y at t+1)
-    const N = df.rows.length;
-    for (let t = maxLag; t <= N - 2; t++) {
-        const x = makeXAt(t);
-        if (x.some((v) => !Number.isFinite(v))) continue; // drop rows with NaN
-        const yNext = getNum(t + 1, target);
-        if (!Number.isFinite(yNext)) continue;
-        X.push(x);
-        y.push(yNext);
-    }
-
-    // build "next" feature for prediction at N (use last available t = N-1)
-    const makeNextX = (): number[] => {
-        const t = N - 1;
-        return makeXAt(t);
-    };
+  // the feature vector behind the prediction picked in explainRow; null when it
+  // is incomplete or the features changed since training
+  const explainX = useMemo(() => {
+    if (!model || !trees) return null;
+    let x: number[] | undefined;
+    if (explainRow === 0) {
+      x = Xy.makeNextX();
+    } else {
+      // data row r is predicted from feature row r - 1 (0-based: explainRow - 2)
+      const d = Xy.buildDataset(1);
+      x = d.X[d.t.indexOf(explainRow - 2)];
+    }
+    return x && x.length === model.nFeatures && x.every(Number.isFinite) ? x : null;
+  }, [model, trees, Xy, explainRow]);
+  const explanation = useMemo(
+    () => (model && explainX ? explainPrediction(model, explainX) : null),
+    [model, explainX]
+  );
 
-    return { X, y, featNames, makeNextX, maxLag };
-    }, [df, target]);
+  // refit on the older rows, then shuffle each feature on the held-out recent rows
+  const computePermutation = useCallback(async () => {
+    if (!df || !target || !model) {
+      setStatus("Train a model first.");
+      return;
+    }
+    const { fam, xgb, note } = await prepareFamily(trainMeta?.family ?? family, setStatus);
+    try {
+      const { importance, heldOut } = await runML(
+        "Permutation importance",
+        {
+          type: "permutation",
+          target,
+          features: modelFeatures,
+          family: fam,
+          params: trainParams,
+          testFraction: btOptions.testFraction,
+        },
+        xgb
+      );
+      setPermImportance(importance);
+      setStatus(`Permutation importance on the last ${heldOut} held-out rows.${note}`);
+    } catch (err: any) {
+      setStatus(failure("Permutation importance failed", err));
+    }
+  }, [df, target, model, modelFeatures, runML, btOptions, family, trainMeta, trainParams]);
 
+  const runBacktest = useCallback(async () => {
+    if (!df || !target) {
+      setStatus("Load data and choose a target first.");
+      return;
+    }
+    const { fam, xgb, note } = await prepareFamily(family, setStatus);
 
-  const train = useCallback(() => {
+    let res: BacktestRun;
+    try {
+      res = await runML(
+        `Backtesting ${FAMILY_LABEL[fam]}`,
+        { type: "backtest", target, features: featuresFor(fam), family: fam, params: trainParams, options: btOptions },
+        xgb
+      );
+    } catch (err: any) {
+      setStatus(failure("Backtest failed", err));
+      return;
+    }
+    setBacktestResult(res);
+    setStatus(
+      `Backtested ${FAMILY_LABEL[fam]} over ${res.folds.length} walk-forward folds (${res.model.n} out-of-sample rows).${note}`
+    );
+  }, [df, target, featuresFor, runML, family, trainParams, btOptions]);
+
+  // every family backtested on the same rows, ranked by RMSE
+  const runLeaderboard = useCallback(async () => {
     if (!df || !target) {
       setStatus("Load data and choose a target first.");
       return;
     }
-    const { X, y } = Xy;
-    if (X.length < 20) {
-      setStatus("Not enough rows to train (need >= 20 after cleaning).");
+    // XGBoost joins when its WASM module loads
+    const { fam, xgb } = await prepareFamily("xgboost", setStatus);
+    const families = (Object.keys(FAMILY_LABEL) as ModelFamily[]).filter((f) => f !== "xgboost" || fam === "xgboost");
+    let res: Leaderboard;
+    try {
+      res = await runML(
+        "Ranking models",
+        { type: "leaderboard", target, features, families, params: trainParams, options: btOptions },
+        xgb
+      );
+    } catch (err: any) {
+      setStatus(failure("Leaderboard failed", err));
       return;
     }
-    const m = fitCART(X, y);
-    setModel(m);
-    setPrediction(null);
-    setStatus(`Trained CART with ${m.nFeatures} features on ${X.length} rows.`);
-  }, [df, target, Xy]);
+    setLeaderboard(res);
+    const best = res.entries[0];
+    setStatus(
+      `Ranked ${res.entries.length} models on ${res.rows} rows; best is ${FAMILY_LABEL[best.family]} (RMSE ${best.metrics.rmse.toFixed(4)}).`
+    );
+  }, [df, target, features, runML, trainParams, btOptions]);
+
+  useEffect(() => setLeaderboard(null), [df, target, features]);
+
+  // ----- Classification -----
+  const runClassify = useCallback(async () => {
+    if (!df || !classTarget) {
+      setStatus("Load data and choose a class target first.");
+      return;
+    }
+    let res: ClassifyRun;
+    try {
+      res = await runML(`Classifying with ${CLASSIFIER_LABEL[classifierFamily]}`, {
+        type: "classify",
+        target: classTarget,
+        features,
+        family: classifierFamily,
+        params: classifierParams,
+        options: btOptions,
+      });
+    } catch (err: any) {
+      setStatus(failure("Classification failed", err));
+      return;
+    }
+    setClassifyResult(res);
+    const m = res.backtest.model;
+    setStatus(
+      `Backtested ${CLASSIFIER_LABEL[classifierFamily]} on ${describeClassTarget(classTarget)} over ${res.backtest.folds.length} walk-forward folds: accuracy ${(100 * m.accuracy).toFixed(1)}% on ${m.n} out-of-sample rows.`
+    );
+  }, [df, classTarget, features, runML, classifierFamily, classifierParams, btOptions]);
+
+  useEffect(() => setClassifyResult(null), [df, classTarget, features]);
+
+  // a rule starts at the column's median, so both classes occur
+  const startThresholdRule = useCallback(() => {
+    if (!df || !target) return;
+    const values = df.rows.map((r) => r[target]).filter((v): v is number => typeof v === "number");
+    const mid = median(values.filter(Number.isFinite));
+    const value = Number.isFinite(mid) ? Number(mid.toPrecision(4)) : 0;
+    setClassTarget({ kind: "threshold", column: target, op: ">", value });
+  }, [df, target]);
+
+  // search CART hyperparameters by walk-forward CV error and adopt the winner
+  const autoTune = useCallback(async () => {
+    if (!df || !target) {
+      setStatus("Load data and choose a target first.");
+      return;
+    }
+    let res: TuneResult<CartParams>;
+    try {
+      res = await runML("Auto-tuning", {
+        type: "tune",
+        target,
+        features,
+        mode: tuneMode,
+        trials: tuneTrials,
+        options: btOptions,
+      });
+    } catch (err: any) {
+      setStatus(failure("Auto-tune failed", err));
+      return;
+    }
+    setCartParams(res.best);
+    setFamily("cart");
+    setTuneResult(res);
+    setStatus(
+      `Auto-tune (${tuneMode}, ${res.trials.length} configs): best CV RMSE ${res.bestScore.toFixed(4)} with ${describeCart(res.best)}.`
+    );
+  }, [df, target, features, runML, tuneMode, tuneTrials, btOptions]);
+
+  // trial scores only describe the dataset/features they were run on
+  useEffect(() => setTuneResult(null), [Xy]);
+
+  // a backtest only describes the dataset/target it was run on
+  useEffect(() => setBacktestResult(null), [Xy]);
+
+  // ----- Anomaly detection -----
+  const detectAnomalies = useCallback(async () => {
+    if (!df || !target) {
+      setStatus("Load data and choose a target first.");
+      return;
+    }
+    const { fam, xgb, note } = await prepareFamily(family, setStatus);
+
+    let res: AnomalyResult;
+    try {
+      res = await runML(
+        `Scoring rows with ${FAMILY_LABEL[fam]}`,
+        {
+          type: "anomalies",
+          target,
+          features: featuresFor(fam),
+          family: fam,
+          params: trainParams,
+          options: anomalyOptions,
+        },
+        xgb
+      );
+    } catch (err: any) {
+      setStatus(failure("Anomaly detection failed", err));
+      return;
+    }
+    setAnomalyResult(res);
+    const scored = Object.values(res.scored).reduce((a, b) => a + b, 0);
+    const series = Object.keys(res.scored).length;
+    setStatus(
+      `Flagged ${res.anomalies.length} of ${scored} rows across ${series} series (|z| >= ${res.threshold}).${note}`
+    );
+  }, [df, target, featuresFor, runML, family, trainParams, anomalyOptions]);
+
+  useEffect(() => setAnomalyResult(null), [Xy]);
+
+  // ----- All series -----
+  const forecastAllSeries = useCallback(async () => {
+    if (!df) {
+      setStatus("Load data first.");
+      return;
+    }
+    const { fam, xgb, note } = await prepareFamily(family, setStatus);
+
+    let res: BatchResult;
+    try {
+      res = await runML(
+        `Forecasting all series with ${FAMILY_LABEL[fam]}`,
+        {
+          type: "batch",
+          features: featuresFor(fam),
+          family: fam,
+          params: trainParams,
+          options: { mode: batchMode, horizon, testFraction: btOptions.testFraction },
+        },
+        xgb
+      );
+    } catch (err: any) {
+      setStatus(failure("Forecasting all series failed", err));
+      return;
+    }
+    setBatchResult(res);
+    const skipped = res.skipped.length ? ` Skipped ${res.skipped.join(", ")} (too few rows).` : "";
+    setStatus(
+      `Forecast ${res.series.length} series ${horizon} steps ahead with ${BATCH_MODE_LABEL[res.mode]}.${skipped}${note}`
+    );
+  }, [df, featuresFor, runML, family, trainParams, batchMode, horizon, btOptions]);
+
+  useEffect(() => setBatchResult(null), [df, features]);
+
+  // ----- Exploration -----
+  const explore = useCallback(async () => {
+    if (!df) {
+      setStatus("Load data first.");
+      return;
+    }
+    let res: EdaReport;
+    try {
+      res = await runML("Exploring the data", {
+        type: "eda",
+        target: classTarget?.kind === "category" ? null : target,
+        options: edaOptions,
+      });
+    } catch (err: any) {
+      setStatus(failure("Exploration failed", err));
+      return;
+    }
+    setEdaReport(res);
+    setStatus(
+      res.target
+        ? `Explored ${res.rows} rows. Suggested lags for ${res.target}: ${res.suggestedLags.join(", ")}` +
+            (res.period ? `; season length ${res.period}.` : ".")
+        : `Explored ${res.rows} rows. Choose a numeric target for autocorrelation and decomposition.`
+    );
+  }, [df, target, classTarget, edaOptions, runML]);
+
+  useEffect(() => setEdaReport(null), [df]);
+
+  // a season length becomes a lag and a rolling window, and the classical models' season
+  const applySeasonLength = useCallback((m: number) => {
+    const add = (list: number[]) => (list.includes(m) ? list : [...list, m].sort((a, b) => a - b));
+    setFeatures((f) => ({ ...f, lags: add(f.lags), rollingWindows: add(f.rollingWindows) }));
+    setClassicalParams((p) => ({ ...p, season: m }));
+    setStatus(`Added lag ${m} and a ${m}-step rolling window; classical models use season ${m}.`);
+  }, []);
 
     const predict = useCallback(() => {
     if (!df || !target || !model) {
@@ -521,16 +1174,144 @@ export default function HomeScreen() {
         setStatus("Not enough history to build features for t+1. Add more rows.");
         return;
     }
-    const yhat = model.predictBatch([xNext])[0];
-    setPrediction(yhat);
-    setStatus(`Predicted next 1 step: ${target}(t+1).`);
-    }, [df, target, model, Xy]);
+
+    // classical models have no direct variant
+    const mode = forecastMode === "direct" && !isClassical(model.type) ? "direct" : "recursive";
+    let path: number[];
+    if (mode === "direct") {
+        if (directModels.length < horizon) {
+        setStatus(
+            directModels.length
+            ? `Direct models cover ${directModels.length} steps; retrain for horizon ${horizon}.`
+            : "Train in direct mode first."
+        );
+        return;
+        }
+        path = directModels.slice(0, horizon).map((m) => m.predictBatch([xNext])[0]);
+    } else {
+        path = Xy.forecastRecursive((x) => model.predictBatch([x])[0], horizon);
+    }
+
+    setPrediction(path[0] ?? null);
+    setForecast(path);
+    const hint = backtestResult || loadedCalibration ? "" : " Run Backtest to get prediction intervals.";
+    setStatus(
+        (path.length === 1
+        ? `Predicted next 1 step: ${target}(t+1).`
+        : `Forecast ${path.length} steps (${mode}): ${target}(t+1..t+${path.length}).`) + hint
+    );
+    }, [df, target, model, Xy, forecastMode, horizon, directModels, backtestResult, loadedCalibration]);
+
+  // ----- What-if scenarios -----
+  // the series a scenario can set: the exogenous series the features read
+  const scenarioSeries = useMemo(
+    () => (df && target ? df.numericCols.filter((c) => c !== target && !features.excludeExo.includes(c)) : []),
+    [df, target, features.excludeExo]
+  );
+
+  const runWhatIf = useCallback(() => {
+    if (!df || !target || !model) {
+      setStatus("Train a model first.");
+      return;
+    }
+    if (isClassical(model.type) || !scenarioSeries.length) {
+      setStatus("Scenarios need a model that reads exogenous series.");
+      return;
+    }
+    const runs = runScenarios(Xy, (x) => model.predictBatch([x])[0], horizon, scenarios);
+    if (runs.every((r) => !r.forecast.length)) {
+      setStatus("Not enough history to build features for t+1. Add more rows.");
+      return;
+    }
+    setScenarioRuns(runs);
+    const note = forecastMode === "direct" ? " Scenarios always forecast recursively." : "";
+    setStatus(`Forecast ${runs.length} scenarios ${horizon} steps ahead.${note}`);
+  }, [df, target, model, Xy, horizon, scenarios, scenarioSeries, forecastMode]);
+
+  useEffect(() => setScenarioRuns(null), [model, Xy, horizon]);
+
+  const updateScenario = useCallback(
+    (patch: Partial<Scenario>) => {
+      setScenarios((list) =>
+        list.map((sc, i) => {
+          if (i !== scenarioIndex) return sc;
+          // names key the chart lines, so they stay unique
+          const taken = (n: string) => list.some((o, j) => j !== i && o.name === n);
+          let name = patch.name?.trim() || sc.name;
+          for (let k = 2; taken(name); k++) name = `${patch.name?.trim()} (${k})`;
+          return { ...sc, ...patch, name };
+        })
+      );
+    },
+    [scenarioIndex]
+  );
+
+  const addScenario = useCallback(() => {
+    let k = scenarios.length;
+    while (scenarios.some((sc) => sc.name === `scenario ${k}`)) k++;
+    setScenarios([...scenarios, { name: `scenario ${k}`, values: {} }]);
+    setScenarioIndex(scenarios.length);
+  }, [scenarios]);
+
+  const removeScenario = useCallback(() => {
+    setScenarios((list) => (list.length > 1 ? list.filter((_, i) => i !== scenarioIndex) : list));
+    setScenarioIndex(0);
+  }, [scenarioIndex]);
+
+  const onPickScenarioFile = useCallback(() => {
+    if (Platform.OS === "web") {
+      if (!scenarioInputRef.current) return;
+      scenarioInputRef.current.value = "";
+      scenarioInputRef.current.click();
+    }
+  }, []);
+
+  const onScenarioFileChange = useCallback(
+    async (e: any) => {
+      const file: File | undefined = e.target?.files?.[0];
+      const current = scenarios[scenarioIndex];
+      if (!file || !current) return;
+      try {
+        const sc = scenarioFromFile(
+          current.name,
+          file.name,
+          await file.arrayBuffer(),
+          scenarioSeries,
+          horizon - 1
+        );
+        updateScenario({ values: sc.values });
+        setStatus(`Scenario "${current.name}" set from ${file.name}: ${Object.keys(sc.values).join(", ")}.`);
+      } catch (err: any) {
+        setStatus(failure("Scenario upload failed", err));
+      }
+    },
+    [scenarios, scenarioIndex, scenarioSeries, horizon, updateScenario]
+  );
+
+  // ----- Prediction intervals -----
+  const bands = useMemo(() => {
+    if (!forecast?.length || !calibration?.length) return null;
+    const iv = conformalIntervals(forecast, calibration, coverage);
+    return iv.every((b) => Number.isFinite(b.lower) && Number.isFinite(b.upper)) ? iv : null;
+  }, [forecast, calibration, coverage]);
 
   // ----- Chart Data -----
+  // display transform per series (see lib/chartScale.ts), shared by its overlays
+  const scales = useMemo(() => {
+    const out: Record<string, (v: number) => number> = {};
+    for (const c of df?.numericCols ?? []) {
+      out[c] = scaleTransform(
+        df!.rows.map((r) => (typeof r[c] === "number" ? (r[c] as number) : null)),
+        chartScale
+      );
+    }
+    return out;
+  }, [df, chartScale]);
+
   const chartData = useMemo(() => {
     if (!df) return [];
     // Create plotting rows: X-axis will be index or datetime label
-    return df.rows.map((r, idx) => {
+    const rows = df.rows.map((r, idx) => {
       const o: any = { _i: idx };
       if (df.datetimeKey && r[df.datetimeKey]) {
         const v = r[df.datetimeKey];
@@ -544,27 +1325,386 @@ export default function HomeScreen() {
         o._x = String(idx + 1);
       }
       for (const c of df.numericCols) {
-        o[c] = typeof r[c] === "number" ? (r[c] as number) : null;
+        o[c] = typeof r[c] === "number" ? scales[c](r[c] as number) : null;
       }
       return o;
     });
+
+    // out-of-sample backtest predictions sit on the row of the value they predict
+    if (backtestResult && showOOS && target) {
+      for (const o of backtestResult.oos) {
+        const r = rows[backtestResult.t[o.row] + 1];
+        if (r) r[OOS_KEY] = scales[target](o.predicted);
+      }
+    }
+
+    if (anomalyResult) {
+      for (const a of anomalyResult.anomalies) {
+        const r = rows[a.row];
+        if (r && scales[a.series]) r[ANOMALY_KEY + a.series] = scales[a.series](a.actual);
+      }
+    }
+
+    // forecasts continue from the last observed values, on shared future rows
+    const steps = Math.max(
+      forecast?.length ?? 0,
+      batchResult?.labels.length ?? 0,
+      ...(scenarioRuns ?? []).map((r) => r.forecast.length)
+    );
+    if (steps && rows.length) {
+      const last = rows[rows.length - 1];
+      const labels = target ? Xy.futureLabels(steps) : batchResult?.labels ?? [];
+      const future: any[] = labels.map((x, i) => ({ _i: rows.length + i, _x: x }));
+      if (forecast?.length && target) {
+        const f = scales[target];
+        last[FORECAST_KEY] = last[target];
+        if (bands) last[BAND_KEY] = [last[target], last[target]];
+        forecast.forEach((v, i) => {
+          future[i][FORECAST_KEY] = f(v);
+          if (bands) future[i][BAND_KEY] = [f(bands[i].lower), f(bands[i].upper)];
+        });
+      }
+      for (const r of target ? scenarioRuns ?? [] : []) {
+        const f = scales[target!];
+        last[SCENARIO_KEY + r.name] = last[target!];
+        r.forecast.forEach((v, i) => {
+          future[i][SCENARIO_KEY + r.name] = f(v);
+        });
+      }
+      for (const b of batchResult?.series ?? []) {
+        const f = scales[b.series] ?? ((v: number) => v);
+        last[BATCH_KEY + b.series] = last[b.series];
+        b.forecast.forEach((v, i) => {
+          if (future[i]) future[i][BATCH_KEY + b.series] = f(v);
+        });
+      }
+      rows.push(...future);
+    }
+    return rows;
+  }, [df, scales, forecast, bands, target, Xy, backtestResult, showOOS, anomalyResult, batchResult, scenarioRuns]);
+
+  // row numbers change whenever the data does
+  useEffect(() => {
+    setTrainWindow(null);
+    setZoom(null);
   }, [df]);
 
   const series = df?.numericCols ?? [];
 
+  // ----- Level of detail -----
+  // Long series are plotted downsampled: the zoomed range is cut to at most
+  // MAX_CHART_POINTS rows (recomputed on every zoom), keeping each line's
+  // shape and every anomaly marker. `_i` keeps the row's place in chartData.
+  const plotKeys = useMemo(
+    () => [
+      ...series.filter((s) => visible[s]),
+      OOS_KEY,
+      FORECAST_KEY,
+      ...(batchResult?.series.filter((b) => visible[b.series]).map((b) => BATCH_KEY + b.series) ?? []),
+      ...(scenarioRuns?.map((r) => SCENARIO_KEY + r.name) ?? []),
+    ],
+    [series, visible, batchResult, scenarioRuns]
+  );
+  const plotColumns = useMemo(
+    () => plotKeys.map((k) => chartData.map((o) => (typeof o[k] === "number" ? (o[k] as number) : null))),
+    [plotKeys, chartData]
+  );
+  const zoomRange = useMemo(
+    () => (zoom && zoom.end < chartData.length ? zoom : { start: 0, end: Math.max(0, chartData.length - 1) }),
+    [zoom, chartData]
+  );
+  const chartView = useMemo(() => {
+    const keep = anomalyResult?.anomalies.map((a) => a.row) ?? [];
+    return downsampleRows(plotColumns, MAX_CHART_POINTS, zoomRange.start, zoomRange.end + 1, keep).map(
+      (i) => chartData[i]
+    );
+  }, [plotColumns, chartData, zoomRange, anomalyResult]);
+  const overview = useMemo(
+    () => downsampleRows(plotColumns, OVERVIEW_POINTS, 0, chartData.length).map((i) => chartData[i]),
+    [plotColumns, chartData]
+  );
+  // the brush works on overview positions; the zoom is kept in rows
+  const onOverviewBrush = useCallback(
+    ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+      const start = overview[startIndex ?? 0]?._i ?? 0;
+      const end = overview[endIndex ?? overview.length - 1]?._i ?? chartData.length - 1;
+      setZoom(start === 0 && end === chartData.length - 1 ? null : { start, end });
+    },
+    [overview, chartData]
+  );
+  const canvasChart = renderer === "canvas" && (df?.rows.length ?? 0) >= LARGE_SERIES_ROWS;
+  const plotLines = useMemo(
+    () =>
+      plotKeys.map((key) => {
+        const s =
+          key === OOS_KEY || key === FORECAST_KEY
+            ? target
+            : key.startsWith(BATCH_KEY)
+            ? key.slice(BATCH_KEY.length)
+            : key;
+        const scenario = scenarioRuns?.findIndex((r) => SCENARIO_KEY + r.name === key) ?? -1;
+        return {
+          key,
+          color:
+            scenario >= 0
+              ? SCENARIO_COLORS[scenario % SCENARIO_COLORS.length]
+              : key === OOS_KEY
+              ? "#e8eaed"
+              : colorFor(Math.max(0, series.indexOf(s ?? ""))),
+          dashed: key !== s || scenario >= 0,
+        };
+      }),
+    [plotKeys, series, target, scenarioRuns]
+  );
+  const canvasShading = useMemo(
+    () => [
+      ...(trainWindow ? [{ from: trainWindow.start, to: trainWindow.end, color: "rgba(52, 168, 83, 0.12)" }] : []),
+      ...(dragWindow ? [{ ...dragWindow, color: "rgba(232, 234, 237, 0.15)" }] : []),
+    ],
+    [trainWindow, dragWindow]
+  );
+
+  // dragging across the chart (while picking) selects the training window;
+  // only observed rows can be picked
+  const observedRow = useCallback(
+    (i: number | undefined) => (df && i != null && i >= 0 ? Math.min(i, df.rows.length - 1) : null),
+    [df]
+  );
+  // Recharts reports the index of the hovered point among the plotted rows
+  const chartRow = useCallback(
+    (state: { activeTooltipIndex?: number | string | null } | null) => {
+      const i = Number(state?.activeTooltipIndex);
+      return Number.isInteger(i) ? observedRow(chartView[i]?._i) : null;
+    },
+    [chartView, observedRow]
+  );
+  const startDrag = useCallback(
+    (i: number | null) => {
+      if (pickingWindow && i != null) setDragWindow({ from: i, to: i });
+    },
+    [pickingWindow]
+  );
+  const moveDrag = useCallback((i: number | null) => {
+    if (i != null) setDragWindow((d) => (d ? { ...d, to: i } : d));
+  }, []);
+  const endDrag = useCallback(() => {
+    if (dragWindow && dragWindow.from !== dragWindow.to) {
+      const start = Math.min(dragWindow.from, dragWindow.to);
+      const end = Math.max(dragWindow.from, dragWindow.to);
+      setTrainWindow({ start, end });
+      setPickingWindow(false);
+      const range = `${chartData[start]?._x} to ${chartData[end]?._x}`;
+      setStatus(`Training window: ${end - start + 1} rows (${range}). Train to use it.`);
+    }
+    setDragWindow(null);
+  }, [dragWindow, chartData]);
+
+  const anomalySeries = useMemo(
+    () => (anomalyResult ? [...new Set(anomalyResult.anomalies.map((a) => a.series))] : []),
+    [anomalyResult]
+  );
+
+  // ----- Exports -----
+  const exportName = useMemo(() => {
+    const base = (sourceName ?? "data").replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_");
+    return target ? `${base}-${target}` : base;
+  }, [sourceName, target]);
+
+  const buildResults = useCallback(() => {
+    if (!df || !target) return null;
+    // in-sample fit of the current model; X row i predicts the value on row t[i] + 1
+    const fitted: { row: number; value: number }[] = [];
+    if (model) {
+      const { X, t } = Xy.buildDataset(1);
+      model.predictBatch(X).forEach((value, i) => fitted.push({ row: t[i] + 1, value }));
+    }
+    const oos = backtestResult
+      ? backtestResult.oos.map((o) => ({ row: backtestResult.t[o.row] + 1, value: o.predicted }))
+      : [];
+    return resultsTable({
+      df,
+      target,
+      fitted,
+      backtest: oos,
+      forecast: forecast ?? [],
+      futureLabels: forecast ? Xy.futureLabels(forecast.length) : [],
+      bands,
+    });
+  }, [df, target, model, Xy, backtestResult, forecast, bands]);
+
+  const buildReport = useCallback((): RunReport | null => {
+    if (!df || !target) return null;
+    const labels = forecast ? Xy.futureLabels(forecast.length) : [];
+    return {
+      app: "client_side_ml",
+      generatedAt: new Date().toISOString(),
+      source: sourceName,
+      data: {
+        rows: df.rows.length,
+        columns: df.columns,
+        datetimeKey: df.datetimeKey ?? null,
+        preprocessing: { config: prepConfig, report: prepared?.report ?? null },
+      },
+      target,
+      features: modelFeatures,
+      model:
+        model && trainMeta
+          ? {
+              description: describeModel(model),
+              family: trainMeta.family,
+              params: trainMeta.params,
+              nFeatures: model.nFeatures,
+              featureNames: Xy.featNames,
+              trainingRows: trainMeta.rows,
+              trainedAt: trainMeta.trainedAt,
+            }
+          : null,
+      backtest: backtestResult
+        ? {
+            options: btOptions,
+            folds: backtestResult.folds.length,
+            metrics: {
+              model: backtestResult.model,
+              naive: backtestResult.naive,
+              ...(backtestResult.seasonalNaive ? { seasonalNaive: backtestResult.seasonalNaive } : {}),
+            },
+          }
+        : null,
+      forecast: forecast?.length
+        ? {
+            mode: forecastMode,
+            coverage: bands ? coverage : null,
+            steps: forecast.map((value, i) => ({
+              label: labels[i],
+              value,
+              lower: bands?.[i].lower ?? null,
+              upper: bands?.[i].upper ?? null,
+            })),
+          }
+        : null,
+    };
+  }, [
+    df,
+    target,
+    forecast,
+    Xy,
+    sourceName,
+    prepConfig,
+    prepared,
+    modelFeatures,
+    model,
+    trainMeta,
+    backtestResult,
+    btOptions,
+    forecastMode,
+    bands,
+    coverage,
+  ]);
+
+  const currentChart = useCallback(
+    () => chartSvg(chartRef.current as unknown as Element | null, "#111316"),
+    []
+  );
+
+  const exportResults = useCallback(
+    (format: "csv" | "xlsx") => {
+      let table;
+      try {
+        table = buildResults();
+        if (!table) {
+          setStatus("Load data and choose a target first.");
+          return;
+        }
+        if (format === "csv") {
+          downloadText(`${exportName}-results.csv`, resultsCsv(table), "text/csv");
+        } else {
+          const xlsx = resultsXlsx(table, buildReport());
+          downloadBlob(
+            `${exportName}-results.xlsx`,
+            new Blob([xlsx], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
+          );
+        }
+      } catch (err: any) {
+        setStatus(failure("Export failed", err));
+        return;
+      }
+      setStatus(`Exported ${table.rows.length} rows to ${format.toUpperCase()}.`);
+    },
+    [buildResults, buildReport, exportName]
+  );
+
+  const exportChart = useCallback(
+    async (format: "svg" | "png") => {
+      const chart = currentChart();
+      if (!chart) {
+        setStatus(
+          canvasChart
+            ? "Switch the chart to SVG to export it."
+            : "The chart can only be exported in the web build."
+        );
+        return;
+      }
+      try {
+        const blob =
+          format === "svg" ? new Blob([chart.svg], { type: "image/svg+xml" }) : await svgToPng(chart);
+        downloadBlob(`${exportName}-chart.${format}`, blob);
+      } catch (err: any) {
+        setStatus(failure("Export failed", err));
+        return;
+      }
+      setStatus(`Exported the chart as ${format.toUpperCase()}.`);
+    },
+    [currentChart, exportName]
+  );
+
+  const exportReport = useCallback(
+    (format: "html" | "json") => {
+      const report = buildReport();
+      if (!report) {
+        setStatus("Load data and choose a target first.");
+        return;
+      }
+      if (format === "json") {
+        downloadText(`${exportName}-report.json`, JSON.stringify(report, null, 2));
+      } else {
+        downloadText(`${exportName}-report.html`, reportHtml(report, currentChart()?.svg ?? null), "text/html");
+      }
+      setStatus(`Exported the run report as ${format.toUpperCase()}.`);
+    },
+    [buildReport, currentChart, exportName]
+  );
+
   // ----- Styling helpers -----
   const CONTENT_MAX_W = 980;
   const CHART_H = Math.min(Math.max(360, Math.floor(height * 0.45)), 560);
+  // with an axis per series, each series and its overlays plot against their own axis
+  const axisOf = (s: string | null | undefined) => (chartScale === "axes" && s ? s : undefined);
 
   const renderWebInputs = () =>
     Platform.OS === "web" ? (
-      <input
-        ref={fileInputRef as any}
-        type="file"
-        accept={accept}
-        onChange={onFileChange}
-        style={{ display: "none" }}
-      />
+      <>
+        <input
+          ref={fileInputRef as any}
+          type="file"
+          accept={accept}
+          onChange={onFileChange}
+          style={{ display: "none" }}
+        />
+        <input
+          ref={modelInputRef as any}
+          type="file"
+          accept=".json,application/json"
+          onChange={onModelFileChange}
+          style={{ display: "none" }}
+        />
+        <input
+          ref={scenarioInputRef as any}
+          type="file"
+          accept={accept}
+          onChange={onScenarioFileChange}
+          style={{ display: "none" }}
+        />
+      </>
     ) : null;
 
   const REPO_URL = "https://github.com/europanite/client_side_ml";
@@ -594,7 +1734,9 @@ export default function HomeScreen() {
               </Text>
             </TouchableOpacity>
             <Text style={{ color: "#9aa0a6" }}>
-              A browser-based multivariate time series forecasting tool powered by CART. No installation, registration, or payment required.
+              A browser-based multivariate time series forecasting tool: decision trees, random forests, gradient
+              boosting, XGBoost, ridge/lasso, Holt-Winters and seasonal naive. No installation, registration, or
+              payment required.
             </Text>
           </View>
           {/* Action row */}
@@ -606,56 +1748,871 @@ export default function HomeScreen() {
               gap: 8,
             }}
           >
-            <ActionButton label="Import CSV/XLSX" onPress={onPickFile} bg="#1a73e8" />
-            <ActionButton label="Train (Decision Tree)" onPress={train} bg="#34a853" />
-            <ActionButton label="Predict +1" onPress={predict} bg="#f9ab00" fg="#000" />
-            {prediction != null && (
-              <View
-                style={{
-                  paddingHorizontal: 10,
-                  paddingVertical: 8,
-                  borderRadius: 10,
-                  backgroundColor: "#202124",
-                }}
-              >
-                <Text style={{ color: "#fff" }}>
-                  Prediction ({target ?? "?"}):{" "}
-                  <Text style={{ color: "#f9ab00", fontWeight: "700" }}>
-                    {Number.isFinite(prediction) ? prediction.toFixed(4) : String(prediction)}
-                  </Text>
-                </Text>
-              </View>
+            <ActionButton label="Import CSV/XLSX" onPress={onPickFile} bg="#1a73e8" disabled={busy} />
+            {classTarget ? (
+              <ActionButton
+                label={`Classify (${CLASSIFIER_LABEL[classifierFamily]})`}
+                onPress={runClassify}
+                bg="#34a853"
+                disabled={busy}
+              />
+            ) : (
+              <>
+                <ActionButton
+                  label={`Train (${FAMILY_LABEL[family]})`}
+                  onPress={train}
+                  bg="#34a853"
+                  disabled={busy}
+                />
+                <ActionButton label="Backtest" onPress={runBacktest} bg="#9334e6" disabled={busy} />
+                <ActionButton label={`Predict +${horizon}`} onPress={predict} bg="#f9ab00" fg="#000" />
+                {prediction != null && (
+                  <View
+                    style={{
+                      paddingHorizontal: 10,
+                      paddingVertical: 8,
+                      borderRadius: 10,
+                      backgroundColor: "#202124",
+                    }}
+                  >
+                    <Text style={{ color: "#fff" }}>
+                      Prediction ({target ?? "?"}):{" "}
+                      <Text style={{ color: "#f9ab00", fontWeight: "700" }}>
+                        {Number.isFinite(prediction) ? prediction.toFixed(4) : String(prediction)}
+                      </Text>
+                      {bands ? (
+                        <Text style={{ color: "#9aa0a6" }}>
+                          {" "}[{bands[0].lower.toFixed(4)}, {bands[0].upper.toFixed(4)}]
+                        </Text>
+                      ) : null}
+                      {forecast && forecast.length > 1 ? (
+                        <Text>
+                          {"  "}t+{forecast.length}:{" "}
+                          <Text style={{ color: "#f9ab00", fontWeight: "700" }}>
+                            {forecast[forecast.length - 1].toFixed(4)}
+                          </Text>
+                        </Text>
+                      ) : null}
+                    </Text>
+                  </View>
+                )}
+              </>
             )}
           </View>
 
+          {/* Import preview */}
+          {pendingImport ? (
+            <View style={{ gap: 8, padding: 12, borderRadius: 10, backgroundColor: "#202124" }}>
+              <Text style={{ color: "#fff", fontWeight: "700" }}>Import preview: {pendingImport.name}</Text>
+              {pendingImport.csv ? (
+                <>
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <Text style={{ color: "#9aa0a6" }}>Delimiter</Text>
+                    {DELIMITER_LABEL.map(([d, label]) => (
+                      <OptionChip
+                        key={label}
+                        label={label}
+                        selected={pendingImport.csv?.delimiter === d}
+                        onPress={() => setImportOption({ delimiter: d })}
+                      />
+                    ))}
+                    <Text style={{ color: "#9aa0a6" }}>Decimal</Text>
+                    {DECIMAL_LABEL.map(([d, label]) => (
+                      <OptionChip
+                        key={label}
+                        label={label}
+                        selected={pendingImport.csv?.decimal === d}
+                        onPress={() => setImportOption({ decimal: d })}
+                      />
+                    ))}
+                  </View>
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <Text style={{ color: "#9aa0a6" }}>Encoding</Text>
+                    {ENCODINGS.map((enc) => (
+                      <OptionChip
+                        key={enc}
+                        label={enc}
+                        selected={pendingImport.csv?.encoding === enc}
+                        onPress={() => setImportOption({ encoding: enc })}
+                      />
+                    ))}
+                  </View>
+                </>
+              ) : null}
+              {pendingImport.table?.source ? (
+                <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                  <Text style={{ color: "#9aa0a6" }}>Sheet</Text>
+                  {pendingImport.table.source.sheets.map((sh) => (
+                    <OptionChip
+                      key={sh}
+                      label={sh}
+                      selected={pendingImport.table?.source?.sheet === sh}
+                      onPress={() => selectSheet({ sheet: sh, headerRow: undefined })}
+                    />
+                  ))}
+                  <NumberField
+                    label="header row"
+                    value={pendingImport.table.source.headerRow}
+                    onChange={(v) => selectSheet({ headerRow: v })}
+                    min={1}
+                    integer
+                  />
+                </View>
+              ) : null}
+              {previewTable && importPreview ? (
+                <>
+                  <SchemaEditor
+                    columns={previewTable.columns}
+                    schema={importPreview.schema}
+                    overrides={schemaOverrides}
+                    onChange={setColumnSpec}
+                  />
+                  {Object.keys(schemaOverrides).length ? (
+                    <View style={{ flexDirection: "row" }}>
+                      <OptionChip label="use detected types" selected={false} onPress={() => setImportSchema({})} />
+                    </View>
+                  ) : null}
+                  <PreviewTable df={importPreview} />
+                </>
+              ) : (
+                <Text style={{ color: "#9aa0a6" }}>No rows could be read with these settings.</Text>
+              )}
+              {loadedDf ? (
+                <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                  <Text style={{ color: "#9aa0a6" }}>join on time:</Text>
+                  {(["left", "inner"] as JoinHow[]).map((how) => (
+                    <OptionChip
+                      key={how}
+                      label={how}
+                      selected={joinOptions.how === how}
+                      onPress={() => setJoinOptions((o) => ({ ...o, how }))}
+                    />
+                  ))}
+                  <NumberField
+                    label="tolerance (minutes)"
+                    value={joinOptions.toleranceMs / 60000}
+                    onChange={(v) => setJoinOptions((o) => ({ ...o, toleranceMs: v * 60000 }))}
+                    min={0}
+                  />
+                </View>
+              ) : null}
+              <View style={{ flexDirection: "row", gap: 8 }}>
+                <ActionButton label="Load" onPress={() => confirmImport("replace")} bg="#1a73e8" disabled={busy} />
+                {loadedDf ? (
+                  <ActionButton
+                    label="Join to loaded data"
+                    onPress={() => confirmImport("join")}
+                    bg="#9334e6"
+                    disabled={busy}
+                  />
+                ) : null}
+                <ActionButton
+                  label={(pendingImport.table?.source?.sheets.length ?? 0) > 1 ? "Close" : "Discard"}
+                  onPress={() => setPendingImport(null)}
+                  bg="#5f6368"
+                  disabled={busy}
+                />
+              </View>
+            </View>
+          ) : null}
+
+          {/* Preprocessing */}
+          {loadedDf && prepared ? (
+            <View style={{ gap: 8 }}>
+              <Text style={{ color: "#9aa0a6" }}>Preprocessing</Text>
+              {loadedDf.datetimeKey ? (
+                <>
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <Text style={{ color: "#9aa0a6" }}>resample:</Text>
+                    {(Object.keys(FREQUENCY_LABEL) as Frequency[]).map((f) => (
+                      <OptionChip
+                        key={f}
+                        label={FREQUENCY_LABEL[f]}
+                        selected={prepConfig.frequency === f}
+                        onPress={() => setPrepConfig((p) => ({ ...p, frequency: f }))}
+                      />
+                    ))}
+                    {prepConfig.frequency !== "none"
+                      ? AGGREGATIONS.map((a) => (
+                          <OptionChip
+                            key={a}
+                            label={a}
+                            selected={prepConfig.aggregation === a}
+                            onPress={() => setPrepConfig((p) => ({ ...p, aggregation: a }))}
+                          />
+                        ))
+                      : null}
+                  </View>
+                  {prepConfig.frequency === "none" ? (
+                    <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                      <Text style={{ color: "#9aa0a6" }}>duplicate timestamps:</Text>
+                      {(Object.keys(DUPLICATE_LABEL) as DuplicatePolicy[]).map((d) => (
+                        <OptionChip
+                          key={d}
+                          label={DUPLICATE_LABEL[d]}
+                          selected={prepConfig.duplicates === d}
+                          onPress={() => setPrepConfig((p) => ({ ...p, duplicates: d }))}
+                        />
+                      ))}
+                    </View>
+                  ) : null}
+                </>
+              ) : null}
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <Text style={{ color: "#9aa0a6" }}>missing values:</Text>
+                {(Object.keys(IMPUTATION_LABEL) as Imputation[]).map((m) => (
+                  <OptionChip
+                    key={m}
+                    label={IMPUTATION_LABEL[m]}
+                    selected={prepConfig.impute === m}
+                    onPress={() => setPrepConfig((p) => ({ ...p, impute: m, imputeByColumn: {} }))}
+                  />
+                ))}
+              </View>
+              {/* per-column methods, for columns with gaps */}
+              {Object.entries(prepared.report?.missing ?? {})
+                .filter(([, n]) => n > 0)
+                .map(([c, n]) => (
+                  <View key={c} style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <Text numberOfLines={1} style={{ width: 160, color: "#e8eaed" }}>
+                      {c} ({n} missing)
+                    </Text>
+                    {(Object.keys(IMPUTATION_LABEL) as Imputation[]).map((m) => (
+                      <OptionChip
+                        key={m}
+                        label={IMPUTATION_LABEL[m]}
+                        selected={(prepConfig.imputeByColumn[c] ?? prepConfig.impute) === m}
+                        onPress={() =>
+                          setPrepConfig((p) => ({ ...p, imputeByColumn: { ...p.imputeByColumn, [c]: m } }))
+                        }
+                      />
+                    ))}
+                  </View>
+                ))}
+              <Text style={{ color: "#9aa0a6" }}>
+                {prepared.report ? describePreprocess(prepared.report) : prepared.error}
+              </Text>
+            </View>
+          ) : null}
+
           {/* Target chooser */}
           <View style={{ gap: 8 }}>
             <Text style={{ color: "#9aa0a6" }}>Target variable</Text>
             <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap" }}>
-              {series.map((s, idx) => (
-                <Pressable
-                  key={s}
-                  onPress={() => setTarget(s)}
-                  style={{
-                    paddingHorizontal: 12,
-                    paddingVertical: 8,
-                    borderRadius: 999,
-                    borderWidth: 2,
-                    borderColor: colorFor(idx),
-                    backgroundColor: target === s ? colorFor(idx) : "transparent",
-                  }}
-                >
-                  <Text
+              {series.map((s, idx) => {
+                const selected = target === s && classTarget?.kind !== "category";
+                return (
+                  <Pressable
+                    key={s}
+                    onPress={() => {
+                      setTarget(s);
+                      setClassTarget(null);
+                    }}
                     style={{
-                      color: target === s ? "#000" : colorFor(idx),
-                      fontWeight: "700",
+                      paddingHorizontal: 12,
+                      paddingVertical: 8,
+                      borderRadius: 999,
+                      borderWidth: 2,
+                      borderColor: colorFor(idx),
+                      backgroundColor: selected ? colorFor(idx) : "transparent",
                     }}
                   >
-                    {s}
+                    <Text
+                      style={{
+                        color: selected ? "#000" : colorFor(idx),
+                        fontWeight: "700",
+                      }}
+                    >
+                      {s}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+              {/* categorical columns are classification targets */}
+              {(df?.categoricalCols ?? []).map((c) => (
+                <OptionChip
+                  key={c}
+                  label={c}
+                  selected={classTarget?.kind === "category" && classTarget.column === c}
+                  onPress={() => setClassTarget({ kind: "category", column: c })}
+                />
+              ))}
+            </View>
+            {target && classTarget?.kind !== "category" ? (
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <Text style={{ color: "#9aa0a6" }}>predict:</Text>
+                <OptionChip label="value" selected={!classTarget} onPress={() => setClassTarget(null)} />
+                <OptionChip
+                  label="event (threshold rule)"
+                  selected={classTarget?.kind === "threshold"}
+                  onPress={() => (classTarget ? undefined : startThresholdRule())}
+                />
+                {classTarget?.kind === "threshold" ? (
+                  <>
+                    <Text style={{ color: "#e8eaed" }}>{target}</Text>
+                    {THRESHOLD_OPS.map((op) => (
+                      <OptionChip
+                        key={op}
+                        label={op}
+                        selected={classTarget.op === op}
+                        onPress={() => setClassTarget({ ...classTarget, op })}
+                      />
+                    ))}
+                    <NumberField
+                      label="threshold"
+                      value={classTarget.value}
+                      onChange={(v) => setClassTarget({ ...classTarget, value: v })}
+                    />
+                  </>
+                ) : null}
+              </View>
+            ) : null}
+          </View>
+
+          {classTarget ? (
+            <View style={{ gap: 8 }}>
+              <Text style={{ color: "#9aa0a6" }}>
+                Classifier: {describeClassTarget(classTarget)} at t+1
+              </Text>
+              <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+                {(Object.keys(CLASSIFIER_LABEL) as ClassifierFamily[]).map((f) => (
+                  <OptionChip
+                    key={f}
+                    label={CLASSIFIER_LABEL[f]}
+                    selected={classifierFamily === f}
+                    onPress={() => setClassifierFamily(f)}
+                  />
+                ))}
+              </View>
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <Text style={{ color: "#9aa0a6" }}>splits:</Text>
+                {(Object.keys(CRITERION_LABEL) as SplitCriterion[]).map((c) => (
+                  <OptionChip
+                    key={c}
+                    label={CRITERION_LABEL[c]}
+                    selected={classifierParams.criterion === c}
+                    onPress={() => setClassifierParams((p) => ({ ...p, criterion: c }))}
+                  />
+                ))}
+                <NumberField
+                  label="max depth"
+                  value={classifierParams.maxDepth}
+                  onChange={(v) => setClassifierParams((p) => ({ ...p, maxDepth: v }))}
+                  min={1}
+                  max={20}
+                  integer
+                />
+                <NumberField
+                  label="min leaf"
+                  value={classifierParams.minLeaf}
+                  onChange={(v) => setClassifierParams((p) => ({ ...p, minLeaf: v }))}
+                  min={1}
+                  max={1000}
+                  integer
+                />
+                {classifierFamily === "forest" ? (
+                  <NumberField
+                    label="trees"
+                    value={classifierParams.nTrees}
+                    onChange={(v) => setClassifierParams((p) => ({ ...p, nTrees: v }))}
+                    min={1}
+                    max={1000}
+                    integer
+                  />
+                ) : null}
+              </View>
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <Text style={{ color: "#9aa0a6" }}>walk-forward:</Text>
+                <NumberField
+                  label="folds"
+                  value={btOptions.folds}
+                  onChange={(v) => setBtOptions((o) => ({ ...o, folds: v }))}
+                  min={1}
+                  max={50}
+                  integer
+                />
+                <NumberField
+                  label="test fraction"
+                  value={btOptions.testFraction}
+                  onChange={(v) => setBtOptions((o) => ({ ...o, testFraction: v }))}
+                  min={0.05}
+                  max={0.9}
+                />
+              </View>
+              {classifyResult ? (
+                <>
+                  <Text style={{ color: "#e8eaed" }}>
+                    {classifyResult.next
+                      ? `Next step: ${classifyResult.classes
+                          .map((c, i) => `${c} ${(100 * classifyResult.next![i]).toFixed(1)}%`)
+                          .join(", ")}`
+                      : "The last row has incomplete features, so there is no next-step prediction."}
                   </Text>
-                </Pressable>
+                  <ClassMetricsTable
+                    rows={[
+                      { label: "Model", m: classifyResult.backtest.model },
+                      { label: "Persistence (current class)", m: classifyResult.backtest.persistence },
+                    ]}
+                  />
+                  <ConfusionTable m={classifyResult.backtest.model} />
+                  {classifyResult.backtest.model.roc && Platform.OS === "web" ? (
+                    <RocChart points={classifyResult.backtest.model.roc} />
+                  ) : null}
+                </>
+              ) : null}
+            </View>
+          ) : (
+            <>
+              {/* Model family */}
+              <View style={{ gap: 8 }}>
+                <Text style={{ color: "#9aa0a6" }}>Model</Text>
+                <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+                  {(Object.keys(FAMILY_LABEL) as ModelFamily[]).map((f) => (
+                    <OptionChip
+                      key={f}
+                      label={FAMILY_LABEL[f]}
+                      selected={family === f}
+                      onPress={() => setFamily(f)}
+                    />
+                  ))}
+                </View>
+                {family === "cart" ? (
+                  <View style={{ gap: 8 }}>
+                    <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                      <NumberField
+                        label="max depth"
+                        value={cartParams.maxDepth}
+                        onChange={(v) => setCartParams((p) => ({ ...p, maxDepth: v }))}
+                        min={1}
+                        max={20}
+                        integer
+                      />
+                      <NumberField
+                        label="min leaf"
+                        value={cartParams.minLeaf}
+                        onChange={(v) => setCartParams((p) => ({ ...p, minLeaf: v }))}
+                        min={1}
+                        max={1000}
+                        integer
+                      />
+                      <NumberField
+                        label="thresholds (0 = exact)"
+                        value={cartParams.nThresholds}
+                        onChange={(v) => setCartParams((p) => ({ ...p, nThresholds: v }))}
+                        min={0}
+                        max={255}
+                        integer
+                      />
+                      <NumberField
+                        label="min gain"
+                        value={cartParams.minGain}
+                        onChange={(v) => setCartParams((p) => ({ ...p, minGain: v }))}
+                        min={0}
+                      />
+                    </View>
+                    <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                      {(["grid", "random"] as const).map((m) => (
+                        <OptionChip
+                          key={m}
+                          label={`${m} search`}
+                          selected={tuneMode === m}
+                          onPress={() => setTuneMode(m)}
+                        />
+                      ))}
+                      {tuneMode === "random" ? (
+                        <NumberField
+                          label="trials"
+                          value={tuneTrials}
+                          onChange={setTuneTrials}
+                          min={1}
+                          max={500}
+                          integer
+                        />
+                      ) : null}
+                      <ActionButton label="Auto-tune" onPress={autoTune} bg="#5f6368" disabled={busy} />
+                    </View>
+                    {tuneResult ? (
+                      <View style={{ backgroundColor: "#111316", borderRadius: 10, padding: 10, gap: 2 }}>
+                        {tuneResult.trials.slice(0, 5).map((tr, i) => (
+                          <Text key={i} style={{ color: i === 0 ? "#34a853" : "#9aa0a6" }}>
+                            {tr.score.toFixed(4)} RMSE · {describeCart(tr.params)}
+                          </Text>
+                        ))}
+                      </View>
+                    ) : null}
+                  </View>
+                ) : null}
+                {family === "forest" ? (
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <NumberField
+                      label="trees"
+                      value={forestParams.nTrees}
+                      onChange={(v) => setForestParams((p) => ({ ...p, nTrees: v }))}
+                      min={1}
+                      max={1000}
+                      integer
+                    />
+                    <NumberField
+                      label="max depth"
+                      value={forestParams.maxDepth}
+                      onChange={(v) => setForestParams((p) => ({ ...p, maxDepth: v }))}
+                      min={1}
+                      max={20}
+                      integer
+                    />
+                    <NumberField
+                      label="min leaf"
+                      value={forestParams.minLeaf}
+                      onChange={(v) => setForestParams((p) => ({ ...p, minLeaf: v }))}
+                      min={1}
+                      max={1000}
+                      integer
+                    />
+                    <NumberField
+                      label="feature fraction"
+                      value={forestParams.featureFraction}
+                      onChange={(v) => setForestParams((p) => ({ ...p, featureFraction: v }))}
+                      min={0.05}
+                      max={1}
+                    />
+                    <NumberField
+                      label="row fraction"
+                      value={forestParams.sampleFraction}
+                      onChange={(v) => setForestParams((p) => ({ ...p, sampleFraction: v }))}
+                      min={0.05}
+                      max={1}
+                    />
+                  </View>
+                ) : null}
+                {family === "gbm" ? (
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <NumberField
+                      label="rounds"
+                      value={boostParams.rounds}
+                      onChange={(v) => setBoostParams((p) => ({ ...p, rounds: v }))}
+                      min={1}
+                      max={5000}
+                      integer
+                    />
+                    <NumberField
+                      label="learning rate"
+                      value={boostParams.learningRate}
+                      onChange={(v) => setBoostParams((p) => ({ ...p, learningRate: v }))}
+                      min={0.001}
+                      max={1}
+                    />
+                    <NumberField
+                      label="max depth"
+                      value={boostParams.maxDepth}
+                      onChange={(v) => setBoostParams((p) => ({ ...p, maxDepth: v }))}
+                      min={1}
+                      max={20}
+                      integer
+                    />
+                    <NumberField
+                      label="subsample"
+                      value={boostParams.subsample}
+                      onChange={(v) => setBoostParams((p) => ({ ...p, subsample: v }))}
+                      min={0.05}
+                      max={1}
+                    />
+                    <NumberField
+                      label="early stopping (0 = off)"
+                      value={boostParams.earlyStopping}
+                      onChange={(v) => setBoostParams((p) => ({ ...p, earlyStopping: v }))}
+                      min={0}
+                      max={1000}
+                      integer
+                    />
+                  </View>
+                ) : null}
+                {family === "xgboost" ? (
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <NumberField
+                      label="rounds"
+                      value={xgbParams.rounds}
+                      onChange={(v) => setXgbParams((p) => ({ ...p, rounds: v }))}
+                      min={1}
+                      max={5000}
+                      integer
+                    />
+                    <NumberField
+                      label="eta"
+                      value={xgbParams.eta}
+                      onChange={(v) => setXgbParams((p) => ({ ...p, eta: v }))}
+                      min={0.001}
+                      max={1}
+                    />
+                    <NumberField
+                      label="max depth"
+                      value={xgbParams.maxDepth}
+                      onChange={(v) => setXgbParams((p) => ({ ...p, maxDepth: v }))}
+                      min={1}
+                      max={20}
+                      integer
+                    />
+                    <NumberField
+                      label="subsample"
+                      value={xgbParams.subsample}
+                      onChange={(v) => setXgbParams((p) => ({ ...p, subsample: v }))}
+                      min={0.05}
+                      max={1}
+                    />
+                    <NumberField
+                      label="colsample"
+                      value={xgbParams.colsampleByTree}
+                      onChange={(v) => setXgbParams((p) => ({ ...p, colsampleByTree: v }))}
+                      min={0.05}
+                      max={1}
+                    />
+                  </View>
+                ) : null}
+                {family === "ridge" || family === "lasso" ? (
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <NumberField
+                      label="penalty (alpha)"
+                      value={(family === "ridge" ? ridgeParams : lassoParams).alpha}
+                      onChange={(v) => (family === "ridge" ? setRidgeParams : setLassoParams)({ alpha: v })}
+                      min={0}
+                    />
+                  </View>
+                ) : null}
+                {isClassical(family) ? (
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <NumberField
+                      label="season length"
+                      value={classicalParams.season}
+                      onChange={(v) => setClassicalParams((p) => ({ ...p, season: v }))}
+                      min={1}
+                      max={400}
+                      integer
+                    />
+                    <Text style={{ color: "#9aa0a6" }}>
+                      reads the last {classicalWindow(classicalParams.season)} values of the target only
+                    </Text>
+                  </View>
+                ) : null}
+              </View>
+
+              {/* Forecast horizon */}
+              <View style={{ gap: 8 }}>
+                <Text style={{ color: "#9aa0a6" }}>Forecast horizon</Text>
+                <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                  <NumberField
+                    label="steps"
+                    value={horizon}
+                    onChange={setHorizon}
+                    min={1}
+                    max={MAX_HORIZON}
+                    integer
+                  />
+                  {(["recursive", "direct"] as ForecastMode[]).map((m) => (
+                    <OptionChip
+                      key={m}
+                      label={m}
+                      selected={forecastMode === m}
+                      onPress={() => setForecastMode(m)}
+                    />
+                  ))}
+                  <Text style={{ color: "#9aa0a6" }}>interval</Text>
+                  {COVERAGE_LEVELS.map((c) => (
+                    <OptionChip
+                      key={c}
+                      label={`${Math.round(c * 100)}%`}
+                      selected={coverage === c}
+                      onPress={() => setCoverage(c)}
+                    />
+                  ))}
+                </View>
+              </View>
+            </>
+          )}
+
+          {/* Exploration */}
+          {df ? (
+            <View style={{ gap: 8 }}>
+              <Text style={{ color: "#9aa0a6" }}>
+                Explore{edaReport?.target ? ` (target: ${edaReport.target})` : ""}
+              </Text>
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <NumberField
+                  label="max lag"
+                  value={edaOptions.maxLag}
+                  onChange={(v) => setEdaOptions((o) => ({ ...o, maxLag: v }))}
+                  min={1}
+                  max={400}
+                  integer
+                />
+                <NumberField
+                  label="season (0 = detect)"
+                  value={edaOptions.period ?? 0}
+                  onChange={(v) => setEdaOptions((o) => ({ ...o, period: v > 1 ? v : null }))}
+                  min={0}
+                  max={1000}
+                  integer
+                />
+                <ActionButton label="Explore data" onPress={explore} bg="#12b5cb" fg="#000" disabled={busy} />
+              </View>
+              {edaReport ? (
+                <>
+                  <ColumnSummaryTable summaries={edaReport.summaries} />
+                  {edaReport.correlation.columns.length > 1 ? (
+                    <>
+                      <Text style={{ color: "#9aa0a6" }}>Correlation (Pearson)</Text>
+                      <CorrelationHeatmap
+                        rows={edaReport.correlation.columns}
+                        columns={edaReport.correlation.columns}
+                        r={edaReport.correlation.r}
+                      />
+                    </>
+                  ) : null}
+                  {edaReport.target ? (
+                    <>
+                      <Text style={{ color: "#9aa0a6" }}>
+                        Lagged correlation with {edaReport.target}: corr(column(t - lag), {edaReport.target}(t))
+                      </Text>
+                      <CorrelationHeatmap
+                        rows={edaReport.lagged.map((l) => l.column)}
+                        columns={edaReport.acf.map((_, l) => String(l))}
+                        r={edaReport.lagged.map((l) => l.r)}
+                      />
+                      {Platform.OS === "web" ? (
+                        <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 12 }}>
+                          <CorrelogramChart title="ACF" values={edaReport.acf} bound={edaReport.bound} />
+                          <CorrelogramChart title="PACF" values={edaReport.pacf} bound={edaReport.bound} />
+                        </View>
+                      ) : null}
+                      <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                        <Text style={{ color: "#e8eaed" }}>
+                          suggested lags (PACF): {edaReport.suggestedLags.join(", ")}
+                        </Text>
+                        <OptionChip
+                          label="use as lags"
+                          selected={features.lags.join(",") === edaReport.suggestedLags.join(",")}
+                          onPress={() => setFeatures((f) => ({ ...f, lags: edaReport.suggestedLags }))}
+                        />
+                        {edaReport.period ? (
+                          <>
+                            <Text style={{ color: "#e8eaed" }}>season length: {edaReport.period}</Text>
+                            <OptionChip
+                              label="use season"
+                              selected={false}
+                              onPress={() => applySeasonLength(edaReport.period!)}
+                            />
+                          </>
+                        ) : (
+                          <Text style={{ color: "#5f6368" }}>no seasonal peak in the ACF</Text>
+                        )}
+                      </View>
+                      {edaReport.decomposition && Platform.OS === "web" ? (
+                        <DecompositionCharts
+                          decomposition={edaReport.decomposition}
+                          maxPoints={MAX_CHART_POINTS}
+                          labelOf={(i) => chartData[i]?._x ?? String(i + 1)}
+                        />
+                      ) : null}
+                    </>
+                  ) : null}
+                </>
+              ) : null}
+            </View>
+          ) : null}
+
+          {/* Features */}
+          <View style={{ gap: 8 }}>
+            <Text style={{ color: "#9aa0a6" }}>Features ({Xy.featNames.length})</Text>
+            <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+              <NumberListField
+                label="lags"
+                value={features.lags}
+                onChange={(v) => setFeatures((f) => ({ ...f, lags: v }))}
+              />
+              <NumberListField
+                label="diffs"
+                value={features.diffs}
+                onChange={(v) => setFeatures((f) => ({ ...f, diffs: v }))}
+              />
+              <NumberListField
+                label="% changes"
+                value={features.pctChanges}
+                onChange={(v) => setFeatures((f) => ({ ...f, pctChanges: v }))}
+              />
+              <NumberListField
+                label="rolling windows"
+                value={features.rollingWindows}
+                onChange={(v) => setFeatures((f) => ({ ...f, rollingWindows: v }))}
+              />
+            </View>
+            <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+              {(["mean", "std", "min", "max"] as RollingStat[]).map((st) => (
+                <OptionChip
+                  key={st}
+                  label={`rolling ${st}`}
+                  selected={features.rollingStats.includes(st)}
+                  onPress={() =>
+                    setFeatures((f) => ({ ...f, rollingStats: toggleIn(f.rollingStats, st) }))
+                  }
+                />
               ))}
+              <OptionChip
+                label="derived for exogenous too"
+                selected={features.derivedOnExo}
+                onPress={() => setFeatures((f) => ({ ...f, derivedOnExo: !f.derivedOnExo }))}
+              />
             </View>
+            {df?.datetimeKey ? (
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                {(Object.keys(CALENDAR_LABEL) as CalendarFeature[]).map((c) => (
+                  <OptionChip
+                    key={c}
+                    label={CALENDAR_LABEL[c]}
+                    selected={features.calendar.includes(c)}
+                    onPress={() => setFeatures((f) => ({ ...f, calendar: toggleIn(f.calendar, c) }))}
+                  />
+                ))}
+                {features.calendar.includes("holiday") ? (
+                  <TextField
+                    value={features.holidays.join(", ")}
+                    placeholder="holidays: 2025-01-01, 2025-12-25"
+                    onCommit={(text) => {
+                      const days = text.split(/[\s,;]+/).filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d));
+                      setFeatures((f) => ({ ...f, holidays: days }));
+                    }}
+                    style={{ minWidth: 260 }}
+                  />
+                ) : null}
+              </View>
+            ) : null}
+            {df?.categoricalCols.length ? (
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <Text style={{ color: "#9aa0a6" }}>categorical encoding:</Text>
+                {(Object.keys(ENCODING_LABEL) as CategoricalEncoding[]).map((e) => (
+                  <OptionChip
+                    key={e}
+                    label={ENCODING_LABEL[e]}
+                    selected={features.categoricalEncoding === e}
+                    onPress={() => setFeatures((f) => ({ ...f, categoricalEncoding: e }))}
+                  />
+                ))}
+              </View>
+            ) : null}
+            {series.length + (df?.categoricalCols.length ?? 0) > 1 ? (
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <Text style={{ color: "#9aa0a6" }}>exogenous:</Text>
+                {[...series, ...(df?.categoricalCols ?? [])]
+                  .filter((s) => s !== target)
+                  .map((s) => (
+                    <OptionChip
+                      key={s}
+                      label={s}
+                      selected={!features.excludeExo.includes(s)}
+                      onPress={() =>
+                        setFeatures((f) => ({ ...f, excludeExo: toggleIn(f.excludeExo, s) }))
+                      }
+                    />
+                  ))}
+              </View>
+            ) : null}
           </View>
 
           {/* Series toggles (color-coded) */}
@@ -683,10 +2640,57 @@ export default function HomeScreen() {
                 );
               })}
             </View>
+            <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+              <Text style={{ color: "#9aa0a6" }}>scale:</Text>
+              {(Object.keys(SCALE_LABEL) as ChartScale[]).map((m) => (
+                <OptionChip
+                  key={m}
+                  label={SCALE_LABEL[m]}
+                  selected={chartScale === m}
+                  onPress={() => setChartScale(m)}
+                />
+              ))}
+            </View>
+            {df && df.rows.length >= LARGE_SERIES_ROWS ? (
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <Text style={{ color: "#9aa0a6" }}>draw as:</Text>
+                {(Object.keys(RENDERER_LABEL) as ChartRenderer[]).map((m) => (
+                  <OptionChip
+                    key={m}
+                    label={RENDERER_LABEL[m]}
+                    selected={renderer === m}
+                    onPress={() => setRenderer(m)}
+                  />
+                ))}
+                <Text style={{ color: "#5f6368" }}>
+                  {df.rows.length} rows; models always use all of them
+                </Text>
+              </View>
+            ) : null}
+            <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+              <Text style={{ color: "#9aa0a6" }}>training window:</Text>
+              <OptionChip
+                label={pickingWindow ? "drag across the chart..." : "pick on chart"}
+                selected={pickingWindow}
+                onPress={() => setPickingWindow((v) => !v)}
+              />
+              {trainWindow ? (
+                <>
+                  <Text style={{ color: "#e8eaed" }}>
+                    {chartData[trainWindow.start]?._x} to {chartData[trainWindow.end]?._x} (
+                    {trainWindow.end - trainWindow.start + 1} rows)
+                  </Text>
+                  <OptionChip label="use all rows" selected={false} onPress={() => setTrainWindow(null)} />
+                </>
+              ) : (
+                <Text style={{ color: "#5f6368" }}>all rows</Text>
+              )}
+            </View>
           </View>
 
           {/* Chart */}
           <View
+            ref={chartRef}
             style={{
               width: "100%",
               height: CHART_H,
@@ -695,18 +2699,75 @@ export default function HomeScreen() {
               padding: 12,
             }}
           >
-            {Platform.OS === "web" ? (
+            {Platform.OS === "web" && canvasChart ? (
+              <CanvasChart
+                data={chartData}
+                from={zoomRange.start}
+                to={zoomRange.end}
+                lines={plotLines}
+                shading={canvasShading}
+                onRowDown={(i) => startDrag(observedRow(i))}
+                onRowMove={(i) => moveDrag(observedRow(i))}
+                onMouseUp={endDrag}
+                onMouseLeave={() => setDragWindow(null)}
+              />
+            ) : Platform.OS === "web" ? (
               <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                <ComposedChart
+                  data={chartView}
+                  margin={{ top: 10, right: 20, left: 0, bottom: 10 }}
+                  onMouseDown={(state: any) => startDrag(chartRow(state))}
+                  onMouseMove={(state: any) => moveDrag(chartRow(state))}
+                  onMouseUp={endDrag}
+                  onMouseLeave={() => setDragWindow(null)}
+                >
                   <CartesianGrid stroke="#2b2f36" strokeDasharray="3 3" />
-                  <XAxis dataKey="_x" stroke="#9aa0a6" />
-                  <YAxis stroke="#9aa0a6" />
-                  <Tooltip />
+                  <XAxis
+                    dataKey="_i"
+                    type="number"
+                    domain={["dataMin", "dataMax"]}
+                    tickFormatter={(i: number) => chartData[i]?._x ?? ""}
+                    stroke="#9aa0a6"
+                  />
+                  {chartScale === "axes" ? (
+                    series.map((s, idx) => (
+                      <YAxis
+                        key={s}
+                        yAxisId={s}
+                        orientation={idx === 0 ? "left" : "right"}
+                        stroke={colorFor(idx)}
+                        hide={!visible[s]}
+                      />
+                    ))
+                  ) : (
+                    <YAxis stroke="#9aa0a6" />
+                  )}
+                  <Tooltip labelFormatter={(i: number) => chartData[i]?._x ?? ""} />
                   <Legend />
+                  {trainWindow && chartData[trainWindow.end] ? (
+                    <ReferenceArea
+                      yAxisId={axisOf(series[0])}
+                      x1={trainWindow.start}
+                      x2={trainWindow.end}
+                      fill="#34a853"
+                      fillOpacity={0.12}
+                      label={{ value: "training window", fill: "#9aa0a6", position: "insideTop" }}
+                    />
+                  ) : null}
+                  {dragWindow ? (
+                    <ReferenceArea
+                      yAxisId={axisOf(series[0])}
+                      x1={dragWindow.from}
+                      x2={dragWindow.to}
+                      fill="#e8eaed"
+                      fillOpacity={0.15}
+                    />
+                  ) : null}
                   {series.map((s, idx) =>
                     visible[s] ? (
                       <Line
                         key={s}
+                        yAxisId={axisOf(s)}
                         type="monotone"
                         dataKey={s}
                         stroke={colorFor(idx)}
@@ -716,7 +2777,91 @@ export default function HomeScreen() {
                       />
                     ) : null
                   )}
-                </LineChart>
+                  {backtestResult && showOOS && target ? (
+                    <Line
+                      key={OOS_KEY}
+                      yAxisId={axisOf(target)}
+                      name={`${target} out-of-sample`}
+                      type="monotone"
+                      dataKey={OOS_KEY}
+                      stroke="#e8eaed"
+                      strokeDasharray="2 3"
+                      dot={false}
+                      strokeWidth={2}
+                      isAnimationActive={false}
+                    />
+                  ) : null}
+                  {bands && target ? (
+                    <Area
+                      key={BAND_KEY}
+                      yAxisId={axisOf(target)}
+                      name={`${Math.round(coverage * 100)}% interval`}
+                      type="monotone"
+                      dataKey={BAND_KEY}
+                      stroke="none"
+                      fill={colorFor(Math.max(0, series.indexOf(target)))}
+                      fillOpacity={0.2}
+                      isAnimationActive={false}
+                    />
+                  ) : null}
+                  {batchResult?.series.map((b) =>
+                    visible[b.series] ? (
+                      <Line
+                        key={BATCH_KEY + b.series}
+                        yAxisId={axisOf(b.series)}
+                        name={`${b.series} forecast (all series)`}
+                        type="monotone"
+                        dataKey={BATCH_KEY + b.series}
+                        stroke={colorFor(Math.max(0, series.indexOf(b.series)))}
+                        strokeDasharray="3 3"
+                        dot={false}
+                        strokeWidth={2}
+                        isAnimationActive={false}
+                      />
+                    ) : null
+                  )}
+                  {anomalySeries.map((s) => (
+                    <Scatter
+                      key={ANOMALY_KEY + s}
+                      yAxisId={axisOf(s)}
+                      name={`${s} anomalies`}
+                      dataKey={ANOMALY_KEY + s}
+                      fill="#ea4335"
+                      stroke={colorFor(Math.max(0, series.indexOf(s)))}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {forecast?.length && target ? (
+                    <Line
+                      key={FORECAST_KEY}
+                      yAxisId={axisOf(target)}
+                      name={`${target} forecast`}
+                      type="monotone"
+                      dataKey={FORECAST_KEY}
+                      stroke={colorFor(Math.max(0, series.indexOf(target)))}
+                      strokeDasharray="6 4"
+                      dot={false}
+                      strokeWidth={2}
+                      isAnimationActive={false}
+                    />
+                  ) : null}
+                  {target
+                    ? scenarioRuns?.map((r, k) => (
+                        <Line
+                          key={SCENARIO_KEY + r.name}
+                          yAxisId={axisOf(target)}
+                          name={`${target}: ${r.name}`}
+                          type="monotone"
+                          dataKey={SCENARIO_KEY + r.name}
+                          stroke={SCENARIO_COLORS[k % SCENARIO_COLORS.length]}
+                          strokeDasharray="4 2"
+                          dot={false}
+                          strokeWidth={2}
+                          isAnimationActive={false}
+                        />
+                      ))
+                    : null}
+                </ComposedChart>
               </ResponsiveContainer>
             ) : (
               <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
@@ -727,10 +2872,397 @@ export default function HomeScreen() {
             )}
           </View>
 
+          {/* Overview: the whole series; its brush zooms the chart above */}
+          {Platform.OS === "web" && overview.length > 1 ? (
+            <View style={{ width: "100%", height: 64, backgroundColor: "#111316", borderRadius: 12, padding: 6 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={overview} margin={{ top: 0, right: 20, left: 20, bottom: 0 }}>
+                  <Brush
+                    dataKey="_x"
+                    height={50}
+                    stroke="#5f6368"
+                    fill="#111316"
+                    travellerWidth={8}
+                    startIndex={Math.max(0, overview.findIndex((o) => o._i >= zoomRange.start))}
+                    endIndex={overview.reduce((k, o, idx) => (o._i <= zoomRange.end ? idx : k), 0)}
+                    onChange={onOverviewBrush}
+                  >
+                    <ComposedChart>
+                      {plotKeys.map((k, idx) => (
+                        <Line
+                          key={k}
+                          dataKey={k}
+                          stroke={plotLines[idx]?.color}
+                          dot={false}
+                          strokeWidth={1}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </ComposedChart>
+                  </Brush>
+                </ComposedChart>
+              </ResponsiveContainer>
+            </View>
+          ) : null}
+
+          {/* Backtest */}
+          {!classTarget ? (
+            <View style={{ gap: 8 }}>
+              <Text style={{ color: "#9aa0a6" }}>Backtest (walk-forward)</Text>
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <NumberField
+                  label="folds"
+                  value={btOptions.folds}
+                  onChange={(v) => setBtOptions((o) => ({ ...o, folds: v }))}
+                  min={1}
+                  max={50}
+                  integer
+                />
+                <NumberField
+                  label="test fraction"
+                  value={btOptions.testFraction}
+                  onChange={(v) => setBtOptions((o) => ({ ...o, testFraction: v }))}
+                  min={0.05}
+                  max={0.9}
+                />
+                <ActionButton label="Leaderboard" onPress={runLeaderboard} bg="#9334e6" disabled={busy} />
+                {backtestResult ? (
+                  <OptionChip
+                    label="show out-of-sample"
+                    selected={showOOS}
+                    onPress={() => setShowOOS((v) => !v)}
+                  />
+                ) : null}
+              </View>
+              {backtestResult ? (
+                <MetricsTable
+                  rows={[
+                    { label: "Model", m: backtestResult.model },
+                    { label: "Naive (last value)", m: backtestResult.naive },
+                    ...(backtestResult.seasonalNaive
+                      ? [
+                          {
+                            label: `Seasonal naive (m=${Xy.seasonLength})`,
+                            m: backtestResult.seasonalNaive,
+                          },
+                        ]
+                      : []),
+                  ]}
+                />
+              ) : null}
+              {leaderboard ? (
+                <>
+                  <Text style={{ color: "#9aa0a6" }}>Leaderboard ({leaderboard.rows} rows, by RMSE)</Text>
+                  <MetricsTable
+                    rows={leaderboard.entries.map((e, i) => ({ label: `${i + 1}. ${FAMILY_LABEL[e.family]}`, m: e.metrics }))}
+                  />
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+                    {leaderboard.entries.map((e) => (
+                      <OptionChip
+                        key={e.family}
+                        label={`use ${FAMILY_LABEL[e.family]}`}
+                        selected={family === e.family}
+                        onPress={() => setFamily(e.family)}
+                      />
+                    ))}
+                  </View>
+                </>
+              ) : null}
+            </View>
+          ) : null}
+
+          {/* All series */}
+          <View style={{ gap: 8 }}>
+            <Text style={{ color: "#9aa0a6" }}>All series</Text>
+            <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+              {(Object.keys(BATCH_MODE_LABEL) as BatchMode[]).map((m) => (
+                <OptionChip
+                  key={m}
+                  label={BATCH_MODE_LABEL[m]}
+                  selected={batchMode === m}
+                  onPress={() => setBatchMode(m)}
+                />
+              ))}
+              <ActionButton
+                label={`Forecast all series +${horizon}`}
+                onPress={forecastAllSeries}
+                bg="#f9ab00"
+                fg="#000"
+                disabled={busy}
+              />
+            </View>
+            {batchResult ? (
+              <>
+                <Text style={{ color: "#9aa0a6" }}>
+                  Held-out error on the last {Math.round(btOptions.testFraction * 100)}% of each series
+                </Text>
+                <MetricsTable rows={batchResult.series.map((b) => ({ label: b.series, m: b.metrics }))} />
+                <ForecastTable
+                  head="series"
+                  labels={batchResult.labels}
+                  rows={batchResult.series.map((b) => ({ name: b.series, forecast: b.forecast }))}
+                />
+              </>
+            ) : null}
+          </View>
+
+          {/* What-if scenarios */}
+          {!classTarget && target ? (
+            <View style={{ gap: 8 }}>
+              <Text style={{ color: "#9aa0a6" }}>What-if scenarios (future values of exogenous series)</Text>
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                {scenarios.map((sc, i) => (
+                  <OptionChip
+                    key={sc.name}
+                    label={sc.name}
+                    selected={scenarioIndex === i}
+                    onPress={() => setScenarioIndex(i)}
+                  />
+                ))}
+                <OptionChip label="+ scenario" selected={false} onPress={addScenario} />
+                <ActionButton
+                  label={`Forecast scenarios +${horizon}`}
+                  onPress={runWhatIf}
+                  bg="#a142f4"
+                  disabled={busy || !model}
+                />
+              </View>
+              {scenarios[scenarioIndex] ? (
+                <>
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <TextField
+                      value={scenarios[scenarioIndex].name}
+                      placeholder="scenario name"
+                      onCommit={(name) => updateScenario({ name })}
+                      style={{ minWidth: 200 }}
+                    />
+                    <OptionChip label="upload values (CSV/XLSX)" selected={false} onPress={onPickScenarioFile} />
+                    <OptionChip label="clear values" selected={false} onPress={() => updateScenario({ values: {} })} />
+                    {scenarios.length > 1 ? (
+                      <OptionChip label="delete scenario" selected={false} onPress={removeScenario} />
+                    ) : null}
+                  </View>
+                  {scenarioSeries.length && horizon > 1 ? (
+                    <>
+                      <ScenarioEditor
+                        values={scenarios[scenarioIndex].values}
+                        series={scenarioSeries}
+                        labels={Xy.futureLabels(Math.min(horizon - 1, MAX_SCENARIO_STEPS))}
+                        lastObserved={(s) => {
+                          const v = df?.rows[df.rows.length - 1]?.[s];
+                          return typeof v === "number" ? v : null;
+                        }}
+                        onChange={(values) => updateScenario({ values })}
+                      />
+                      <Text style={{ color: "#5f6368" }}>
+                        Blank steps repeat the step before (at first the last observed value). A step moves the
+                        forecast from the following step on, as features at t predict t+1, so a forecast of {horizon}{" "}
+                        steps reads steps 1 to {horizon - 1}.
+                        {horizon - 1 > MAX_SCENARIO_STEPS ? ` Upload a file to set steps past ${MAX_SCENARIO_STEPS}.` : ""}
+                      </Text>
+                    </>
+                  ) : (
+                    <Text style={{ color: "#5f6368" }}>
+                      {scenarioSeries.length
+                        ? "A one-step forecast reads only observed rows: raise the horizon to set future values."
+                        : "No exogenous series: the target is the only numeric input."}
+                    </Text>
+                  )}
+                </>
+              ) : null}
+              {scenarioRuns ? (
+                <ForecastTable
+                  head="scenario"
+                  labels={Xy.futureLabels(horizon)}
+                  rows={scenarioRuns.map((r) => ({ name: r.name, forecast: r.forecast }))}
+                />
+              ) : null}
+            </View>
+          ) : null}
+
+          {/* Anomalies */}
+          <View style={{ gap: 8 }}>
+            <Text style={{ color: "#9aa0a6" }}>Anomalies (out-of-fold residuals)</Text>
+            <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+              {(Object.keys(ANOMALY_SCOPE_LABEL) as AnomalyScope[]).map((s) => (
+                <OptionChip
+                  key={s}
+                  label={ANOMALY_SCOPE_LABEL[s]}
+                  selected={anomalyOptions.scope === s}
+                  onPress={() => setAnomalyOptions((o) => ({ ...o, scope: s }))}
+                />
+              ))}
+              <Text style={{ color: "#9aa0a6" }}>|z| &gt;=</Text>
+              {ANOMALY_THRESHOLDS.map((z) => (
+                <OptionChip
+                  key={z}
+                  label={String(z)}
+                  selected={anomalyOptions.threshold === z}
+                  onPress={() => setAnomalyOptions((o) => ({ ...o, threshold: z }))}
+                />
+              ))}
+              <NumberField
+                label="folds"
+                value={anomalyOptions.folds}
+                onChange={(v) => setAnomalyOptions((o) => ({ ...o, folds: v }))}
+                min={2}
+                max={50}
+                integer
+              />
+              <ActionButton label="Detect anomalies" onPress={detectAnomalies} bg="#ea4335" disabled={busy} />
+            </View>
+            {anomalyResult && df ? (
+              anomalyResult.anomalies.length ? (
+                <AnomalyTable
+                  anomalies={anomalyResult.anomalies}
+                  labelFor={(row) => {
+                    const v = df.datetimeKey ? df.rows[row]?.[df.datetimeKey] : null;
+                    return v instanceof Date ? v.toISOString() : `row ${row + 1}`;
+                  }}
+                />
+              ) : (
+                <Text style={{ color: "#9aa0a6" }}>No anomalies at this threshold.</Text>
+              )
+            ) : null}
+          </View>
+
+          {/* Model inspection */}
+          {model ? (
+            <View style={{ gap: 8 }}>
+              <Text style={{ color: "#9aa0a6" }}>Feature importance</Text>
+              <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                <ActionButton
+                  label="Permutation importance (held-out)"
+                  onPress={computePermutation}
+                  bg="#5f6368"
+                  disabled={busy}
+                />
+              </View>
+              <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 16 }}>
+                {mdi ? (
+                  <ImportanceBars title="Impurity reduction" names={Xy.featNames} values={mdi} />
+                ) : (
+                  <Text style={{ color: "#9aa0a6" }}>
+                    Impurity importance is not available for XGBoost models.
+                  </Text>
+                )}
+                {permImportance ? (
+                  <ImportanceBars
+                    title="Permutation (Δ MSE)"
+                    names={Xy.featNames}
+                    values={permImportance}
+                  />
+                ) : null}
+              </View>
+
+              {trees?.length ? (
+                <>
+                  <Text style={{ color: "#9aa0a6" }}>Decision tree</Text>
+                  {trees.length > 1 ? (
+                    <NumberField
+                      label={`tree (1..${trees.length})`}
+                      value={treeIndex + 1}
+                      onChange={(v) => setTreeIndex(v - 1)}
+                      min={1}
+                      max={trees.length}
+                      integer
+                    />
+                  ) : null}
+                  <View style={{ backgroundColor: "#111316", borderRadius: 10, padding: 10 }}>
+                    <TreeView
+                      key={treeIndex}
+                      node={trees[Math.min(treeIndex, trees.length - 1)]}
+                      names={Xy.featNames}
+                    />
+                  </View>
+
+                  <Text style={{ color: "#9aa0a6" }}>Explain a prediction</Text>
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <NumberField
+                      label="row (0 = next step)"
+                      value={explainRow}
+                      onChange={setExplainRow}
+                      min={0}
+                      max={df?.rows.length ?? 0}
+                      integer
+                    />
+                    <Text style={{ color: "#e8eaed" }}>
+                      {target}(
+                      {explainRow === 0 ? Xy.futureLabels(1)[0] : chartData[explainRow - 1]?._x ?? explainRow})
+                    </Text>
+                  </View>
+                  {explanation && explainX ? (
+                    <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 16 }}>
+                      <DecisionPathView
+                        title={trees.length > 1 ? `Path through tree ${Math.min(treeIndex + 1, trees.length)}` : "Path"}
+                        path={decisionPath(trees[Math.min(treeIndex, trees.length - 1)], explainX)}
+                        names={Xy.featNames}
+                      />
+                      <ShapWaterfall explanation={explanation} names={Xy.featNames} />
+                    </View>
+                  ) : (
+                    <Text style={{ color: "#9aa0a6" }}>
+                      {explainRow === 0
+                        ? "The next step has no complete feature vector yet."
+                        : "That row has no complete feature vector (or the features changed since training)."}
+                    </Text>
+                  )}
+                </>
+              ) : null}
+            </View>
+          ) : null}
+
+          {/* Model files */}
+          <View style={{ gap: 8 }}>
+            <Text style={{ color: "#9aa0a6" }}>Model file</Text>
+            <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+              <ActionButton label="Save model" onPress={saveModel} bg="#5f6368" />
+              <ActionButton label="Load model" onPress={onPickModelFile} bg="#5f6368" />
+              {recentModels.map((m) => (
+                <OptionChip
+                  key={m.name}
+                  label={m.name}
+                  selected={false}
+                  onPress={() => applyModelFile(m)}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Export */}
+          <View style={{ gap: 8 }}>
+            <Text style={{ color: "#9aa0a6" }}>Export</Text>
+            <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+              {(
+                [
+                  ["Results CSV", () => exportResults("csv"), !target],
+                  ["Results XLSX", () => exportResults("xlsx"), !target],
+                  ["Chart SVG", () => exportChart("svg"), false],
+                  ["Chart PNG", () => exportChart("png"), false],
+                  ["Report HTML", () => exportReport("html"), !target],
+                  ["Report JSON", () => exportReport("json"), !target],
+                ] as [string, () => void, boolean][]
+              ).map(([label, onPress, needsTarget]) => (
+                <ActionButton key={label} label={label} onPress={onPress} bg="#5f6368" disabled={!df || needsTarget} />
+              ))}
+            </View>
+          </View>
+
           {/* Status */}
           {status ? (
-            <View style={{ paddingHorizontal: 12, paddingVertical: 10, backgroundColor: "#202124", borderRadius: 10 }}>
-              <Text style={{ color: "#9aa0a6" }}>{status}</Text>
+            <View
+              style={{
+                paddingHorizontal: 12,
+                paddingVertical: 10,
+                backgroundColor: "#202124",
+                borderRadius: 10,
+                flexDirection: "row",
+                alignItems: "center",
+                gap: 12,
+              }}
+            >
+              <Text style={{ color: "#9aa0a6", flex: 1 }}>{status}</Text>
+              {busy ? <ActionButton label="Cancel" onPress={() => ml.cancel()} bg="#5f6368" /> : null}
             </View>
           ) : null}
         </View>
@@ -756,24 +3288,510 @@ function ActionButton({
   onPress,
   bg,
   fg = "#fff",
+  disabled = false,
 }: {
   label: string;
   onPress: () => void;
   bg: string;
   fg?: string;
+  disabled?: boolean;
 }) {
   return (
     <Pressable
       onPress={onPress}
+      disabled={disabled}
       style={({ pressed }) => ({
         backgroundColor: bg,
         paddingHorizontal: 14,
         paddingVertical: 10,
         borderRadius: 10,
-        opacity: pressed ? 0.8 : 1,
+        opacity: disabled ? 0.5 : pressed ? 0.8 : 1,
       })}
     >
       <Text style={{ color: fg, fontWeight: "700" }}>{label}</Text>
     </Pressable>
   );
 }
+
+function OptionChip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 8,
+        borderWidth: 2,
+        borderColor: "#5f6368",
+        backgroundColor: selected ? "#e8eaed" : "transparent",
+      }}
+    >
+      <Text style={{ color: selected ? "#000" : "#e8eaed", fontWeight: "700" }}>{label}</Text>
+    </Pressable>
+  );
+}
+
+// numeric input that keeps the typed text locally and only commits valid, clamped values
+function NumberField({
+  label,
+  value,
+  onChange,
+  min = -Infinity,
+  max = Infinity,
+  integer = false,
+}: {
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}) {
+  const [text, setText] = useState(String(value));
+  useEffect(() => setText(String(value)), [value]);
+
+  const commit = (t: string) => {
+    const n = integer ? parseInt(t, 10) : parseFloat(t);
+    if (!Number.isFinite(n)) {
+      setText(String(value));
+      return;
+    }
+    const v = Math.min(Math.max(min, n), max);
+    setText(String(v));
+    onChange(v);
+  };
+
+  return (
+    <View style={{ flexDirection: "row", alignItems: "center", gap: 6 }}>
+      <TextInput
+        value={text}
+        onChangeText={setText}
+        onBlur={() => commit(text)}
+        onSubmitEditing={() => commit(text)}
+        keyboardType={integer ? "number-pad" : "decimal-pad"}
+        style={{
+          width: 72,
+          paddingHorizontal: 10,
+          paddingVertical: 8,
+          borderRadius: 8,
+          borderWidth: 1,
+          borderColor: "#3c4043",
+          color: "#fff",
+        }}
+      />
+      <Text style={{ color: "#9aa0a6" }}>{label}</Text>
+    </View>
+  );
+}
+
+// Type of each column (set ones marked "*"), with the datetime format and
+// timezone for datetime columns.
+function SchemaEditor({
+  columns,
+  schema,
+  overrides,
+  onChange,
+}: {
+  columns: string[];
+  schema: Schema;
+  overrides: Schema;
+  onChange: (column: string, spec: ColumnSpec | null) => void;
+}) {
+  return (
+    <View style={{ gap: 6 }}>
+      {columns.map((c) => {
+        const spec = schema[c];
+        return (
+          <View key={c} style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 6 }}>
+            <Text numberOfLines={1} style={{ width: 140, color: "#e8eaed" }}>
+              {overrides[c] ? `${c} *` : c}
+            </Text>
+            {COLUMN_TYPES.map((t) => (
+              <OptionChip
+                key={t}
+                label={t}
+                selected={spec.type === t}
+                onPress={() =>
+                  onChange(c, t === "datetime" ? { type: t, format: spec.format ?? "iso", timezone: spec.timezone ?? "local" } : { type: t })
+                }
+              />
+            ))}
+            {spec.type === "datetime" ? (
+              <>
+                {DATETIME_FORMATS.map((f) => (
+                  <OptionChip
+                    key={f}
+                    label={f}
+                    selected={(spec.format ?? "iso") === f}
+                    onPress={() => onChange(c, { ...spec, format: f })}
+                  />
+                ))}
+                <TextField
+                  value={spec.timezone ?? "local"}
+                  placeholder="local, UTC or +09:00"
+                  onCommit={(text) => {
+                    const zone = text.trim();
+                    if (isValidTimezone(zone)) onChange(c, { ...spec, timezone: zone });
+                  }}
+                  style={{ width: 110 }}
+                />
+              </>
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+// column names with their types, then the first parsed rows
+function PreviewTable({ df, maxRows = 10 }: { df: DataFrame; maxRows?: number }) {
+  const kind = (c: string) => df.schema[c].type;
+  const fmt = (v: Row[string]) =>
+    v == null ? "–" : v instanceof Date ? v.toISOString() : String(v);
+  const cell = { width: 120, color: "#e8eaed", paddingRight: 8 };
+  return (
+    <ScrollView horizontal>
+      <View style={{ backgroundColor: "#111316", borderRadius: 10, padding: 10, gap: 4 }}>
+        <View style={{ flexDirection: "row" }}>
+          {df.columns.map((c) => (
+            <Text key={c} numberOfLines={1} style={{ ...cell, fontWeight: "700" }}>
+              {c} <Text style={{ color: "#9aa0a6", fontWeight: "400" }}>{kind(c)}</Text>
+            </Text>
+          ))}
+        </View>
+        {df.rows.slice(0, maxRows).map((r, i) => (
+          <View key={i} style={{ flexDirection: "row" }}>
+            {df.columns.map((c) => (
+              <Text key={c} numberOfLines={1} style={cell}>
+                {fmt(r[c])}
+              </Text>
+            ))}
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+function MetricsTable({ rows }: { rows: { label: string; m: Metrics }[] }) {
+  const cols: [keyof Metrics, string][] = [
+    ["mae", "MAE"],
+    ["rmse", "RMSE"],
+    ["mape", "MAPE %"],
+    ["smape", "sMAPE %"],
+    ["r2", "R²"],
+  ];
+  const fmt = (v: number) => (Number.isFinite(v) ? v.toFixed(3) : "–");
+  const cell = { width: 80, color: "#e8eaed", textAlign: "right" as const };
+  return (
+    <View style={{ backgroundColor: "#111316", borderRadius: 10, padding: 10, gap: 4 }}>
+      <View style={{ flexDirection: "row" }}>
+        <Text style={{ flex: 1, color: "#9aa0a6" }} />
+        {cols.map(([, h]) => (
+          <Text key={h} style={{ ...cell, color: "#9aa0a6" }}>
+            {h}
+          </Text>
+        ))}
+      </View>
+      {rows.map(({ label, m }) => (
+        <View key={label} style={{ flexDirection: "row" }}>
+          <Text style={{ flex: 1, color: "#e8eaed" }}>{label}</Text>
+          {cols.map(([k]) => (
+            <Text key={k} style={cell}>
+              {fmt(m[k])}
+            </Text>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+// flagged rows, sortable by pressing a column header
+const MAX_ANOMALY_ROWS = 200;
+
+function AnomalyTable({ anomalies, labelFor }: { anomalies: Anomaly[]; labelFor: (row: number) => string }) {
+  const [sort, setSort] = useState<{ key: "time" | "series" | "score"; desc: boolean }>({ key: "score", desc: true });
+  const sorted = useMemo(() => {
+    const cmp = {
+      time: (a: Anomaly, b: Anomaly) => a.row - b.row,
+      series: (a: Anomaly, b: Anomaly) => a.series.localeCompare(b.series) || a.row - b.row,
+      score: (a: Anomaly, b: Anomaly) => Math.abs(a.score) - Math.abs(b.score),
+    }[sort.key];
+    const out = [...anomalies].sort(cmp);
+    return sort.desc ? out.reverse() : out;
+  }, [anomalies, sort]);
+
+  const cell = { width: 90, color: "#e8eaed", textAlign: "right" as const };
+  const header = (key: typeof sort.key, label: string, style: object) => (
+    <Pressable onPress={() => setSort((s) => ({ key, desc: s.key === key ? !s.desc : key === "score" }))}>
+      <Text style={{ ...style, color: sort.key === key ? "#e8eaed" : "#9aa0a6" }}>
+        {label}
+        {sort.key === key ? (sort.desc ? " ▼" : " ▲") : ""}
+      </Text>
+    </Pressable>
+  );
+  return (
+    <View style={{ backgroundColor: "#111316", borderRadius: 10, padding: 10, gap: 4 }}>
+      <View style={{ flexDirection: "row" }}>
+        <View style={{ flex: 1 }}>{header("time", "time", {})}</View>
+        {header("series", "series", { ...cell, width: 120 })}
+        <Text style={{ ...cell, color: "#9aa0a6" }}>actual</Text>
+        <Text style={{ ...cell, color: "#9aa0a6" }}>predicted</Text>
+        {header("score", "z", cell)}
+      </View>
+      {sorted.slice(0, MAX_ANOMALY_ROWS).map((a) => (
+        <View key={`${a.series}:${a.row}`} style={{ flexDirection: "row" }}>
+          <Text style={{ flex: 1, color: "#e8eaed" }}>{labelFor(a.row)}</Text>
+          <Text style={{ ...cell, width: 120 }} numberOfLines={1}>
+            {a.series}
+          </Text>
+          <Text style={cell}>{a.actual.toFixed(3)}</Text>
+          <Text style={cell}>{a.predicted.toFixed(3)}</Text>
+          <Text style={{ ...cell, color: a.score > 0 ? "#f28b82" : "#8ab4f8" }}>{a.score.toFixed(2)}</Text>
+        </View>
+      ))}
+      {sorted.length > MAX_ANOMALY_ROWS ? (
+        <Text style={{ color: "#9aa0a6" }}>…and {sorted.length - MAX_ANOMALY_ROWS} more.</Text>
+      ) : null}
+    </View>
+  );
+}
+
+// comma-separated positive integers, e.g. lags "1, 2, 7"
+function NumberListField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number[];
+  onChange: (v: number[]) => void;
+}) {
+  const [text, setText] = useState(value.join(", "));
+  useEffect(() => setText(value.join(", ")), [value]);
+
+  const commit = (t: string) => {
+    const nums = t
+      .split(/[\s,;]+/)
+      .map((p) => parseInt(p, 10))
+      .filter((n) => Number.isFinite(n) && n > 0);
+    const v = Array.from(new Set(nums)).sort((a, b) => a - b);
+    setText(v.join(", "));
+    onChange(v);
+  };
+
+  return (
+    <View style={{ flexDirection: "row", alignItems: "center", gap: 6 }}>
+      <TextInput
+        value={text}
+        onChangeText={setText}
+        onBlur={() => commit(text)}
+        onSubmitEditing={() => commit(text)}
+        placeholder="none"
+        placeholderTextColor="#5f6368"
+        style={{
+          width: 96,
+          paddingHorizontal: 10,
+          paddingVertical: 8,
+          borderRadius: 8,
+          borderWidth: 1,
+          borderColor: "#3c4043",
+          color: "#fff",
+        }}
+      />
+      <Text style={{ color: "#9aa0a6" }}>{label}</Text>
+    </View>
+  );
+}
+
+// horizontal bars, largest first
+function ImportanceBars({
+  title,
+  names,
+  values,
+  maxItems = 15,
+}: {
+  title: string;
+  names: string[];
+  values: number[];
+  maxItems?: number;
+}) {
+  const items = values
+    .map((v, i) => ({ name: names[i] ?? `x${i}`, v }))
+    .sort((a, b) => b.v - a.v)
+    .slice(0, maxItems);
+  const top = Math.max(1e-12, ...items.map((it) => Math.abs(it.v)));
+  return (
+    <View style={{ flexGrow: 1, minWidth: 280, gap: 4 }}>
+      <Text style={{ color: "#e8eaed", fontWeight: "700" }}>{title}</Text>
+      {items.map((it) => (
+        <View key={it.name} style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+          <Text style={{ width: 140, color: "#9aa0a6" }} numberOfLines={1}>
+            {it.name}
+          </Text>
+          <View style={{ flex: 1, height: 12, backgroundColor: "#202124", borderRadius: 4 }}>
+            <View
+              style={{
+                width: `${(100 * Math.max(0, it.v)) / top}%`,
+                height: "100%",
+                backgroundColor: "#1a73e8",
+                borderRadius: 4,
+              }}
+            />
+          </View>
+          <Text style={{ width: 64, color: "#e8eaed", textAlign: "right" }}>{formatNum(it.v)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+// the conditions one feature vector meets from the root to its leaf
+function DecisionPathView({ title, path, names }: { title: string; path: DecisionPath; names: string[] }) {
+  return (
+    <View style={{ flexGrow: 1, minWidth: 280, gap: 4 }}>
+      <Text style={{ color: "#e8eaed", fontWeight: "700" }}>{title}</Text>
+      <View style={{ backgroundColor: "#111316", borderRadius: 10, padding: 10, gap: 4 }}>
+        {path.steps.map((st, i) => {
+          const name = names[st.feature] ?? `x${st.feature}`;
+          const value = Number.isFinite(st.value) ? formatNum(st.value) : "missing";
+          return (
+            <Text key={i} style={{ color: "#e8eaed" }}>
+              {i + 1}. {name} = {value} {st.left ? "<=" : ">"} {formatNum(st.threshold)}
+              <Text style={{ color: "#9aa0a6" }}> (n={st.size})</Text>
+            </Text>
+          );
+        })}
+        <Text style={{ color: "#34a853", fontWeight: "700" }}>
+          leaf: {formatNum(path.leaf)} (n={path.size})
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+// SHAP waterfall: from the base value, each feature's contribution (largest
+// first, the rest pooled) moves the running total to the prediction
+const MAX_WATERFALL_ITEMS = 12;
+
+function ShapWaterfall({ explanation, names }: { explanation: Explanation; names: string[] }) {
+  const { base, contributions, prediction } = explanation;
+  const ranked = contributions
+    .map((v, i) => ({ name: names[i] ?? `x${i}`, v }))
+    .filter((it) => it.v !== 0)
+    .sort((a, b) => Math.abs(b.v) - Math.abs(a.v));
+  const items = ranked.slice(0, MAX_WATERFALL_ITEMS);
+  const rest = ranked.slice(MAX_WATERFALL_ITEMS);
+  if (rest.length) items.push({ name: `${rest.length} other features`, v: rest.reduce((a, it) => a + it.v, 0) });
+
+  let total = base;
+  const steps = items.map((it) => {
+    const from = total;
+    total += it.v;
+    return { ...it, from, to: total };
+  });
+  const lo = Math.min(base, prediction, ...steps.map((st) => st.to));
+  const hi = Math.max(base, prediction, ...steps.map((st) => st.to));
+  const pos = (v: number) => `${(100 * (v - lo)) / Math.max(1e-12, hi - lo)}%` as const;
+  const marker = (label: string, v: number) => (
+    <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+      <Text style={{ width: 160, color: "#e8eaed", fontWeight: "700" }}>{label}</Text>
+      <View style={{ flex: 1, height: 14 }}>
+        <View style={{ position: "absolute", left: pos(v), width: 2, height: "100%", backgroundColor: "#e8eaed" }} />
+      </View>
+      <Text style={{ width: 72, color: "#e8eaed", textAlign: "right" }}>{formatNum(v)}</Text>
+    </View>
+  );
+  return (
+    <View style={{ flexGrow: 1, minWidth: 320, gap: 4 }}>
+      <Text style={{ color: "#e8eaed", fontWeight: "700" }}>Contributions (TreeSHAP)</Text>
+      {marker("base value", base)}
+      {steps.map((st) => (
+        <View key={st.name} style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+          <Text style={{ width: 160, color: "#9aa0a6" }} numberOfLines={1}>
+            {st.name}
+          </Text>
+          <View style={{ flex: 1, height: 14, backgroundColor: "#202124", borderRadius: 4 }}>
+            <View
+              style={{
+                position: "absolute",
+                left: pos(Math.min(st.from, st.to)),
+                width: `${(100 * Math.abs(st.v)) / Math.max(1e-12, hi - lo)}%`,
+                minWidth: 2,
+                height: "100%",
+                backgroundColor: st.v > 0 ? "#34a853" : "#ea4335",
+                borderRadius: 3,
+              }}
+            />
+          </View>
+          <Text style={{ width: 72, color: st.v > 0 ? "#81c995" : "#f28b82", textAlign: "right" }}>
+            {st.v > 0 ? "+" : ""}
+            {formatNum(st.v)}
+          </Text>
+        </View>
+      ))}
+      {marker("prediction", prediction)}
+    </View>
+  );
+}
+
+// collapsible tree: "feature <= threshold" goes to the first child
+function TreeView({
+  node,
+  names,
+  label = "root",
+  openDepth = 3,
+}: {
+  node: CartNode;
+  names: string[];
+  label?: string;
+  openDepth?: number;
+}) {
+  const [open, setOpen] = useState(node.depth < openDepth);
+  const indent = { marginLeft: node.depth > 0 ? 16 : 0 };
+
+  if (node.kind === "leaf") {
+    return (
+      <Text style={{ ...indent, color: "#9aa0a6" }}>
+        {label} → <Text style={{ color: "#f9ab00" }}>{formatNum(node.value)}</Text> (n={node.size})
+      </Text>
+    );
+  }
+
+  const feat = names[node.feature] ?? `x${node.feature}`;
+  return (
+    <View style={indent}>
+      <Pressable onPress={() => setOpen((o) => !o)}>
+        <Text style={{ color: "#e8eaed" }}>
+          {open ? "▾" : "▸"} {label}: split on {feat} at {formatNum(node.threshold)} (n={node.size})
+        </Text>
+      </Pressable>
+      {open ? (
+        <>
+          <TreeView
+            node={node.left}
+            names={names}
+            label={`${feat} <= ${formatNum(node.threshold)}`}
+            openDepth={openDepth}
+          />
+          <TreeView
+            node={node.right}
+            names={names}
+            label={`${feat} > ${formatNum(node.threshold)}`}
+            openDepth={openDepth}
+          />
+        </>
+      ) : null}
+    </View>
+  );
+}